@@ -0,0 +1,601 @@
+/**
+ * profile.jsx
+ * 
+ * This component renders the main profile screen of the Aispeak application
+ * (route /profile).
+ * It displays user information, subscription details, and additional options.
+ * While an account deletion is scheduled it shows when it happens and lets
+ * the user undo it. The "Más" section exports and imports the personal data.
+ * 
+ * @author Aispeak Front-End Development Internship Assessment
+ * @version 1.5
+ */
+
+// Import necessary libraries and components
+import React, { useRef, useCallback } from 'react';
+import { StyleSheet, View, Text, Image, TouchableOpacity, ScrollView, SafeAreaView, Switch, AccessibilityInfo, findNodeHandle } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useFonts, Nunito_400Regular, Nunito_700Bold } from '@expo-google-fonts/nunito';
+import { SourceSansPro_400Regular, SourceSansPro_600SemiBold } from '@expo-google-fonts/source-sans-pro';
+import { useFocusEffect, useRouter } from 'expo-router';
+
+// Import image assets
+import PlanIcon from '../../assets/images/spark.png';
+import LegalIcon from '../../assets/images/page-flip.png';
+import LogoutIcon from '../../assets/images/exit.png';
+import TrophyIcon from '../../assets/images/capybara-gafas.jpg';
+
+// Import components
+import AvatarView from '../../components/ui/AvatarView';
+import StreakHeatmap from '../../components/ui/StreakHeatmap';
+import { useAccountDeletion } from '../../hooks/useAccountDeletion';
+import { useAchievements } from '../../hooks/useAchievements';
+import { useMotionPreferences } from '../../hooks/useMotionPreferences';
+import { useProfile } from '../../hooks/useProfile';
+import { useSubscription } from '../../hooks/useSubscription';
+import { useTheme, useThemedStyles } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { cancelAccountDeletion } from '../../services/accountDeletion';
+import { isRevealed } from '../../services/achievementEngine';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, setLanguagePreference } from '../../services/i18n';
+import { setAnimationsEnabled } from '../../services/motionPreferences';
+import { clearPersonalData, exportPersonalData } from '../../services/personalData';
+import { signOut } from '../../services/session';
+
+// Import constants
+import Fonts from '../../constants/Fonts';
+
+/**
+ * Main ProfileScreen component
+ * Displays user profile information and navigation options
+ */
+const ProfileScreen = () => {
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Semantic colors of the active light or dark theme, and the styles built from them
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  // Translated strings and the language chosen in the "Más" section
+  const { t, preference, formatDate } = useTranslation();
+  const languageOptions = [
+    { id: 'system', name: t('profile.languageSystem') },
+    ...SUPPORTED_LOCALES.map(locale => ({ id: locale, name: LOCALE_NAMES[locale] })),
+  ];
+
+  // Shared achievements store, used for the pending counter in the achievements menu item
+  // Secret achievements are not counted until they are unlocked
+  const { achievements } = useAchievements();
+  const pendingAchievements = achievements.filter(
+    achievement => !achievement.isCompleted && isRevealed(achievement)
+  ).length;
+
+  // Current plan from the billing provider, shown in the "Suscripción" section
+  const { subscription } = useSubscription();
+
+  // Scheduled account deletion, which can be undone until its date
+  const { deleteAt } = useAccountDeletion();
+
+  /**
+   * Undoes the scheduled account deletion
+   */
+  const handleUndoDeletion = async () => {
+    if (!(await cancelAccountDeletion())) alert(t('deleteAccount.error'));
+  };
+
+  // In-app animations toggle; the OS reduce-motion setting also turns animations off
+  const { animationsEnabled, systemReduceMotion, reduceMotion } = useMotionPreferences();
+
+  // Menu item that opened the achievements panel; screen reader focus returns to it on close
+  const achievementsButtonRef = useRef(null);
+  const returningFromAchievements = useRef(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!returningFromAchievements.current) return;
+      returningFromAchievements.current = false;
+      // Wait for the panel to close before moving the screen reader focus back
+      const timer = setTimeout(() => {
+        const node = findNodeHandle(achievementsButtonRef.current);
+        if (node) AccessibilityInfo.setAccessibilityFocus(node);
+      }, reduceMotion ? 0 : 300);
+      return () => clearTimeout(timer);
+    }, [reduceMotion])
+  );
+  
+  // Stored profile, refreshed whenever it changes on any screen
+  const { profile } = useProfile();
+
+  /**
+   * Handles user logout action
+   * Ends the session and clears the personal data, so the next user starts from scratch;
+   * the route guards then open the sign-in screen. A scheduled account deletion stays
+   * stored for its user
+   */
+  const handleLogout = async () => {
+    await signOut();
+    await clearPersonalData();
+  };
+
+  /**
+   * Exports the personal data as a JSON file through the share sheet
+   */
+  const handleExportData = async () => {
+    if (!(await exportPersonalData())) alert(t('deleteAccount.exportError'));
+  };
+
+  /**
+   * Navigation function to the data import screen
+   */
+  const navigateToImportData = () => {
+    router.push('/import-data');
+  };
+
+  /**
+   * Navigation function to the Legal Information screen
+   */
+  const navigateToLegalInfo = () => {
+    router.push('/legal');
+  };
+
+  /**
+   * Navigation function to the Subscription screen
+   */
+  const navigateToSubscription = () => {
+    router.push('/subscription');
+  };
+
+  /**
+   * Navigation function to the development-only achievements benchmark screen
+   */
+  const navigateToBenchmark = () => {
+    router.push('/achievements-benchmark');
+  };
+  
+  /**
+   * Navigation function to the Edit Profile screen
+   */
+  const navigateToEditProfile = () => {
+    router.push('/edit-profile');
+  };
+  
+  /**
+   * Navigation function to the achievements panel
+   */
+  const navigateToAchievements = () => {
+    returningFromAchievements.current = true;
+    router.push('/achievements');
+  };
+
+  /**
+   * Load custom fonts using Expo's useFonts hook
+   * - Nunito: Used for headings and titles
+   * - Source Sans Pro: Used for body text and general content
+   */
+  const [fontsLoaded] = useFonts({
+    Nunito_400Regular,
+    Nunito_700Bold,
+    SourceSansPro_400Regular,
+    SourceSansPro_600SemiBold,
+  });
+
+  if (!fontsLoaded) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        {/* Scheduled account deletion, with the option to undo it */}
+        {deleteAt !== null && (
+          <View style={styles.deletionBanner} accessibilityLiveRegion="polite">
+            <Text style={styles.deletionBannerText}>
+              {t('deleteAccount.pending', { date: formatDate(deleteAt, { day: 'numeric', month: 'long', year: 'numeric' }) })}
+            </Text>
+            <TouchableOpacity onPress={handleUndoDeletion} accessibilityRole="button">
+              <Text style={styles.deletionBannerAction}>{t('deleteAccount.undo')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.profileImageContainer}>
+          <AvatarView avatar={profile.avatar} size={100} style={styles.capybaraImage} />
+        </View>
+        
+        <Text style={styles.profileName}>{profile.name}</Text>
+        
+        <TouchableOpacity 
+          style={styles.editProfileButton} 
+          onPress={navigateToEditProfile}
+        >
+          <Text style={styles.editProfileText}>{t('profile.editProfile')}</Text>
+        </TouchableOpacity>
+
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>{t('profile.subscription')}</Text>
+          
+          <TouchableOpacity style={[styles.menuItem, {backgroundColor: theme.background}]} onPress={navigateToSubscription}>
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={PlanIcon} 
+                style={[styles.menuItemIcon, {tintColor: theme.accent}]}
+                resizeMode="contain"
+                fadeDuration={0}
+                progressiveRenderingEnabled={true}
+              />
+              <Text style={[styles.planText, {color: theme.text}]}>{t('profile.plan')}</Text>
+            </View>
+            <View style={styles.menuItemRight}>
+              <Text style={[styles.menuItemValue, {color: theme.accent}]}>{t(`plan.${subscription.plan}`)}</Text>
+              <Text style={[styles.menuItemArrow, {color: theme.accent}]}>›</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+        
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>{t('profile.achievements')}</Text>
+          
+          <TouchableOpacity 
+            ref={achievementsButtonRef}
+            style={[styles.menuItem, {backgroundColor: theme.accentSoft}]} 
+            onPress={navigateToAchievements}
+            accessibilityRole="button"
+            accessibilityLabel={`${t('profile.myAchievements')}, ${t('profile.availableAchievements', { count: pendingAchievements })}`}
+          >
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={TrophyIcon} 
+                style={[styles.menuItemIcon, {tintColor: null, borderRadius: 12}]}
+                resizeMode="cover"
+                fadeDuration={0}
+                progressiveRenderingEnabled={true}
+              />
+              <Text style={[styles.menuItemText, {color: theme.text, fontFamily: Fonts.nunitoBold}]}>{t('profile.myAchievements')}</Text>
+            </View>
+            <View style={styles.menuItemRight}>
+              <Text style={[styles.menuItemValue, {color: theme.accent}]}>{t('profile.availableAchievements', { count: pendingAchievements })}</Text>
+              <Text style={[styles.menuItemArrow, {color: theme.accent}]}>›</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>{t('profile.streak')}</Text>
+          <StreakHeatmap />
+        </View>
+
+        <View style={styles.sectionContainer}>
+          <Text style={styles.sectionTitle}>{t('profile.more')}</Text>
+
+          <View style={[styles.menuItem, {backgroundColor: theme.surface}]}>
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={PlanIcon} 
+                style={[styles.menuItemIcon, {tintColor: theme.accent}]}
+                resizeMode="contain"
+                fadeDuration={0}
+              />
+              <View>
+                <Text style={[styles.menuItemText, {color: theme.text}]}>{t('profile.animations')}</Text>
+                {systemReduceMotion && (
+                  <Text style={styles.menuItemHint}>{t('profile.animationsReduced')}</Text>
+                )}
+              </View>
+            </View>
+            <Switch
+              value={animationsEnabled}
+              onValueChange={setAnimationsEnabled}
+              trackColor={{ false: theme.border, true: theme.accent }}
+              thumbColor={theme.onAccent}
+              accessibilityLabel={t('profile.animations')}
+            />
+          </View>
+
+          {/* Language selector: follow the device or pick a language */}
+          <View style={[styles.menuItem, {backgroundColor: theme.surface}]}>
+            <Text style={[styles.menuItemText, {color: theme.text}]}>{t('profile.language')}</Text>
+            <View style={styles.languageOptions} accessibilityRole="radiogroup" accessibilityLabel={t('profile.language')}>
+              {languageOptions.map(option => {
+                const selected = preference === option.id;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.languageOption, selected && styles.languageOptionSelected]}
+                    onPress={() => setLanguagePreference(option.id)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Text style={[styles.languageOptionText, selected && styles.languageOptionTextSelected]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+          
+          <TouchableOpacity style={[styles.menuItem, {backgroundColor: theme.surface}]} onPress={handleExportData}>
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={PlanIcon} 
+                style={[styles.menuItemIcon, {tintColor: theme.accent}]}
+                resizeMode="contain"
+                fadeDuration={0}
+              />
+              <Text style={[styles.menuItemText, {color: theme.text}]}>{t('profile.exportData')}</Text>
+            </View>
+            <View style={styles.menuItemRight}>
+              <Text style={[styles.menuItemArrow, {color: theme.accent}]}>›</Text>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={[styles.menuItem, {backgroundColor: theme.surface}]} onPress={navigateToImportData}>
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={PlanIcon} 
+                style={[styles.menuItemIcon, {tintColor: theme.accent}]}
+                resizeMode="contain"
+                fadeDuration={0}
+              />
+              <Text style={[styles.menuItemText, {color: theme.text}]}>{t('profile.importData')}</Text>
+            </View>
+            <View style={styles.menuItemRight}>
+              <Text style={[styles.menuItemArrow, {color: theme.accent}]}>›</Text>
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={[styles.menuItem, {backgroundColor: theme.surface}]} onPress={navigateToLegalInfo}>
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={LegalIcon} 
+                style={[styles.menuItemIcon, {tintColor: theme.accent}]}
+                resizeMode="contain"
+                fadeDuration={0}
+                progressiveRenderingEnabled={true}
+              />
+              <Text style={[styles.menuItemText, {color: theme.text}]}>{t('profile.legalInfo')}</Text>
+            </View>
+            <View style={styles.menuItemRight}>
+              <Text style={[styles.menuItemArrow, {color: theme.accent}]}>›</Text>
+            </View>
+          </TouchableOpacity>
+
+          {/* Only available in development builds */}
+          {__DEV__ && (
+            <TouchableOpacity style={[styles.menuItem, {backgroundColor: theme.surface}]} onPress={navigateToBenchmark}>
+              <View style={styles.menuItemLeft}>
+                <Image 
+                  source={PlanIcon} 
+                  style={[styles.menuItemIcon, {tintColor: theme.accent}]}
+                  resizeMode="contain"
+                  fadeDuration={0}
+                />
+                <Text style={[styles.menuItemText, {color: theme.text}]}>{t('profile.achievementsBenchmark')}</Text>
+              </View>
+              <View style={styles.menuItemRight}>
+                <Text style={[styles.menuItemArrow, {color: theme.accent}]}>›</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+          
+          <TouchableOpacity style={[styles.menuItem, styles.lastMenuItem, {backgroundColor: theme.surface}]} onPress={handleLogout}>
+            <View style={styles.menuItemLeft}>
+              <Image 
+                source={LogoutIcon} 
+                style={[styles.menuItemIcon, {tintColor: theme.danger}]}
+                resizeMode="contain"
+                fadeDuration={0}
+                progressiveRenderingEnabled={true}
+              />
+              <Text style={[styles.menuItemText, styles.logoutText]}>{t('profile.logout')}</Text>
+            </View>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.versionText}>{t('profile.version', { version: '1.1' })}</Text>
+      </ScrollView>
+
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the ProfileScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  safeArea: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  deletionBanner: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: theme.danger,
+    padding: 15,
+    marginTop: 10,
+  },
+  deletionBannerText: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 15,
+    color: theme.text,
+  },
+  deletionBannerAction: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 15,
+    color: theme.accent,
+    marginTop: 8,
+  },
+  profileImageContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 20,
+    marginBottom: 20,
+  },
+  capybaraImage: {
+    marginBottom: 10,
+    alignSelf: 'center',
+  },
+  profileImage: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: theme.brand,
+  },
+  editPhotoButton: {
+    marginTop: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.accent,
+  },
+  profileName: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 22,
+    color: theme.text,
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  editProfileButton: {
+    backgroundColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 25,
+    alignSelf: 'center',
+    marginBottom: 30,
+    width: 150,
+    alignItems: 'center',
+    borderWidth: 2,                // Borde completo alrededor del botón
+    borderColor: theme.accentStrong,        // Un azul más oscuro que el color principal
+    borderBottomWidth: 4,          // Borde inferior más grueso
+    borderBottomColor: theme.accentStrong,  // Un azul más oscuro que el color principal
+  },
+  editProfileText: {
+    fontFamily: Fonts.nunitoBold,
+    color: theme.onAccent,
+    fontSize: 16,
+  },
+  sectionContainer: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+    marginBottom: 10,
+  },
+  menuItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 10,
+  },
+  lastMenuItem: {
+    marginBottom: 10,
+  },
+  menuItemLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  menuItemIcon: {
+    width: 24,
+    height: 24,
+    marginRight: 10,
+    resizeMode: 'contain',
+  },
+  menuItemText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 16,
+    color: theme.text,
+  },
+  menuItemHint: {
+    fontFamily: Fonts.nunito,
+    fontSize: 12,
+    color: theme.textMuted,
+  },
+  languageOptions: {
+    flexDirection: 'row',
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: theme.accent,
+    overflow: 'hidden',
+  },
+  languageOption: {
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+  },
+  languageOptionSelected: {
+    backgroundColor: theme.accent,
+  },
+  languageOptionText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 13,
+    color: theme.accent,
+  },
+  languageOptionTextSelected: {
+    color: theme.onAccent,
+  },
+  planText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.accent, // Azul para el botón de Plan con fondo blanco
+  },
+  legalInfoText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 16,
+    color: theme.textMuted, // Gris para Información legal con fondo blanco roto
+  },
+  logoutText: {
+    color: theme.danger,
+  },
+  menuItemRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  menuItemValue: {
+    fontFamily: Fonts.nunito,
+    fontSize: 16,
+    color: theme.text,
+    marginRight: 5,
+  },
+  menuItemArrow: {
+    fontSize: 18,
+    color: theme.textMuted,
+  },
+  versionText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 14,
+    color: theme.textMuted,
+    textAlign: 'center',
+    marginTop: 'auto',
+    paddingVertical: 20,
+  },
+  title: {
+    color: theme.brand,
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 24,
+  },
+  body: {
+    color: theme.textMuted,
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+  },
+});
+
+export default ProfileScreen;
+
@@ -4,15 +4,31 @@ import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 
+import AchievementUnlockToast from '@/components/ui/AchievementUnlockToast';
+import LegalUpdatePrompt from '@/components/ui/LegalUpdatePrompt';
+import { useAccountDeletion } from '@/hooks/useAccountDeletion';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useReducedMotion } from '@/hooks/useMotionPreferences';
+import { useSession } from '@/hooks/useSession';
+import { useTranslation } from '@/hooks/useTranslation';
+
+// Achievements panel, alone or focused on one achievement (aispeakprofile://achievements/4)
+const ACHIEVEMENTS_ROUTES = ['achievements/index', 'achievements/[id]'];
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const { t } = useTranslation();
+  const reduceMotion = useReducedMotion();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
+  // An account deletion whose grace period is over runs before any screen reads the data
+  const { loaded: deletionChecked } = useAccountDeletion();
+  // Stored session, read before choosing which routes are available
+  const { loaded: sessionLoaded, user } = useSession();
+  const signedIn = user !== null;
 
-  if (!loaded) {
+  if (!loaded || !deletionChecked || !sessionLoaded) {
     // Async font loading only occurs in development.
     return null;
   }
@@ -20,9 +36,40 @@ export default function RootLayout() {
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        {/* Profile routes; signed-out users are sent to the sign-in screen */}
+        <Stack.Protected guard={signedIn}>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          {/* Screens with their own header and back button */}
+          <Stack.Screen name="edit-profile" options={{ headerShown: false }} />
+          <Stack.Screen name="achievements-benchmark" options={{ headerShown: false }} />
+          <Stack.Screen name="subscription" options={{ headerShown: false }} />
+          <Stack.Screen name="delete-account" options={{ headerShown: false }} />
+          <Stack.Screen name="import-data" options={{ headerShown: false }} />
+          {/* The achievements panel opens over the current screen, also from deep links */}
+          {ACHIEVEMENTS_ROUTES.map(name => (
+            <Stack.Screen
+              key={name}
+              name={name}
+              options={{ headerShown: false, presentation: 'transparentModal', animation: reduceMotion ? 'none' : 'fade' }}
+            />
+          ))}
+        </Stack.Protected>
+        {/* Signed-in users are sent to the profile */}
+        <Stack.Protected guard={!signedIn}>
+          <Stack.Screen name="sign-in" options={{ headerShown: false }} />
+          <Stack.Screen name="sign-up" options={{ headerShown: false }} />
+        </Stack.Protected>
+        {/* Available either way: the magic link signs in, the legal documents are public */}
+        <Stack.Screen name="magic-link" options={{ headerShown: false }} />
+        <Stack.Screen name="legal" options={{ headerShown: false }} />
+        <Stack.Screen name="terms" options={{ title: t('legal.terms') }} />
+        <Stack.Screen name="privacy" options={{ title: t('legal.privacy') }} />
         <Stack.Screen name="+not-found" />
       </Stack>
+      {/* Achievement unlock notifications, shown above every screen */}
+      <AchievementUnlockToast />
+      {/* Asks to accept the legal documents whose current version was not accepted */}
+      <LegalUpdatePrompt />
       <StatusBar style="auto" />
     </ThemeProvider>
   );
@@ -0,0 +1,214 @@
+/**
+ * achievements-benchmark.jsx
+ *
+ * Development screen that renders the achievements panel with a synthetic
+ * catalog (1,000 items by default) and reports render timings, to check that
+ * the virtualized list keeps large catalogs responsive. The route
+ * (/achievements-benchmark) only exists in development builds.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { Profiler, useCallback, useMemo, useRef, useState } from 'react';
+import { StyleSheet, View, Text, Image, TouchableOpacity, SafeAreaView } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { Redirect, useRouter } from 'expo-router';
+import Fonts from '../constants/Fonts';
+import { useThemedStyles } from '../hooks/useTheme';
+import AchievementsPanel from '../components/ui/AchievementsPanel';
+import { createSyntheticCatalog } from '../services/syntheticAchievements';
+
+// Import image assets
+import ArrowLeft from '../assets/images/arrow-left.png';
+
+// Catalog sizes that can be benchmarked
+const CATALOG_SIZES = [100, 500, 1000];
+
+/**
+ * Main AchievementsBenchmarkScreen component
+ */
+const AchievementsBenchmarkScreen = () => {
+  // Initialize router for navigation between screens
+  const router = useRouter();
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+
+  const [catalogSize, setCatalogSize] = useState(1000);
+  // Remounting the panel with a new key measures a fresh mount
+  const [runId, setRunId] = useState(0);
+  const [timings, setTimings] = useState({ mount: null, lastUpdate: null, commits: 0 });
+
+  // Time spent generating and evaluating the synthetic catalog
+  const generation = useMemo(() => {
+    const start = Date.now();
+    const catalog = createSyntheticCatalog(catalogSize);
+    return { catalog, duration: Date.now() - start };
+  }, [catalogSize]);
+
+  // Commits are counted in a ref so that recording them does not trigger extra renders of the panel
+  const commitsRef = useRef(0);
+
+  /**
+   * Profiler callback: records the duration of the first mount and of the last update
+   */
+  const handleRender = useCallback((id, phase, actualDuration) => {
+    commitsRef.current += 1;
+    const commits = commitsRef.current;
+    setTimings(previous =>
+      phase === 'mount'
+        ? { mount: actualDuration, lastUpdate: null, commits }
+        : { ...previous, lastUpdate: actualDuration, commits }
+    );
+  }, []);
+
+  /**
+   * Starts a new run with the given catalog size
+   */
+  const runBenchmark = (size) => {
+    commitsRef.current = 0;
+    setTimings({ mount: null, lastUpdate: null, commits: 0 });
+    setCatalogSize(size);
+    setRunId(previous => previous + 1);
+  };
+
+  const formatMs = (value) => (value === null ? '—' : `${value.toFixed(1)} ms`);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {/* Header section with back button and title */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <View style={styles.backButtonCircle}>
+            <Image source={ArrowLeft} style={styles.arrowIcon} />
+          </View>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Rendimiento de logros</Text>
+        <View style={{ width: 36 }} />
+      </View>
+
+      {/* Catalog size selector */}
+      <View style={styles.sizeRow}>
+        {CATALOG_SIZES.map(size => (
+          <TouchableOpacity
+            key={size}
+            style={[styles.sizeButton, catalogSize === size && styles.activeSizeButton]}
+            onPress={() => runBenchmark(size)}
+          >
+            <Text style={[styles.sizeText, catalogSize === size && styles.activeSizeText]}>{size}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Timings of the current run */}
+      <View style={styles.results}>
+        <Text style={styles.resultText}>Generación: {generation.duration} ms</Text>
+        <Text style={styles.resultText}>Montaje: {formatMs(timings.mount)}</Text>
+        <Text style={styles.resultText}>Última actualización: {formatMs(timings.lastUpdate)}</Text>
+        <Text style={styles.resultText}>Commits: {timings.commits}</Text>
+      </View>
+
+      <Profiler id="AchievementsPanel" onRender={handleRender}>
+        <AchievementsPanel
+          key={`${catalogSize}-${runId}`}
+          catalog={generation.catalog}
+          style={styles.panel}
+        />
+      </Profiler>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the AchievementsBenchmarkScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowIcon: {
+    width: 20,
+    height: 20,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    textAlign: 'center',
+  },
+  sizeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  sizeButton: {
+    paddingHorizontal: 15,
+    paddingVertical: 6,
+    borderRadius: 20,
+    marginHorizontal: 5,
+    backgroundColor: theme.surface,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  activeSizeButton: {
+    backgroundColor: theme.accent,
+    borderColor: theme.accentStrong,
+  },
+  sizeText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 14,
+    color: theme.text,
+  },
+  activeSizeText: {
+    fontFamily: Fonts.nunitoBold,
+    color: theme.onAccent,
+  },
+  results: {
+    paddingHorizontal: 20,
+    marginBottom: 10,
+  },
+  resultText: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.text,
+  },
+  panel: {
+    flex: 1,
+    marginHorizontal: 10,
+    marginBottom: 10,
+  },
+});
+
+/**
+ * Route component; release builds are sent back to the profile
+ */
+const AchievementsBenchmarkRoute = () => {
+  if (!__DEV__) {
+    return <Redirect href="/profile" />;
+  }
+  return <AchievementsBenchmarkScreen />;
+};
+
+export default AchievementsBenchmarkRoute;
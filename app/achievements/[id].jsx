@@ -0,0 +1,2 @@
+// Same screen as /achievements, focused on the achievement in the URL
+export { default } from './index';
@@ -0,0 +1,82 @@
+/**
+ * achievements/index.jsx
+ *
+ * Achievements panel shown as a modal over the current screen (route
+ * /achievements). The /achievements/[id] route opens it scrolled to one
+ * achievement, e.g. from an unlock notification or the deep link
+ * aispeakprofile://achievements/4.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import AchievementsPanel from '../../components/ui/AchievementsPanel';
+import { useThemedStyles } from '../../hooks/useTheme';
+
+/**
+ * Main AchievementsScreen component
+ * Displays the achievements panel, focused on the achievement in the URL if any
+ */
+const AchievementsScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Achievement to scroll to; cleared once the panel has reached it
+  const { id } = useLocalSearchParams();
+  const [focusId, setFocusId] = useState(typeof id === 'string' ? id : null);
+  const clearFocus = useCallback(() => setFocusId(null), []);
+
+  // Deep links open the panel without a screen below, so closing falls back to the profile
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/profile');
+    }
+  };
+
+  return (
+    // Keeps screen reader focus inside the panel while it is open
+    <View style={styles.modalContainer} accessibilityViewIsModal>
+      <View style={styles.modalContent}>
+        <AchievementsPanel
+          onClose={close}
+          style={styles.achievementsPanel}
+          focusAchievementId={focusId}
+          onFocusHandled={clearFocus}
+        />
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Styles for the AchievementsScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.overlay,
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxHeight: '90%',
+    borderRadius: 20,
+    overflow: 'hidden',
+  },
+  achievementsPanel: {
+    width: '100%',
+    height: '100%',
+  },
+});
+
+export default AchievementsScreen;
@@ -0,0 +1,296 @@
+/**
+ * delete-account.jsx
+ *
+ * This component renders the account deletion screen of the Aispeak
+ * application (route /delete-account). It lists what will be deleted, offers
+ * to export the data first and asks to type a confirmation word. The deletion
+ * is scheduled after a grace period during which it can be undone.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, ScrollView, SafeAreaView, Image, Alert, ActivityIndicator } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import Fonts from '../constants/Fonts';
+import { useAccountDeletion } from '../hooks/useAccountDeletion';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { DELETION_GRACE_DAYS, cancelAccountDeletion, scheduleAccountDeletion } from '../services/accountDeletion';
+import { exportPersonalData } from '../services/personalData';
+
+// Import image assets
+import ArrowLeft from '../assets/images/arrow-left.png';
+
+// Date format of the deletion date, e.g. "3 de marzo de 2025"
+const DELETION_DATE_FORMAT = { day: 'numeric', month: 'long', year: 'numeric' };
+
+// Data listed in the first step, in the order it is shown
+const DELETED_DATA = ['profile', 'achievements', 'streak', 'preferences'];
+
+/**
+ * Main DeleteAccountScreen component
+ * Walks through reviewing the data, confirming and scheduling the deletion
+ */
+const DeleteAccountScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t, formatDate } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Deletion already scheduled, if any
+  const { loaded, deleteAt } = useAccountDeletion();
+
+  // 'review' lists the data and offers the export, 'confirm' asks for the typed word
+  const [step, setStep] = useState('review');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const confirmWord = t('deleteAccount.confirmWord');
+  const confirmed = confirmation.trim().toLocaleUpperCase() === confirmWord.toLocaleUpperCase();
+
+  /**
+   * Exports the personal data through the share sheet
+   */
+  const handleExport = async () => {
+    setBusy(true);
+    const exported = await exportPersonalData();
+    setBusy(false);
+    if (!exported) Alert.alert(t('deleteAccount.exportError'));
+  };
+
+  /**
+   * Schedules the deletion and goes back to the profile
+   */
+  const handleDelete = async () => {
+    if (!confirmed) return;
+    setBusy(true);
+    const scheduled = await scheduleAccountDeletion();
+    setBusy(false);
+    if (!scheduled) {
+      Alert.alert(t('deleteAccount.error'));
+      return;
+    }
+    router.dismissTo('/profile');
+  };
+
+  /**
+   * Undoes the scheduled deletion
+   */
+  const handleUndo = async () => {
+    setBusy(true);
+    const canceled = await cancelAccountDeletion();
+    setBusy(false);
+    Alert.alert(t(canceled ? 'deleteAccount.undone' : 'deleteAccount.error'));
+  };
+
+  /**
+   * Content of the current step
+   */
+  const renderStep = () => {
+    if (deleteAt !== null) {
+      return (
+        <>
+          <Text style={styles.body}>{t('deleteAccount.pending', { date: formatDate(deleteAt, DELETION_DATE_FORMAT) })}</Text>
+          <TouchableOpacity
+            style={[styles.secondaryButton, busy && styles.buttonDisabled]}
+            onPress={handleUndo}
+            disabled={busy}
+            accessibilityRole="button"
+          >
+            <Text style={styles.secondaryButtonText}>{t('deleteAccount.undo')}</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    if (step === 'review') {
+      return (
+        <>
+          <Text style={styles.body}>{t('deleteAccount.intro')}</Text>
+          {DELETED_DATA.map(item => (
+            <Text key={item} style={styles.listItem}>• {t(`deleteAccount.data.${item}`)}</Text>
+          ))}
+          <Text style={styles.note}>{t('deleteAccount.subscriptionNote')}</Text>
+          <Text style={styles.body}>{t('deleteAccount.gracePeriod', { count: DELETION_GRACE_DAYS })}</Text>
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, busy && styles.buttonDisabled]}
+            onPress={handleExport}
+            disabled={busy}
+            accessibilityRole="button"
+          >
+            <Text style={styles.secondaryButtonText}>{t('deleteAccount.export')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dangerButton} onPress={() => setStep('confirm')} accessibilityRole="button">
+            <Text style={styles.dangerButtonText}>{t('deleteAccount.continue')}</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Text style={styles.body}>{t('deleteAccount.typeToConfirm', { word: confirmWord })}</Text>
+        <TextInput
+          style={styles.input}
+          value={confirmation}
+          onChangeText={setConfirmation}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          placeholder={confirmWord}
+          accessibilityLabel={t('deleteAccount.typeToConfirm', { word: confirmWord })}
+        />
+        <TouchableOpacity
+          style={[styles.dangerButton, (!confirmed || busy) && styles.buttonDisabled]}
+          onPress={handleDelete}
+          disabled={!confirmed || busy}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: !confirmed || busy }}
+        >
+          <Text style={styles.dangerButtonText}>{t('deleteAccount.confirm', { count: DELETION_GRACE_DAYS })}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('review')} accessibilityRole="button">
+          <Text style={styles.secondaryButtonText}>{t('common.back')}</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  // Render the delete account screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {/* Header section with back button and title */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <View style={styles.backButtonCircle}>
+            <Image source={ArrowLeft} style={styles.arrowIcon} />
+          </View>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('deleteAccount.title')}</Text>
+        <View style={{ width: 36 }} /> {/* Empty view for layout balance */}
+      </View>
+
+      {!loaded ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer}>
+          {renderStep()}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the DeleteAccountScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowIcon: {
+    width: 20,
+    height: 20,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    textAlign: 'center',
+  },
+  body: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  listItem: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    paddingVertical: 2,
+    paddingLeft: 10,
+  },
+  note: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.textMuted,
+    marginTop: 10,
+  },
+  input: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 15,
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 16,
+    color: theme.text,
+    marginBottom: 10,
+  },
+  dangerButton: {
+    backgroundColor: theme.danger,
+    borderRadius: 25,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  dangerButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+  secondaryButton: {
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: theme.accent,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.accent,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default DeleteAccountScreen;
@@ -0,0 +1,433 @@
+/**
+ * edit-profile.jsx
+ * 
+ * This component renders the edit profile screen of the Aispeak application
+ * (route /edit-profile).
+ * It allows users to modify their personal information and save changes.
+ * Fields are validated as they are typed and leaving with unsaved changes
+ * asks for confirmation.
+ * 
+ * @author Aispeak Front-End Development Internship Assessment
+ * @version 1.2
+ */
+
+// Import necessary libraries and components
+import React, { useState, useEffect } from 'react';
+import { StyleSheet, View, Text, Image, TouchableOpacity, ScrollView, SafeAreaView } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useFonts, Nunito_400Regular, Nunito_700Bold } from '@expo-google-fonts/nunito';
+import { SourceSansPro_400Regular, SourceSansPro_600SemiBold } from '@expo-google-fonts/source-sans-pro';
+import { useNavigation, useRouter } from 'expo-router';
+import { usePreventRemove } from '@react-navigation/native';
+import { AVATARS, AVATAR_ORDER } from '../constants/Avatars';
+import Fonts from '../constants/Fonts';
+import AvatarView from '../components/ui/AvatarView';
+import ProfileFormFields from '../components/ui/ProfileFormFields';
+import WardrobePicker from '../components/ui/WardrobePicker';
+import { useProfile } from '../hooks/useProfile';
+import { useProfileForm } from '../hooks/useProfileForm';
+import { deleteAvatarPhoto, isSameAvatar, pickAvatarPhoto } from '../services/avatars';
+import { DEFAULT_LAYERS } from '../services/wardrobe';
+import { getProfileSnapshot } from '../services/profile';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+
+// Import image assets
+import ArrowLeft from '../assets/images/arrow-left.png';
+
+/**
+ * Main EditProfileScreen component
+ * Allows users to edit their profile information
+ */
+export default function EditProfileScreen() {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+  const navigation = useNavigation();
+
+  // Stored profile, shared with every other screen
+  const { loaded, profile, update: updateProfile } = useProfile();
+
+  // Validated name, email and phone fields, with their unsaved changes
+  const form = useProfileForm(profile);
+  const { reset: resetForm } = form;
+
+  // Set once the changes are saved, to leave without the unsaved-changes warning
+  const [leaving, setLeaving] = useState(false);
+
+  // Going back in any way (header button, gesture or hardware button) asks before discarding changes
+  usePreventRemove(form.isDirty && !leaving, ({ data }) => {
+    form.confirmDiscard(() => navigation.dispatch(data.action));
+  });
+
+  useEffect(() => {
+    if (leaving) router.back();
+  }, [leaving, router]);
+  
+  // State to control image selector visibility
+  const [showImageSelector, setShowImageSelector] = useState(false);
+
+  // State to control wardrobe visibility, where the layered capybara avatar is dressed up
+  const [showWardrobe, setShowWardrobe] = useState(false);
+  
+  /**
+   * Effect hook to fill the form once the stored profile has been read
+   * Later profile changes don't overwrite what is being typed
+   */
+  useEffect(() => {
+    if (loaded) resetForm(getProfileSnapshot().profile);
+  }, [loaded, resetForm]);
+  
+  // Whether the profile is being stored; the save button is disabled meanwhile
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Saves the profile and navigates back to profile screen
+   * The profile updates at once on every screen; if it can't be stored it is
+   * rolled back and the screen stays open with the typed changes
+   */
+  const saveUserData = async () => {
+    if (!form.isValid || saving) return;
+    setSaving(true);
+    const saved = await updateProfile(form.toDetails());
+    setSaving(false);
+    if (!saved) {
+      alert(t('profileForm.saveError'));
+      return;
+    }
+
+    // Navigate back to the previous screen
+    setLeaving(true);
+  };
+  
+  /**
+   * Saves the chosen avatar right away so it shows on every screen
+   * A replaced photo is deleted from the device once the new avatar is stored
+   * @param {Object} avatar - Capybara image key or stored photo
+   */
+  const selectAvatar = async (avatar) => {
+    const previous = profile.avatar;
+    if (isSameAvatar(previous, avatar)) return;
+    if (await updateProfile({ avatar })) deleteAvatarPhoto(previous);
+  };
+
+  /**
+   * Lets the user pick a photo from the gallery, cropped to a square and shown in a circle
+   */
+  const choosePhoto = async () => {
+    try {
+      const avatar = await pickAvatarPhoto();
+      if (avatar) await selectAvatar(avatar);
+    } catch (error) {
+      console.error('Error choosing avatar photo:', error);
+      alert(t('profile.photoError'));
+    }
+  };
+  
+  /**
+   * Navigation function to the account deletion screen, which asks for
+   * confirmation and schedules the deletion
+   */
+  const navigateToDeleteAccount = () => {
+    router.push('/delete-account');
+  };
+  
+  /**
+   * Load custom fonts using Expo's useFonts hook
+   * - Nunito: Used for headings and titles
+   * - Source Sans Pro: Used for body text and general content
+   */
+  const [fontsLoaded] = useFonts({
+    Nunito_400Regular,
+    Nunito_700Bold,
+    SourceSansPro_400Regular,
+    SourceSansPro_600SemiBold,
+  });
+
+  // Return null while fonts are still loading
+  if (!fontsLoaded) {
+    return null;
+  }
+  
+  // Render the edit profile screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {/* Header section with back button, title and save button */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <View style={styles.backButtonCircle}>
+            <Image source={ArrowLeft} style={styles.arrowIcon} />
+          </View>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('profile.editProfile')}</Text>
+        <TouchableOpacity
+          onPress={saveUserData}
+          disabled={!form.isValid || saving}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: !form.isValid || saving, busy: saving }}
+        >
+          <Text style={[styles.saveText, (!form.isValid || saving) && styles.saveTextDisabled]}>{t('common.save')}</Text>
+        </TouchableOpacity>
+      </View>
+      
+      {/* Scrollable content area */}
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        {/* Profile image section with modal selector for photo selection */}
+        <View style={styles.profileImageContainer}>
+          <TouchableOpacity onPress={() => setShowImageSelector(true)}>
+            <AvatarView avatar={profile.avatar} size={100} style={styles.profileImage} />
+            <Text style={styles.editPhotoText}>{t('profile.changePhoto')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Personal information section title */}
+        <Text style={styles.sectionTitle}>{t('profile.personalInfo')}</Text>
+        
+        {/* Form inputs for user data, with the error of each field below it */}
+        <View style={styles.formContainer}>
+          <ProfileFormFields form={form} />
+        </View>
+
+        {/* Delete account button at the bottom */}
+        <TouchableOpacity 
+          style={styles.deleteAccountButton}
+          onPress={navigateToDeleteAccount}
+          accessibilityRole="button"
+        >
+          <Text style={styles.deleteAccountText}>{t('profile.deleteAccount')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+      
+      {/* Modal para seleccionar imagen de perfil */}
+      {showImageSelector && (
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>{t('profile.selectImage')}</Text>
+            <View style={styles.imageGrid}>
+              {/* The user's photo or dressed-up capybara, if there is one, followed by the capybara images */}
+              {profile.avatar.kind !== 'preset' && (
+                <TouchableOpacity 
+                  style={[styles.imageOption, styles.selectedImageOption]}
+                  accessibilityRole="radio"
+                  accessibilityLabel={t(profile.avatar.kind === 'photo' ? 'avatar.photo' : 'avatar.composed')}
+                  accessibilityState={{ checked: true }}
+                >
+                  <AvatarView avatar={profile.avatar} size={70} />
+                </TouchableOpacity>
+              )}
+              {AVATAR_ORDER.map(id => {
+                const selected = profile.avatar.kind === 'preset' && profile.avatar.id === id;
+                return (
+                  <TouchableOpacity 
+                    key={id} 
+                    style={[styles.imageOption, selected && styles.selectedImageOption]}
+                    onPress={() => selectAvatar({ kind: 'preset', id })}
+                    accessibilityRole="radio"
+                    accessibilityLabel={t(`avatar.${id}`)}
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Image 
+                      source={AVATARS[id].source} 
+                      style={styles.optionImage} 
+                      resizeMode="cover"
+                      fadeDuration={0}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              onPress={() => {
+                setShowImageSelector(false);
+                setShowWardrobe(true);
+              }}
+              accessibilityRole="button"
+            >
+              <Text style={styles.choosePhotoText}>{t('profile.openWardrobe')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={choosePhoto} accessibilityRole="button">
+              <Text style={styles.choosePhotoText}>{t('profile.choosePhoto')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.confirmButton}
+              onPress={() => setShowImageSelector(false)}
+            >
+              <Text style={styles.confirmButtonText}>{t('common.confirm')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {/* Wardrobe with live preview of the layered capybara */}
+      <WardrobePicker
+        visible={showWardrobe}
+        initialLayers={profile.avatar.kind === 'composed' ? profile.avatar.layers : DEFAULT_LAYERS}
+        onSave={(layers) => {
+          setShowWardrobe(false);
+          selectAvatar({ kind: 'composed', layers });
+        }}
+        onClose={() => setShowWardrobe(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+/**
+ * Styles for the EditProfileScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  arrowIcon: {
+    width: 20,
+    height: 20,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  saveText: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 16,
+    color: theme.accent,
+  },
+  saveTextDisabled: {
+    color: theme.textSubtle,
+  },
+  profileImageContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 20,
+    marginBottom: 20,
+  },
+  profileImage: {
+    alignSelf: 'center',
+  },
+  editPhotoText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.accent,
+    fontSize: 14,
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+    marginBottom: 10,
+  },
+  formContainer: {
+    marginBottom: 30,
+  },
+  deleteAccountButton: {
+    alignSelf: 'center',
+    marginTop: 20,
+  },
+  deleteAccountText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.danger,
+    fontSize: 16,
+  },
+  // Estilos para el modal de selección de imágenes
+  modalOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+  modalContent: {
+    backgroundColor: theme.highlight,
+    borderRadius: 15,
+    padding: 20,
+    width: '80%',
+    alignItems: 'center',
+  },
+  modalTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.text,
+    marginBottom: 15,
+  },
+  imageGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  imageOption: {
+    margin: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    borderRadius: 40,
+    padding: 2,
+  },
+  selectedImageOption: {
+    borderColor: theme.accent,
+  },
+  optionImage: {
+    width: 70,
+    height: 70,
+    borderRadius: 35,
+    backgroundColor: theme.brand,
+    resizeMode: 'contain',
+  },
+  choosePhotoText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.accent,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  confirmButton: {
+    backgroundColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 25,
+    marginTop: 10,
+  },
+  confirmButtonText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.onAccent,
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,349 @@
+/**
+ * import-data.jsx
+ *
+ * This component renders the data import screen of the Aispeak application
+ * (route /import-data). Users pick a file exported from "Más", choose whether
+ * to merge it with the data on this device or replace it, and review the
+ * changes before importing.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, SafeAreaView, Image, Alert } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import Fonts from '../constants/Fonts';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALE_NAMES } from '../services/i18n';
+import {
+  applyPersonalData,
+  diffPersonalData,
+  pickPersonalDataArchive,
+  planImport,
+  readImportableData,
+} from '../services/personalData';
+
+// Import image assets
+import ArrowLeft from '../assets/images/arrow-left.png';
+
+// Date format of the export date, e.g. "3 de marzo de 2025"
+const EXPORT_DATE_FORMAT = { day: 'numeric', month: 'long', year: 'numeric' };
+
+// Import modes, in the order they are shown
+const IMPORT_MODES = ['merge', 'replace'];
+
+/**
+ * Main ImportDataScreen component
+ * Picks an exported file, previews the changes and imports it
+ */
+const ImportDataScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t, formatDate, formatNumber } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Checked file and the local data it is compared with
+  const [archive, setArchive] = useState(null);
+  const [local, setLocal] = useState(null);
+  // Reason the picked file cannot be imported
+  const [archiveError, setArchiveError] = useState(null);
+  const [mode, setMode] = useState('merge');
+  const [busy, setBusy] = useState(false);
+
+  // Data after the import and what changes, for the preview
+  const next = useMemo(() => (archive && local ? planImport(local, archive, mode) : null), [archive, local, mode]);
+  const changes = useMemo(() => (next ? diffPersonalData(local, next) : []), [local, next]);
+
+  /**
+   * Picks and checks a file
+   */
+  const handlePick = async () => {
+    setBusy(true);
+    try {
+      const result = await pickPersonalDataArchive();
+      if (result) {
+        setArchiveError(result.error ?? null);
+        setArchive(result.archive ?? null);
+        setLocal(result.archive ? await readImportableData() : null);
+      }
+    } catch (error) {
+      console.error('Error picking personal data archive:', error);
+      setArchive(null);
+      setLocal(null);
+      setArchiveError('unreadable');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /**
+   * Saves the imported data and goes back to the profile
+   */
+  const runImport = async () => {
+    setBusy(true);
+    let imported = false;
+    try {
+      imported = await applyPersonalData(next, local);
+    } catch (error) {
+      console.error('Error importing personal data:', error);
+    } finally {
+      setBusy(false);
+    }
+    if (!imported) {
+      Alert.alert(t('dataImport.error.save'));
+      return;
+    }
+    Alert.alert(t('dataImport.done'));
+    router.back();
+  };
+
+  /**
+   * Imports right away when merging; replacing asks for confirmation first
+   */
+  const handleImport = () => {
+    if (mode === 'merge') {
+      runImport();
+      return;
+    }
+    Alert.alert(t('common.confirm'), t('dataImport.confirmReplace'), [
+      { text: t('common.back'), style: 'cancel' },
+      { text: t('common.confirm'), style: 'destructive', onPress: runImport },
+    ]);
+  };
+
+  /**
+   * Readable value of a change in the preview
+   * @param {string} label - Message key of the changed data
+   * @param {string|number|boolean} value - Value before or after the import
+   */
+  const formatValue = (label, value) => {
+    if (typeof value === 'boolean') return t(value ? 'dataImport.on' : 'dataImport.off');
+    if (typeof value === 'number') return formatNumber(value);
+    if (label === 'profile.language') {
+      return value === 'system' ? t('profile.languageSystem') : LOCALE_NAMES[value] ?? value;
+    }
+    return value || t('dataImport.empty');
+  };
+
+  // Render the import data screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {/* Header section with back button and title */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <View style={styles.backButtonCircle}>
+            <Image source={ArrowLeft} style={styles.arrowIcon} />
+          </View>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('dataImport.title')}</Text>
+        <View style={{ width: 36 }} /> {/* Empty view for layout balance */}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.body}>{t('dataImport.intro')}</Text>
+        <TouchableOpacity
+          style={[styles.secondaryButton, busy && styles.buttonDisabled]}
+          onPress={handlePick}
+          disabled={busy}
+          accessibilityRole="button"
+        >
+          <Text style={styles.secondaryButtonText}>{t(archive ? 'dataImport.pickAnother' : 'dataImport.pick')}</Text>
+        </TouchableOpacity>
+        {archiveError && (
+          <Text style={styles.error} accessibilityLiveRegion="polite">{t(`dataImport.error.${archiveError}`)}</Text>
+        )}
+
+        {next && (
+          <>
+            {!!archive.exportedAt && (
+              <Text style={styles.note}>
+                {t('dataImport.exportedAt', { date: formatDate(Date.parse(archive.exportedAt), EXPORT_DATE_FORMAT) })}
+              </Text>
+            )}
+
+            {/* Import mode: merge with or replace the data on this device */}
+            <Text style={styles.sectionTitle}>{t('dataImport.mode')}</Text>
+            <View accessibilityRole="radiogroup" accessibilityLabel={t('dataImport.mode')}>
+              {IMPORT_MODES.map(option => {
+                const selected = mode === option;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.modeOption, selected && styles.modeOptionSelected]}
+                    onPress={() => setMode(option)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Text style={styles.modeTitle}>{t(`dataImport.mode.${option}`)}</Text>
+                    <Text style={styles.note}>{t(`dataImport.mode.${option}Description`)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {/* Preview of the changes */}
+            <Text style={styles.sectionTitle}>{t('dataImport.changes')}</Text>
+            {changes.length === 0 ? (
+              <Text style={styles.body}>{t('dataImport.noChanges')}</Text>
+            ) : (
+              changes.map(change => (
+                <Text key={change.label} style={styles.listItem}>
+                  • {change.from === undefined
+                    ? t(change.label)
+                    : t('dataImport.change', {
+                      label: t(change.label),
+                      from: formatValue(change.label, change.from),
+                      to: formatValue(change.label, change.to),
+                    })}
+                </Text>
+              ))
+            )}
+            <Text style={styles.note}>{t('dataImport.notImported')}</Text>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (busy || changes.length === 0) && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={busy || changes.length === 0}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: busy || changes.length === 0 }}
+            >
+              <Text style={styles.primaryButtonText}>{t('dataImport.import')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the ImportDataScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowIcon: {
+    width: 20,
+    height: 20,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.text,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  body: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  listItem: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    paddingVertical: 2,
+    paddingLeft: 10,
+  },
+  note: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.textMuted,
+    marginTop: 6,
+  },
+  error: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.danger,
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  modeOption: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: theme.surface,
+    padding: 12,
+    marginBottom: 8,
+  },
+  modeOptionSelected: {
+    borderColor: theme.accent,
+  },
+  modeTitle: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 16,
+    color: theme.text,
+  },
+  primaryButton: {
+    backgroundColor: theme.accent,
+    borderRadius: 25,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+  secondaryButton: {
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: theme.accent,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.accent,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default ImportDataScreen;
@@ -0,0 +1,11 @@
+import { Redirect } from 'expo-router';
+
+import { useSession } from '@/hooks/useSession';
+
+/**
+ * The app opens on the profile tab, or on the sign-in screen when signed out.
+ */
+export default function Index() {
+  const { user } = useSession();
+  return <Redirect href={user ? '/profile' : '/sign-in'} />;
+}
@@ -1,8 +1,10 @@
 /**
- * legal-info.jsx
+ * legal.jsx
  * 
- * This component renders the legal information screen of the Aispeak application.
- * It provides access to Terms and Conditions and Privacy Policy.
+ * This component renders the legal information screen of the Aispeak application
+ * (route /legal).
+ * It provides access to Terms and Conditions and Privacy Policy, with the
+ * acceptance status of their current versions.
  * 
  * @author Aispeak Front-End Development Internship Assessment
  * @version 1.1
@@ -15,18 +17,34 @@ import { StatusBar } from 'expo-status-bar';
 import { useFonts, Nunito_400Regular, Nunito_700Bold } from '@expo-google-fonts/nunito';
 import { SourceSansPro_400Regular, SourceSansPro_600SemiBold } from '@expo-google-fonts/source-sans-pro';
 import { useRouter } from 'expo-router';
-import { Colors } from '../../constants/Colors';
-import Fonts from '../../constants/Fonts';
+import Fonts from '../constants/Fonts';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { useLegalAcceptance } from '../hooks/useLegalAcceptance';
+import { getLegalDocument, isLegalDocumentAccepted } from '../services/legalDocuments';
 
 // Import image assets
-import ArrowLeft from '../../assets/images/arrow-left.png';
-import DocIcon from '../../assets/images/page-flip.png';
+import ArrowLeft from '../assets/images/arrow-left.png';
+import DocIcon from '../assets/images/page-flip.png';
 
 /**
  * Main LegalInfoScreen component
  * Displays legal information options for the user
  */
 const LegalInfoScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t } = useTranslation();
+
+  // Accepted version of each document, shown under its menu item
+  const { loaded, acceptances } = useLegalAcceptance();
+  const documentStatus = (id) => {
+    const document = getLegalDocument(id);
+    const key = isLegalDocumentAccepted(document, acceptances) ? 'legal.accepted' : 'legal.pending';
+    return loaded ? t(key, { version: document.version }) : null;
+  };
+
   // Initialize router for navigation between screens
   const router = useRouter();
 
@@ -72,7 +90,7 @@ const LegalInfoScreen = () => {
             <Image source={ArrowLeft} style={styles.arrowIcon} />
           </View>
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Información Legal</Text>
+        <Text style={styles.headerTitle}>{t('legal.title')}</Text>
         <View style={{ width: 36 }} /> {/* Empty view for layout balance */}
       </View>
       
@@ -82,7 +100,10 @@ const LegalInfoScreen = () => {
         <TouchableOpacity style={styles.menuItem} onPress={navigateToTerms}>
           <View style={styles.menuItemLeft}>
             <Image source={DocIcon} style={styles.menuItemDocIcon} />
-            <Text style={styles.menuItemText}>Términos y Condiciones</Text>
+            <View>
+              <Text style={styles.menuItemText}>{t('legal.terms')}</Text>
+              <Text style={styles.menuItemStatus}>{documentStatus('terms')}</Text>
+            </View>
           </View>
           <View style={styles.menuItemRight}>
             <Text style={styles.menuItemArrow}>›</Text>
@@ -93,7 +114,10 @@ const LegalInfoScreen = () => {
         <TouchableOpacity style={styles.menuItem} onPress={navigateToPrivacy}>
           <View style={styles.menuItemLeft}>
             <Image source={DocIcon} style={styles.menuItemDocIcon} />
-            <Text style={styles.menuItemText}>Política de Privacidad</Text>
+            <View>
+              <Text style={styles.menuItemText}>{t('legal.privacy')}</Text>
+              <Text style={styles.menuItemStatus}>{documentStatus('privacy')}</Text>
+            </View>
           </View>
           <View style={styles.menuItemRight}>
             <Text style={styles.menuItemArrow}>›</Text>
@@ -107,10 +131,10 @@ const LegalInfoScreen = () => {
 /**
  * Styles for the LegalInfoScreen component
  */
-const styles = StyleSheet.create({
+const createStyles = (theme) => StyleSheet.create({
   container: {
     flex: 1,
-    backgroundColor: Colors.yellow,
+    backgroundColor: theme.highlight,
   },
   scrollContainer: {
     flexGrow: 1,
@@ -132,7 +156,7 @@ const styles = StyleSheet.create({
     width: 36,
     height: 36,
     borderRadius: 18,
-    backgroundColor: Colors.blue,
+    backgroundColor: theme.accent,
     justifyContent: 'center',
     alignItems: 'center',
   },
@@ -144,14 +168,14 @@ const styles = StyleSheet.create({
   headerTitle: {
     fontFamily: Fonts.nunitoBold,
     fontSize: 20,
-    color: Colors.dark,
+    color: theme.text,
     textAlign: 'center',
   },
   menuItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    backgroundColor: Colors.lightGray,
+    backgroundColor: theme.surface,
     borderRadius: 10,
     padding: 15,
     marginBottom: 10,
@@ -164,12 +188,18 @@ const styles = StyleSheet.create({
     width: 24,
     height: 24,
     marginRight: 10,
-    tintColor: Colors.blue,
+    tintColor: theme.accent,
   },
   menuItemText: {
     fontFamily: Fonts.sourceSans,
     fontSize: 16,
-    color: Colors.dark,
+    color: theme.text,
+  },
+  menuItemStatus: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 13,
+    color: theme.textMuted,
+    marginTop: 2,
   },
   menuItemRight: {
     flexDirection: 'row',
@@ -177,7 +207,7 @@ const styles = StyleSheet.create({
   },
   menuItemArrow: {
     fontSize: 18,
-    color: Colors.darkGray,
+    color: theme.textSubtle,
   },
 });
 
@@ -0,0 +1,109 @@
+/**
+ * magic-link.jsx
+ *
+ * This component handles the one-time sign-in links of the Aispeak
+ * application (route /magic-link?token=..., opened from the email, e.g.
+ * aispeakprofile://magic-link?token=...). It signs in with the token and
+ * opens the profile, or explains that the link is no longer valid.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, SafeAreaView, ActivityIndicator } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import Fonts from '../constants/Fonts';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { completeMagicLink } from '../services/session';
+
+/**
+ * Main MagicLinkScreen component
+ * Signs in with the token of the link
+ */
+const MagicLinkScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+  const { token } = useLocalSearchParams();
+
+  // Error returned by the auth provider, shown instead of the spinner
+  const [authError, setAuthError] = useState(null);
+
+  // Links are single-use, so the token is only sent once even if the effect runs again
+  const verified = useRef(false);
+
+  useEffect(() => {
+    if (verified.current) return;
+    verified.current = true;
+    if (typeof token !== 'string' || !token) {
+      setAuthError('invalidLink');
+      return;
+    }
+    completeMagicLink(token).then(error => {
+      if (error) setAuthError(error);
+      else router.replace('/profile');
+    });
+  }, [token, router]);
+
+  // Render the magic link screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {authError ? (
+        <>
+          <Text style={styles.message} accessibilityLiveRegion="polite">{t(`authError.${authError}`)}</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/sign-in')} accessibilityRole="button">
+            <Text style={styles.primaryButtonText}>{t('auth.backToSignIn')}</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <ActivityIndicator />
+          <Text style={styles.message}>{t('auth.verifyingLink')}</Text>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the MagicLinkScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    backgroundColor: theme.highlight,
+  },
+  message: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    textAlign: 'center',
+    marginTop: 15,
+  },
+  primaryButton: {
+    backgroundColor: theme.accent,
+    borderRadius: 25,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+});
+
+export default MagicLinkScreen;
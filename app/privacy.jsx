@@ -0,0 +1,23 @@
+/**
+ * privacy.jsx
+ *
+ * This component renders the Privacy Policy of the Aispeak application (route
+ * /privacy). The optional `section` parameter opens the document at a heading,
+ * e.g. aispeakprofile://privacy?section=changes.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import LegalDocumentView from '../components/ui/LegalDocumentView';
+
+/**
+ * Main PrivacyScreen component
+ * Displays the bundled document with its version and acceptance status
+ */
+export default function PrivacyScreen() {
+  const { section } = useLocalSearchParams();
+  return <LegalDocumentView documentId="privacy" section={typeof section === 'string' ? section : null} />;
+}
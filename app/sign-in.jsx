@@ -0,0 +1,219 @@
+/**
+ * sign-in.jsx
+ *
+ * This component renders the sign-in screen of the Aispeak application
+ * (route /sign-in). Users sign in with their email and password, or ask for
+ * a one-time link sent to their email. Signed-out users are redirected here
+ * from the profile routes.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, ScrollView, SafeAreaView, Image, ActivityIndicator } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import AuthFormFields from '../components/ui/AuthFormFields';
+import { AVATARS } from '../constants/Avatars';
+import Fonts from '../constants/Fonts';
+import { useSession } from '../hooks/useSession';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { validateEmail } from '../services/profileValidation';
+import { requestMagicLink, signInWithPassword } from '../services/session';
+
+/**
+ * Main SignInScreen component
+ * Signs in with a password or sends a magic link
+ */
+const SignInScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Whether a sign-in operation is in progress
+  const { busy } = useSession();
+
+  // 'password' signs in right away, 'magicLink' sends a link to the email
+  const [mode, setMode] = useState('password');
+  const [values, setValues] = useState({ email: '', password: '' });
+  // Field errors are shown once the form has been submitted
+  const [submitted, setSubmitted] = useState(false);
+  // Error returned by the auth provider
+  const [authError, setAuthError] = useState(null);
+  // Email the magic link was sent to
+  const [linkSentTo, setLinkSentTo] = useState(null);
+
+  const errors = {
+    email: validateEmail(values.email),
+    password: mode === 'password' && !values.password ? { key: 'auth.passwordRequired' } : null,
+  };
+  const isValid = !errors.email && !errors.password;
+
+  const changeField = (field, value) => {
+    setValues(current => ({ ...current, [field]: value }));
+    setAuthError(null);
+  };
+
+  /**
+   * Signs in or sends the magic link
+   */
+  const handleSubmit = async () => {
+    setSubmitted(true);
+    if (!isValid || busy) return;
+    const email = values.email.trim();
+    if (mode === 'password') {
+      // On success the route guards leave this screen
+      setAuthError(await signInWithPassword(email, values.password));
+      return;
+    }
+    const error = await requestMagicLink(email);
+    setAuthError(error);
+    if (!error) setLinkSentTo(email);
+  };
+
+  /**
+   * Switches between password and magic link
+   */
+  const toggleMode = () => {
+    setMode(current => (current === 'password' ? 'magicLink' : 'password'));
+    setAuthError(null);
+    setLinkSentTo(null);
+  };
+
+  // Render the sign-in screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <Image source={AVATARS.front.source} style={styles.logo} resizeMode="cover" fadeDuration={0} />
+        <Text style={styles.title} accessibilityRole="header">{t('auth.signInTitle')}</Text>
+        <Text style={styles.subtitle}>
+          {t(mode === 'password' ? 'auth.signInSubtitle' : 'auth.magicLinkSubtitle')}
+        </Text>
+
+        {linkSentTo ? (
+          <Text style={styles.notice} accessibilityLiveRegion="polite">{t('auth.magicLinkSent', { email: linkSentTo })}</Text>
+        ) : (
+          <>
+            <AuthFormFields
+              values={mode === 'password' ? values : { email: values.email }}
+              errors={submitted ? errors : {}}
+              onChange={changeField}
+            />
+            {authError && (
+              <Text style={styles.authError} accessibilityLiveRegion="polite">{t(`authError.${authError}`)}</Text>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={busy}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: busy, busy }}
+            >
+              {busy ? (
+                <ActivityIndicator color={styles.primaryButtonText.color} />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {t(mode === 'password' ? 'auth.signIn' : 'auth.sendMagicLink')}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.linkButton} onPress={toggleMode} accessibilityRole="button">
+          <Text style={styles.linkText}>{t(mode === 'password' ? 'auth.useMagicLink' : 'auth.usePassword')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.push('/sign-up')} accessibilityRole="button">
+          <Text style={styles.linkText}>{t('auth.noAccount')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the SignInScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  logo: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: theme.brand,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 24,
+    color: theme.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.textMuted,
+    textAlign: 'center',
+    marginTop: 5,
+    marginBottom: 25,
+  },
+  notice: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 15,
+    textAlign: 'center',
+  },
+  authError: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.danger,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  primaryButton: {
+    backgroundColor: theme.accent,
+    borderRadius: 25,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 5,
+  },
+  primaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  linkButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  linkText: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 15,
+    color: theme.accent,
+  },
+});
+
+export default SignInScreen;
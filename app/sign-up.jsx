@@ -0,0 +1,200 @@
+/**
+ * sign-up.jsx
+ *
+ * This component renders the sign-up screen of the Aispeak application
+ * (route /sign-up). Users create an account with their email and a password,
+ * and are signed in with it. The email is also saved in their profile.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, SafeAreaView, Image, ActivityIndicator } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import AuthFormFields from '../components/ui/AuthFormFields';
+import Fonts from '../constants/Fonts';
+import { useSession } from '../hooks/useSession';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { validatePassword } from '../services/auth';
+import { updateProfile } from '../services/profile';
+import { validateEmail } from '../services/profileValidation';
+import { signUp } from '../services/session';
+
+// Import image assets
+import ArrowLeft from '../assets/images/arrow-left.png';
+
+/**
+ * Main SignUpScreen component
+ * Creates an account with email and password
+ */
+const SignUpScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Whether a sign-in operation is in progress
+  const { busy } = useSession();
+
+  const [values, setValues] = useState({ email: '', password: '', confirmPassword: '' });
+  // Field errors are shown once the form has been submitted
+  const [submitted, setSubmitted] = useState(false);
+  // Error returned by the auth provider
+  const [authError, setAuthError] = useState(null);
+
+  const errors = {
+    email: validateEmail(values.email),
+    password: validatePassword(values.password),
+    confirmPassword: values.confirmPassword !== values.password ? { key: 'auth.passwordMismatch' } : null,
+  };
+  const isValid = !errors.email && !errors.password && !errors.confirmPassword;
+
+  const changeField = (field, value) => {
+    setValues(current => ({ ...current, [field]: value }));
+    setAuthError(null);
+  };
+
+  /**
+   * Creates the account; on success the route guards leave this screen
+   */
+  const handleSubmit = async () => {
+    setSubmitted(true);
+    if (!isValid || busy) return;
+    const email = values.email.trim();
+    const error = await signUp(email, values.password);
+    setAuthError(error);
+    if (!error) updateProfile({ email });
+  };
+
+  // Render the sign-up screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {/* Header section with back button and title */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <View style={styles.backButtonCircle}>
+            <Image source={ArrowLeft} style={styles.arrowIcon} />
+          </View>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('auth.signUpTitle')}</Text>
+        <View style={{ width: 36 }} /> {/* Empty view for layout balance */}
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <Text style={styles.subtitle}>{t('auth.signUpSubtitle')}</Text>
+        <AuthFormFields values={values} errors={submitted ? errors : {}} onChange={changeField} newPassword />
+        {authError && (
+          <Text style={styles.authError} accessibilityLiveRegion="polite">{t(`authError.${authError}`)}</Text>
+        )}
+        <TouchableOpacity
+          style={[styles.primaryButton, busy && styles.buttonDisabled]}
+          onPress={handleSubmit}
+          disabled={busy}
+          accessibilityRole="button"
+          accessibilityState={{ disabled: busy, busy }}
+        >
+          {busy ? (
+            <ActivityIndicator color={styles.primaryButtonText.color} />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('auth.signUp')}</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={() => router.back()} accessibilityRole="button">
+          <Text style={styles.linkText}>{t('auth.haveAccount')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the SignUpScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowIcon: {
+    width: 20,
+    height: 20,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.textMuted,
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  authError: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.danger,
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  primaryButton: {
+    backgroundColor: theme.accent,
+    borderRadius: 25,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 5,
+  },
+  primaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  linkButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  linkText: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 15,
+    color: theme.accent,
+  },
+});
+
+export default SignUpScreen;
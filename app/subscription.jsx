@@ -0,0 +1,358 @@
+/**
+ * subscription.jsx
+ *
+ * This component renders the subscription screen of the Aispeak application
+ * (route /subscription). It shows the current plan and its renewal date, and
+ * compares the plans with the actions to subscribe, upgrade, downgrade, cancel
+ * or resume.
+ *
+ * @version 1.0
+ */
+
+// Import necessary libraries and components
+import React from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, SafeAreaView, Image, Alert, ActivityIndicator } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+import Fonts from '../constants/Fonts';
+import { PLANS, PLAN_FEATURES, PLAN_ORDER } from '../constants/Plans';
+import { useSubscription } from '../hooks/useSubscription';
+import { useThemedStyles } from '../hooks/useTheme';
+import { useTranslation } from '../hooks/useTranslation';
+import { PREMIUM_MAX_FREEZE_TOKENS } from '../services/streakTracker';
+import { cancelSubscription, changePlan, resumeSubscription } from '../services/subscription';
+
+// Import image assets
+import ArrowLeft from '../assets/images/arrow-left.png';
+
+// Date format of the renewal date, e.g. "3 de marzo de 2025"
+const RENEWAL_DATE_FORMAT = { day: 'numeric', month: 'long', year: 'numeric' };
+
+/**
+ * Main SubscriptionScreen component
+ * Displays the current plan and the plan comparison
+ */
+const SubscriptionScreen = () => {
+  // Styles for the active light or dark theme
+  const styles = useThemedStyles(createStyles);
+  // Translated strings for the active language
+  const { t, formatNumber, formatDate } = useTranslation();
+
+  // Initialize router for navigation between screens
+  const router = useRouter();
+
+  // Current subscription from the billing provider
+  const { loaded, subscription, busy } = useSubscription();
+  const renewalDate = subscription.renewsAt ? formatDate(subscription.renewsAt, RENEWAL_DATE_FORMAT) : null;
+
+  const planName = (plan) => t(`plan.${plan}`);
+
+  const planPrice = (plan) => {
+    const { price, currency, period } = PLANS[plan];
+    if (!period) return t('planPrice.free');
+    return t(`planPrice.${period}`, { price: formatNumber(price, { style: 'currency', currency }) });
+  };
+
+  /**
+   * Asks for confirmation and runs a billing operation, alerting if it fails
+   * @param {string} message - Confirmation message
+   * @param {Function} operation - Billing operation that resolves to true on success
+   */
+  const confirm = (message, operation) => {
+    Alert.alert(t('common.confirm'), message, [
+      { text: t('common.back'), style: 'cancel' },
+      {
+        text: t('common.confirm'),
+        onPress: async () => {
+          if (!(await operation())) Alert.alert(t('subscription.error'));
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Plan change from the comparison: subscribing or upgrading applies now,
+   * downgrading applies on the renewal date and the free plan cancels
+   * @param {string} plan - Selected plan
+   */
+  const selectPlan = (plan) => {
+    if (plan === 'free') {
+      confirm(t('subscription.confirmCancel', { date: renewalDate }), cancelSubscription);
+    } else if (subscription.plan === 'free') {
+      confirm(t('subscription.confirmSubscribe', { plan: planName(plan), price: planPrice(plan) }), () => changePlan(plan));
+    } else if (PLAN_ORDER.indexOf(plan) > PLAN_ORDER.indexOf(subscription.plan)) {
+      confirm(t('subscription.confirmUpgrade', { plan: planName(plan), price: planPrice(plan) }), () => changePlan(plan));
+    } else {
+      confirm(t('subscription.confirmDowngrade', { plan: planName(plan), date: renewalDate }), () => changePlan(plan));
+    }
+  };
+
+  /**
+   * Label of the button of a plan in the comparison, or null for the current plan
+   * @param {string} plan - Plan of the card
+   */
+  const planAction = (plan) => {
+    if (plan === subscription.plan) return null;
+    if (plan === 'free') return subscription.canceled ? null : t('subscription.cancel');
+    if (plan === subscription.scheduledPlan) return null;
+    if (subscription.plan === 'free') return t('subscription.subscribe', { plan: planName(plan) });
+    return PLAN_ORDER.indexOf(plan) > PLAN_ORDER.indexOf(subscription.plan)
+      ? t('subscription.upgrade', { plan: planName(plan) })
+      : t('subscription.downgrade', { plan: planName(plan) });
+  };
+
+  /**
+   * Status line of the current plan
+   */
+  const statusText = () => {
+    if (subscription.plan === 'free') return t('subscription.freeDescription');
+    if (subscription.canceled) return t('subscription.endsOn', { date: renewalDate });
+    if (subscription.scheduledPlan) {
+      return t('subscription.changesOn', { plan: planName(subscription.scheduledPlan), date: renewalDate });
+    }
+    return t('subscription.renewsOn', { date: renewalDate });
+  };
+
+  // Render the subscription screen UI
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="auto" />
+      {/* Header section with back button and title */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <View style={styles.backButtonCircle}>
+            <Image source={ArrowLeft} style={styles.arrowIcon} />
+          </View>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('subscription.title')}</Text>
+        <View style={{ width: 36 }} /> {/* Empty view for layout balance */}
+      </View>
+
+      {!loaded ? (
+        <ActivityIndicator style={styles.loading} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer}>
+          {/* Current plan */}
+          <View style={styles.currentPlan}>
+            <Text style={styles.currentPlanLabel}>{t('subscription.current')}</Text>
+            <Text style={styles.currentPlanName}>{planName(subscription.plan)}</Text>
+            <Text style={styles.currentPlanStatus}>{statusText()}</Text>
+            {(subscription.canceled || subscription.scheduledPlan) && (
+              <TouchableOpacity
+                style={[styles.resumeButton, busy && styles.buttonDisabled]}
+                onPress={async () => {
+                  if (!(await resumeSubscription())) Alert.alert(t('subscription.error'));
+                }}
+                disabled={busy}
+                accessibilityRole="button"
+              >
+                <Text style={styles.resumeButtonText}>{t('subscription.resume')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Plan comparison */}
+          <Text style={styles.sectionTitle}>{t('subscription.compare')}</Text>
+          {PLAN_ORDER.map(plan => {
+            const isCurrent = plan === subscription.plan;
+            const action = planAction(plan);
+            return (
+              <View key={plan} style={[styles.planCard, isCurrent && styles.planCardCurrent]}>
+                <View style={styles.planHeader}>
+                  <Text style={styles.planName}>{planName(plan)}</Text>
+                  <Text style={styles.planPrice}>{planPrice(plan)}</Text>
+                </View>
+                {PLAN_FEATURES.map(feature => {
+                  const included = !feature.premium || plan !== 'free';
+                  return (
+                    <Text
+                      key={feature.id}
+                      style={[styles.feature, !included && styles.featureExcluded]}
+                      accessibilityLabel={`${t(`planFeature.${feature.id}`, { count: PREMIUM_MAX_FREEZE_TOKENS })}, ${t(included ? 'subscription.included' : 'subscription.notIncluded')}`}
+                    >
+                      {included ? '✓' : '✕'} {t(`planFeature.${feature.id}`, { count: PREMIUM_MAX_FREEZE_TOKENS })}
+                    </Text>
+                  );
+                })}
+                {isCurrent && <Text style={styles.currentBadge}>{t('subscription.current')}</Text>}
+                {action && (
+                  <TouchableOpacity
+                    style={[plan === 'free' ? styles.secondaryButton : styles.primaryButton, busy && styles.buttonDisabled]}
+                    onPress={() => selectPlan(plan)}
+                    disabled={busy}
+                    accessibilityRole="button"
+                    accessibilityState={{ disabled: busy }}
+                  >
+                    <Text style={plan === 'free' ? styles.secondaryButtonText : styles.primaryButtonText}>{action}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+/**
+ * Styles for the SubscriptionScreen component
+ */
+const createStyles = (theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.highlight,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 10,
+  },
+  backButton: {
+    padding: 5,
+  },
+  backButtonCircle: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  arrowIcon: {
+    width: 20,
+    height: 20,
+    resizeMode: 'contain',
+  },
+  headerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    textAlign: 'center',
+  },
+  currentPlan: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 15,
+    marginBottom: 20,
+  },
+  currentPlanLabel: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.textMuted,
+  },
+  currentPlanName: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 22,
+    color: theme.text,
+    marginTop: 2,
+  },
+  currentPlanStatus: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 15,
+    color: theme.text,
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.text,
+    marginBottom: 10,
+  },
+  planCard: {
+    backgroundColor: theme.background,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    padding: 15,
+    marginBottom: 12,
+  },
+  planCardCurrent: {
+    borderColor: theme.accent,
+  },
+  planHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: 8,
+  },
+  planName: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.text,
+  },
+  planPrice: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 15,
+    color: theme.accent,
+  },
+  feature: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 15,
+    color: theme.text,
+    paddingVertical: 2,
+  },
+  featureExcluded: {
+    color: theme.textSubtle,
+  },
+  currentBadge: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+    color: theme.accent,
+    marginTop: 10,
+  },
+  primaryButton: {
+    backgroundColor: theme.accent,
+    borderRadius: 25,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+  secondaryButton: {
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: theme.danger,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.danger,
+  },
+  resumeButton: {
+    borderRadius: 25,
+    borderWidth: 1,
+    borderColor: theme.accent,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  resumeButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.accent,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default SubscriptionScreen;
@@ -0,0 +1,23 @@
+/**
+ * terms.jsx
+ *
+ * This component renders the Terms and Conditions of the Aispeak application (route
+ * /terms). The optional `section` parameter opens the document at a heading,
+ * e.g. aispeakprofile://terms?section=changes.
+ *
+ * @version 2.0
+ */
+
+// Import necessary libraries and components
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import LegalDocumentView from '../components/ui/LegalDocumentView';
+
+/**
+ * Main TermsScreen component
+ * Displays the bundled document with its version and acceptance status
+ */
+export default function TermsScreen() {
+  const { section } = useLocalSearchParams();
+  return <LegalDocumentView documentId="terms" section={typeof section === 'string' ? section : null} />;
+}
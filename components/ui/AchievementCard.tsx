@@ -1,166 +1,364 @@
 /**
  * @file AchievementCard.tsx
- * @description Componente para mostrar tarjetas de logros con animaciones
- * y efectos visuales. Incluye soporte para mostrar progreso y efectos
- * de celebración cuando un logro se completa.
+ * @description Tarjeta única para mostrar logros en toda la aplicación. Admite
+ * variantes (completa, compacta, mosaico y bloqueada), tamaños predefinidos y
+ * distintos niveles de intensidad de animación, con soporte para puntos, niveles
+ * de logros escalonados y animaciones de celebración.
  */
-import React, { useEffect } from 'react';
-import { StyleSheet, View, Text, Image, TouchableOpacity, Animated, Easing, Platform } from 'react-native';
-import { Colors } from '../../constants/Colors';
+import React, { useRef, useEffect, memo, useCallback, useMemo } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  Animated,
+  Easing,
+  Platform,
+} from 'react-native';
 import Fonts from '../../constants/Fonts';
+import { TIERS } from '../../constants/Achievements';
+import { useBounceAnimation, useSparkleAnimation } from '../../hooks/useCelebrationAnimations';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { AchievementTierId, TierProgress } from '../../services/achievementEngine';
+
+/**
+ * Variantes de la tarjeta
+ * - full: icono, título, puntos, descripción y barra de progreso
+ * - compact: una fila con icono, título y barra, sin descripción
+ * - tile: mosaico vertical para rejillas
+ * - locked: silueta "???" de un logro secreto sin desbloquear
+ */
+export type AchievementCardVariant = 'full' | 'compact' | 'tile' | 'locked';
+
+/** Tamaños predefinidos de la tarjeta */
+export type AchievementCardSize = 'small' | 'medium' | 'large';
+
+/**
+ * Intensidad de las animaciones de la tarjeta
+ * - none: sin animaciones, solo estados estáticos
+ * - subtle: brillo de los completados y efectos de pulsación suaves
+ * - full: además rebote del icono, sacudida al pulsar y pulso al completarse
+ */
+export type AnimationIntensity = 'none' | 'subtle' | 'full';
+
+/** Medidas de cada tamaño: icono, textos y espaciado interior */
+const SIZE_PRESETS: Record<AchievementCardSize, { icon: number; title: number; description: number; padding: number }> = {
+  small: { icon: 44, title: 14, description: 12, padding: 10 },
+  medium: { icon: 60, title: 16, description: 14, padding: 15 },
+  large: { icon: 76, title: 18, description: 15, padding: 18 },
+};
+
+/** Efectos activos en cada intensidad de animación */
+const INTENSITY_PRESETS: Record<
+  AnimationIntensity,
+  { sparkle: boolean; bounce: boolean; celebrate: boolean; shake: number; pressScale: number }
+> = {
+  none: { sparkle: false, bounce: false, celebrate: false, shake: 0, pressScale: 1 },
+  subtle: { sparkle: true, bounce: false, celebrate: false, shake: 0, pressScale: 0.99 },
+  full: { sparkle: true, bounce: true, celebrate: true, shake: 2, pressScale: 0.98 },
+};
 
 /**
  * @interface AchievementCardProps
  * @description Propiedades para el componente AchievementCard
  */
 interface AchievementCardProps {
-  /** Título del logro */
-  title: string;
-  /** Descripción detallada del logro */
-  description: string;
-  /** Icono que representa el logro */
-  icon: any; // Imagen del logro
-  /** Valor de progreso entre 0 y 1 */
-  progress: number;
-  /** Indica si el logro está completado */
-  isCompleted: boolean;
-  /** Función a ejecutar cuando se presiona la tarjeta */
-  onPress?: () => void;
-  /** Estilos adicionales para la tarjeta */
-  style?: object;
+  title: string;                // Título del logro
+  description: string;         // Descripción detallada del logro
+  icon: any;                   // Icono representativo del logro
+  progress: number;            // Progreso actual (0-1)
+  isCompleted: boolean;        // Indica si el logro está completado
+  points?: number;             // Puntos que otorga el logro
+  tiers?: TierProgress[];      // Estado de cada nivel, solo en logros escalonados
+  currentTier?: AchievementTierId | null; // Nivel más alto conseguido
+  premiumLocked?: boolean;     // Logro de pago que la suscripción actual no incluye
+  variant?: AchievementCardVariant; // Variante de presentación
+  size?: AchievementCardSize;  // Tamaño predefinido
+  animationIntensity?: AnimationIntensity; // Intensidad de las animaciones
+  revealing?: boolean;         // Reproduce la animación de revelado de un logro secreto
+  onRevealed?: () => void;     // Función a ejecutar al terminar el revelado
+  animationsActive?: boolean;  // Si es false se pausan las animaciones en bucle (p. ej. fuera de pantalla)
+  onPress?: () => void;        // Función a ejecutar al presionar la tarjeta
+  style?: object;              // Estilos adicionales para la tarjeta
 }
 
 /**
  * @component AchievementCard
- * @description Componente de tarjeta de logro con animaciones y efectos visuales
+ * @description Tarjeta de logro con animaciones y efectos visuales
+ * Optimizado con memo para evitar renderizados innecesarios
  */
-const AchievementCard: React.FC<AchievementCardProps> = ({
-  title,
-  description,
-  icon,
-  progress,
-  isCompleted,
-  onPress,
-  style,
-}) => {
-  // Referencias para las animaciones
-  const scaleAnim = React.useRef(new Animated.Value(1)).current;    // Controla el escalado de la tarjeta
-  const progressAnim = React.useRef(new Animated.Value(0)).current; // Controla la animación de la barra de progreso
-  const rotateAnim = React.useRef(new Animated.Value(0)).current;   // Controla la rotación del efecto de brillo
-  const opacityAnim = React.useRef(new Animated.Value(0)).current;  // Controla la opacidad del efecto de completado
+const AchievementCard: React.FC<AchievementCardProps> = memo((
+  {
+    title,
+    description,
+    icon,
+    progress,
+    isCompleted,
+    points = 0,
+    tiers,
+    currentTier = null,
+    premiumLocked = false,
+    variant = 'full',
+    size = 'medium',
+    animationIntensity = 'full',
+    revealing = false,
+    onRevealed,
+    animationsActive = true,
+    onPress,
+    style,
+  }
+) => {
+  /** Estilos del tema claro u oscuro activo */
+  const styles = useThemedStyles(createStyles);
+  const { t, formatNumber } = useTranslation();
+  // Con movimiento reducido (ajuste del sistema o interruptor "Animaciones") la
+  // tarjeta se comporta como si no tuviera animaciones: estados estáticos y cambios instantáneos
+  const reduceMotion = useReducedMotion();
+  const motion: AnimationIntensity = reduceMotion ? 'none' : animationIntensity;
+  const sizePreset = SIZE_PRESETS[size];
+  const intensity = INTENSITY_PRESETS[motion];
+  const locked = variant === 'locked';
+
+  // Referencias para las diferentes animaciones utilizadas en el componente
+  const scaleAnim = useRef(new Animated.Value(1)).current;       // Controla el escalado de la tarjeta
+  const progressAnim = useRef(new Animated.Value(0)).current;    // Controla la animación de la barra de progreso
+  const opacityAnim = useRef(new Animated.Value(isCompleted ? 1 : 0.7)).current; // Controla la opacidad
+  const shakeAnim = useRef(new Animated.Value(0)).current;       // Controla el efecto de sacudida
+  const revealAnim = useRef(new Animated.Value(revealing ? 0 : 1)).current; // Controla el revelado (0 = silueta)
+  // Última versión del callback, para no reiniciar el revelado si el padre pasa una función nueva
+  const onRevealedRef = useRef(onRevealed);
+  onRevealedRef.current = onRevealed;
 
   /**
-   * Efecto para animar la barra de progreso cuando cambia su valor
+   * Efecto para revelar un logro secreto recién desbloqueado: la silueta "???"
+   * se desvanece y se agranda dejando ver la tarjeta real
    */
   useEffect(() => {
-    Animated.timing(progressAnim, {
-      toValue: progress,
-      duration: 1000,
-      easing: Easing.out(Easing.cubic), // Efecto de desaceleración suave
-      useNativeDriver: false, // No se puede usar native driver para cambios de ancho
-    }).start();
-  }, [progress, progressAnim]);
+    if (!revealing) return;
+    if (motion === 'none') {
+      revealAnim.setValue(1);
+      onRevealedRef.current?.();
+      return;
+    }
+    revealAnim.setValue(0);
+    const animation = Animated.sequence([
+      Animated.delay(300),
+      Animated.timing(revealAnim, {
+        toValue: 1,
+        duration: 700,
+        easing: Easing.out(Easing.cubic),
+        useNativeDriver: true,
+      }),
+    ]);
+    animation.start(({ finished }) => {
+      if (finished) onRevealedRef.current?.();
+    });
+    return () => animation.stop();
+  }, [revealing, revealAnim, motion]);
 
   /**
-   * Efecto para animar cuando se completa un logro
-   * Aplica una secuencia de animaciones para celebrar
+   * Efecto para animar el progreso y aplicar efectos de celebración cuando cambia
+   * o cuando un logro se completa
    */
   useEffect(() => {
+    // Sin animaciones, la barra y la opacidad pasan directamente a su valor final
+    if (motion === 'none') {
+      progressAnim.setValue(progress);
+      opacityAnim.setValue(isCompleted ? 1 : 0.7);
+      return;
+    }
+
+    // Anima la barra de progreso suavemente
+    Animated.timing(progressAnim, {
+      toValue: progress,
+      duration: 500,
+      easing: Easing.out(Easing.cubic),
+      useNativeDriver: false, // El width no puede usar native driver
+    }).start();
+
+    // Efectos especiales cuando el logro está completado
     if (isCompleted) {
-      // Secuencia de animaciones para celebrar el logro completado
-      Animated.sequence([
-        // Aumenta ligeramente el tamaño con efecto de rebote
-        Animated.timing(scaleAnim, {
-          toValue: 1.1,
-          duration: 300,
-          easing: Easing.bounce,
-          useNativeDriver: true,
-        }),
-        // Vuelve al tamaño normal
-        Animated.timing(scaleAnim, {
-          toValue: 1,
-          duration: 200,
-          useNativeDriver: true,
-        }),
-        // Muestra gradualmente la insignia de completado
-        Animated.timing(opacityAnim, {
-          toValue: 1,
-          duration: 500,
-          useNativeDriver: true,
-        }),
-      ]).start();
+      // Efecto de pulso: escala hacia arriba y vuelve al tamaño normal
+      if (intensity.celebrate) {
+        Animated.sequence([
+          Animated.timing(scaleAnim, {
+            toValue: 1.05,
+            duration: 200,
+            useNativeDriver: true,
+          }),
+          Animated.timing(scaleAnim, {
+            toValue: 1,
+            duration: 200,
+            useNativeDriver: true,
+          }),
+        ]).start();
+      }
 
-      // Animación de rotación continua para el efecto de brillo
-      Animated.loop(
-        Animated.timing(rotateAnim, {
-          toValue: 1,
-          duration: 3000,
-          easing: Easing.linear,
-          useNativeDriver: true,
-        })
-      ).start();
+      // Ajusta la opacidad a completa
+      Animated.timing(opacityAnim, {
+        toValue: 1,
+        duration: 300,
+        useNativeDriver: true,
+      }).start();
     }
-  }, [isCompleted, scaleAnim, rotateAnim, opacityAnim]);
+  }, [progress, isCompleted, motion, intensity.celebrate, progressAnim, opacityAnim, scaleAnim]);
 
   /**
-   * Maneja el evento cuando se presiona la tarjeta
-   * Reduce ligeramente el tamaño para dar feedback táctil
+   * Manejador del evento cuando se presiona la tarjeta
+   * Aplica efectos visuales de feedback táctil según la intensidad de animación
    */
-  const handlePressIn = () => {
+  const handlePressIn = useCallback(() => {
+    if (intensity.pressScale === 1) return;
+
+    // Efecto de presión: reduce ligeramente el tamaño
     Animated.timing(scaleAnim, {
-      toValue: 0.95, // Reduce ligeramente el tamaño
-      duration: 150,
+      toValue: intensity.pressScale,
+      duration: 50,
       useNativeDriver: true,
     }).start();
-  };
+
+    // Efecto de sacudida solo para logros no completados
+    if (!isCompleted && intensity.shake > 0) {
+      Animated.sequence([
+        Animated.timing(shakeAnim, { toValue: intensity.shake, duration: 50, useNativeDriver: true }),
+        Animated.timing(shakeAnim, { toValue: -intensity.shake, duration: 50, useNativeDriver: true }),
+        Animated.timing(shakeAnim, { toValue: 0, duration: 50, useNativeDriver: true }),
+      ]).start();
+    }
+  }, [scaleAnim, shakeAnim, isCompleted, intensity]);
 
   /**
-   * Maneja el evento cuando se suelta la tarjeta
-   * Restaura el tamaño original
+   * Manejador del evento cuando se suelta la tarjeta
+   * Restaura el estado visual normal
    */
-  const handlePressOut = () => {
+  const handlePressOut = useCallback(() => {
+    if (intensity.pressScale === 1) return;
+
     Animated.timing(scaleAnim, {
-      toValue: 1, // Vuelve al tamaño original
-      duration: 150,
+      toValue: 1,
+      duration: 50,
       useNativeDriver: true,
     }).start();
-  };
+  }, [scaleAnim, intensity]);
 
-  // Interpolaciones para las animaciones
-  
-  /**
-   * Interpolación para el ancho de la barra de progreso
-   * Convierte el valor de progreso (0-1) en un porcentaje (0%-100%)
-   */
-  const progressWidth = progressAnim.interpolate({
-    inputRange: [0, 1],
-    outputRange: ['0%', '100%'],
-  });
+  // Configuración de interpolaciones para las animaciones (memorizadas para evitar recálculos)
+  const progressWidth = useMemo(() => {
+    return progressAnim.interpolate({
+      inputRange: [0, 1],
+      outputRange: ['0%', '100%'],
+    });
+  }, [progressAnim]);
+
+  // Brillo pulsante y rebote periódico del icono mientras el logro está completado
+  // y la tarjeta está en pantalla (compartidos con la celebración de subida de nivel)
+  const loopsActive = isCompleted && animationsActive && !locked;
+  const sparkleOpacity = useSparkleAnimation(loopsActive && intensity.sparkle);
+  const iconTranslateY = useBounceAnimation(loopsActive && intensity.bounce);
+
+  /** Medidas del icono según el tamaño elegido */
+  const iconSize = useMemo(
+    () => ({
+      container: { width: sizePreset.icon, height: sizePreset.icon, borderRadius: sizePreset.icon / 2 },
+      image: {
+        width: sizePreset.icon - 10,
+        height: sizePreset.icon - 10,
+        borderRadius: (sizePreset.icon - 10) / 2,
+      },
+    }),
+    [sizePreset]
+  );
 
   /**
-   * Interpolación para la rotación del efecto de brillo
-   * Gira 360 grados para crear un efecto visual atractivo
+   * Texto que leen los lectores de pantalla: "título, x % completado, n puntos",
+   * con el nivel conseguido en los logros escalonados y si requiere suscripción
    */
-  const rotate = rotateAnim.interpolate({
-    inputRange: [0, 1],
-    outputRange: ['0deg', '360deg'],
-  });
+  const percent = Math.round(progress * 100);
+  const percentText = formatNumber(progress, { style: 'percent', maximumFractionDigits: 0 });
+  const pointsText = t('common.pointsShort', { points });
+  const accessibilityLabel = [
+    title,
+    t('common.percentComplete', { percent: percentText }),
+    currentTier ? t('achievementCard.tierLabel', { tier: t(`tier.${currentTier}`) }) : null,
+    points > 0 ? t('common.points', { count: points }) : null,
+    premiumLocked ? t('achievementCard.premiumLabel') : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  const isTile = variant === 'tile';
+  const containerStyle = [
+    styles.container,
+    { padding: sizePreset.padding },
+    variant === 'compact' && styles.compactContainer,
+    isTile && styles.tileContainer,
+  ];
 
   /**
-   * Estilos para las sombras según la plataforma
-   * Mejora la apariencia visual y destaca los logros completados
+   * Renderizado de un logro secreto aún bloqueado: silueta sin título, descripción ni progreso
    */
-  const shadowStyle = Platform.select({
-    ios: {
-      shadowColor: isCompleted ? Colors.blue : Colors.darkGray,
-      shadowOffset: { width: 0, height: 4 },
-      shadowOpacity: isCompleted ? 0.5 : 0.3, // Sombra más intensa para logros completados
-      shadowRadius: isCompleted ? 8 : 4,      // Radio mayor para logros completados
-    },
-    android: {
-      elevation: isCompleted ? 8 : 4, // Elevación mayor para logros completados
-    },
-  });
+  if (locked) {
+    return (
+      <TouchableOpacity
+        activeOpacity={0.9}
+        onPressIn={handlePressIn}
+        onPressOut={handlePressOut}
+        accessibilityRole="button"
+        accessibilityLabel={t('achievementCard.lockedLabel')}
+        accessibilityHint={t('achievementCard.lockedHint')}
+      >
+        <Animated.View
+          style={[
+            ...containerStyle,
+            styles.lockedContainer,
+            { transform: [{ scale: scaleAnim }, { translateX: shakeAnim }] },
+            style,
+          ]}
+        >
+          <View style={[styles.iconContainer, iconSize.container, styles.lockedIconContainer]}>
+            <Text style={styles.lockedIconText}>?</Text>
+          </View>
+          <View style={styles.contentContainer}>
+            <Text style={[styles.title, { fontSize: sizePreset.title }, styles.lockedText]}>???</Text>
+            <Text style={[styles.description, { fontSize: sizePreset.description }, styles.lockedText]}>???</Text>
+          </View>
+        </Animated.View>
+      </TouchableOpacity>
+    );
+  }
+
+  /** Barra de progreso: segmentada por niveles en los logros escalonados */
+  const progressBar = tiers ? (
+    <View style={styles.tierBarRow}>
+      {tiers.map(tier => (
+        <View key={tier.id} style={styles.tierSegment}>
+          <View
+            style={[
+              styles.tierSegmentFill,
+              { width: `${Math.round(tier.progress * 100)}%`, backgroundColor: TIERS[tier.id].color },
+            ]}
+          />
+          {!isTile && <Text style={styles.tierSegmentText}>{tier.target}</Text>}
+        </View>
+      ))}
+    </View>
+  ) : (
+    <View style={styles.progressBarContainer}>
+      <Animated.View
+        style={[
+          styles.progressBar,
+          { width: progressWidth }, // Ancho animado según el progreso
+          isCompleted && styles.completedProgressBar, // Estilo especial si está completado
+        ]}
+      />
+      {/* Porcentaje de progreso */}
+      <Text style={styles.progressText}>
+        {percentText}
+      </Text>
+    </View>
+  );
 
   /**
    * Renderizado del componente
@@ -171,193 +369,438 @@ const AchievementCard: React.FC<AchievementCardProps> = ({
       onPress={onPress}
       onPressIn={handlePressIn}
       onPressOut={handlePressOut}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityHint={onPress ? t('achievementCard.openHint') : undefined}
+      // El progreso se expone como valor, ya que la barra solo se dibuja como un ancho
+      accessibilityValue={{ min: 0, max: 100, now: percent, text: percentText }}
     >
       {/* Contenedor principal con animaciones */}
       <Animated.View
         style={[
-          styles.container,
-          shadowStyle, // Sombras específicas según plataforma
+          ...containerStyle,
           {
-            transform: [{ scale: scaleAnim }], // Animación de escala
-            borderColor: isCompleted ? Colors.brown : Colors.gray, // Borde destacado para completados
-            borderWidth: isCompleted ? 2 : 1.5, // Borde más grueso para completados
+            opacity: opacityAnim,
+            transform: [
+              { scale: scaleAnim },      // Efecto de escala
+              { translateX: shakeAnim }, // Sacudida horizontal al pulsar
+            ],
           },
+          isCompleted && styles.completedContainer, // Estilo especial para logros completados
           style, // Estilos personalizados pasados como prop
         ]}
       >
-        {/* Contenido principal de la tarjeta */}
-        <View style={styles.content}>
-          {/* Contenedor del icono */}
-          <View style={styles.iconContainer}>
-            {/* Efecto de brillo rotatorio para logros completados */}
-            {isCompleted && (
-              <Animated.View
-                style={[
-                  styles.completedEffect,
-                  {
-                    opacity: opacityAnim, // Aparición gradual
-                    transform: [{ rotate }], // Rotación continua
-                  },
-                ]}
-              />
-            )}
-            {/* Icono del logro */}
-            <Image
-              source={icon}
+        {/* Contenedor del icono con animación de rebote */}
+        <Animated.View
+          style={[
+            styles.iconContainer,
+            iconSize.container,
+            isTile && styles.tileIcon,
+            { transform: [{ translateY: iconTranslateY }] },
+          ]}
+        >
+          {/* Icono del logro */}
+          <Image
+            source={icon}
+            style={[styles.icon, iconSize.image]}
+            resizeMode="contain"
+            fadeDuration={0} // Elimina la animación de fade para cargar más rápido
+            progressiveRenderingEnabled={true}
+          />
+
+          {/* Efecto de brillo para logros completados */}
+          {isCompleted && intensity.sparkle && (
+            <Animated.View
               style={[
-                styles.icon,
-                { tintColor: isCompleted ? Colors.blue : Colors.darkGray }, // Color destacado para completados
+                styles.sparkleOverlay,
+                { borderRadius: sizePreset.icon / 2, opacity: sparkleOpacity },
               ]}
             />
-          </View>
-          
-          {/* Contenedor de información textual */}
-          <View style={styles.textContainer}>
-            {/* Título del logro */}
-            <Text style={styles.title}>{title}</Text>
-            
-            {/* Descripción del logro */}
-            <Text style={styles.description}>{description}</Text>
-            
-            {/* Barra de progreso animada */}
-            <View style={styles.progressContainer}>
-              <Animated.View
-                style={[
-                  styles.progressBar,
-                  {
-                    width: progressWidth, // Ancho animado según progreso
-                    backgroundColor: isCompleted ? Colors.blue : Colors.darkBlue, // Color destacado para completados
-                  },
-                ]}
-              />
-              {/* Porcentaje de progreso */}
-              <Text style={styles.progressText}>
-                {Math.round(progress * 100)}%
-              </Text>
+          )}
+
+          {/* Insignia de completado */}
+          {isCompleted && (
+            <View style={styles.completedBadge}>
+              <Text style={styles.completedBadgeText}>✓</Text>
             </View>
+          )}
+        </Animated.View>
+
+        {/* Contenedor del contenido textual */}
+        <View style={[styles.contentContainer, isTile && styles.tileContent]}>
+          {/* Fila superior con título, medalla y puntos */}
+          <View style={[styles.titleRow, isTile && styles.tileTitleRow]}>
+            <Text
+              style={[styles.title, { fontSize: sizePreset.title }, isTile && styles.tileTitle]}
+              numberOfLines={isTile ? 2 : 1}
+            >
+              {title}
+            </Text>
+            {/* Medalla del nivel más alto conseguido */}
+            {currentTier && (
+              <Text style={styles.tierMedal} accessibilityLabel={t('achievementCard.tierMedal', { tier: t(`tier.${currentTier}`) })}>
+                {TIERS[currentTier].medal}
+              </Text>
+            )}
+            {/* Etiqueta de los logros de pago sin suscripción */}
+            {premiumLocked && (
+              <View style={styles.premiumBadge}>
+                <Text style={styles.premiumBadgeText}>{t('achievementCard.premium')}</Text>
+              </View>
+            )}
+            {/* Muestra los puntos solo si son mayores que cero */}
+            {points > 0 && !isTile && (
+              <View style={styles.pointsContainer}>
+                <Text style={styles.pointsText}>{pointsText}</Text>
+              </View>
+            )}
           </View>
+
+          {/* Descripción del logro, solo en la variante completa */}
+          {variant === 'full' && (
+            <Text style={[styles.description, { fontSize: sizePreset.description }]} numberOfLines={2}>
+              {description}
+            </Text>
+          )}
+
+          {progressBar}
+
+          {/* En el mosaico los puntos van debajo de la barra */}
+          {points > 0 && isTile && <Text style={styles.tilePoints}>{pointsText}</Text>}
         </View>
-        
-        {/* Insignia de completado */}
-        {isCompleted && (
-          <View style={styles.completedBadge}>
-            <Text style={styles.completedText}>¡Completado!</Text>
-          </View>
+
+        {/* Silueta que se desvanece durante el revelado de un logro secreto */}
+        {revealing && (
+          <Animated.View
+            pointerEvents="none"
+            style={[
+              styles.revealOverlay,
+              {
+                opacity: revealAnim.interpolate({ inputRange: [0, 1], outputRange: [1, 0] }),
+                transform: [{ scale: revealAnim.interpolate({ inputRange: [0, 1], outputRange: [1, 1.15] }) }],
+              },
+            ]}
+          >
+            <Text style={styles.lockedIconText}>?</Text>
+          </Animated.View>
         )}
       </Animated.View>
     </TouchableOpacity>
   );
-};
+});
+
+AchievementCard.displayName = 'AchievementCard';
 
 /**
  * Estilos del componente
  */
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   // Contenedor principal de la tarjeta
   container: {
     flexDirection: 'row',
-    backgroundColor: Colors.light,
+    backgroundColor: theme.background,
     borderRadius: 15,
     padding: 15,
     marginBottom: 25, // Espacio entre tarjetas
     ...Platform.select({ // Sombras específicas por plataforma
       ios: {
-        shadowColor: Colors.brown,
-        shadowOffset: { width: 0, height: 4 },
-        shadowOpacity: 0.3,
-        shadowRadius: 8,
+        shadowColor: theme.brand,
+        shadowOffset: { width: 0, height: 2 }, // Sombra más uniforme
+        shadowOpacity: 0.2,
+        shadowRadius: 4, // Sombra más suave
       },
       android: {
-        elevation: 5,
+        elevation: 3,
       },
     }),
-    borderWidth: 1.5,
-    borderColor: Colors.gray,
+    borderWidth: 1,
+    borderColor: theme.border,
+    // Aseguramos que el contenedor se mantenga recto
+    transform: [{ perspective: 1000 }], // Ayuda a mantener la perspectiva correcta
   },
   
-  // Contenedor del contenido principal
-  content: {
-    flexDirection: 'row',
-    padding: 15,
+  // Estilo adicional para tarjetas de logros completados
+  completedContainer: {
+    borderColor: theme.brand,
+    borderWidth: 2, // Borde más grueso para destacar
+    backgroundColor: theme.highlightSoft, // Fondo ligeramente amarillento para logros completados
+    ...Platform.select({
+      ios: {
+        shadowColor: theme.brand,
+        shadowOpacity: 0.4, // Sombra más intensa pero no excesiva
+        shadowOffset: { width: 0, height: 2 }, // Sombra más uniforme
+        shadowRadius: 5, // Ajustamos para que sea más uniforme
+      },
+      android: {
+        elevation: 5, // Elevación ajustada para ser más uniforme
+      },
+    }),
+    // Aseguramos que el contenedor se mantenga recto
+    transform: [{ perspective: 1000 }], // Ayuda a mantener la perspectiva correcta
   },
   
+  // Variante compacta: menos separación entre tarjetas
+  compactContainer: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+
+  // Variante mosaico: tarjeta vertical centrada para rejillas
+  tileContainer: {
+    flexDirection: 'column',
+    alignItems: 'center',
+    width: 150,
+    marginBottom: 15,
+  },
+  tileIcon: {
+    marginRight: 0,
+    marginBottom: 10,
+  },
+  tileContent: {
+    alignSelf: 'stretch',
+  },
+  tileTitleRow: {
+    justifyContent: 'center',
+  },
+  tileTitle: {
+    flex: 0,
+    textAlign: 'center',
+  },
+  tilePoints: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 12,
+    color: theme.accent,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+
+  // Tarjeta de un logro secreto sin desbloquear
+  lockedContainer: {
+    backgroundColor: theme.surface,
+    borderStyle: 'dashed',
+    borderColor: theme.textSubtle,
+  },
+  // Silueta del icono de un logro secreto
+  lockedIconContainer: {
+    backgroundColor: theme.textSubtle,
+    borderColor: theme.border,
+  },
+  lockedIconText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 28,
+    color: theme.onAccent,
+  },
+  lockedText: {
+    color: theme.textSubtle,
+  },
+  // Capa con la silueta que cubre la tarjeta durante el revelado
+  revealOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 15,
+    backgroundColor: theme.textSubtle,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
   // Contenedor circular para el icono del logro
   iconContainer: {
     width: 60,
     height: 60,
     borderRadius: 30, // Forma circular
-    backgroundColor: Colors.light,
+    backgroundColor: theme.background,
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: 15,
     borderWidth: 2,
-    borderColor: Colors.yellow, // Borde amarillo para destacar
+    borderColor: theme.celebration, // Borde amarillo para destacar
     ...Platform.select({
       ios: {
-        shadowColor: Colors.brown,
-        shadowOffset: { width: 0, height: 2 },
+        shadowColor: theme.brand,
+        shadowOffset: { width: 0, height: 1 }, // Sombra más uniforme
         shadowOpacity: 0.2,
-        shadowRadius: 3,
+        shadowRadius: 2, // Sombra más suave
       },
       android: {
         elevation: 2,
       },
     }),
+    // Aseguramos que el contenedor del icono se mantenga recto
+    transform: [{ perspective: 1000 }], // Ayuda a mantener la perspectiva correcta
   },
   
   // Estilo para el icono dentro del contenedor
   icon: {
-    width: 35,
-    height: 35,
-    resizeMode: 'contain', // Mantiene la proporción del icono
+    width: 50,
+    height: 50,
+    borderRadius: 25, // Forma circular
+  },
+  
+  // Efecto de brillo que se muestra sobre el icono cuando está completado
+  sparkleOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    borderRadius: 30,
+    backgroundColor: theme.celebration, // Color amarillo para el brillo
+    opacity: 0.7, // Hacemos el brillo más visible
   },
   
-  // Efecto visual que aparece alrededor del icono cuando está completado
-  completedEffect: {
+  // Insignia pequeña que indica que el logro está completado
+  completedBadge: {
     position: 'absolute',
-    width: 70,
-    height: 70,
-    borderRadius: 35, // Forma circular
+    bottom: -5,
+    right: -5,
+    width: 28, // Aumentamos ligeramente el tamaño
+    height: 28, // Aumentamos ligeramente el tamaño
+    borderRadius: 14, // Forma circular
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
     borderWidth: 2,
-    borderColor: Colors.blue,
-    borderStyle: 'dashed', // Borde discontinuo para efecto visual
+    borderColor: theme.onAccent, // Borde blanco para destacar
+    ...Platform.select({ // Añadimos sombra para destacar más
+      ios: {
+        shadowColor: theme.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.3,
+        shadowRadius: 3,
+      },
+      android: {
+        elevation: 4,
+      },
+    }),
+  },
+  
+  // Texto dentro de la insignia de completado
+  completedBadgeText: {
+    color: theme.onAccent,
+    fontSize: 16, // Aumentamos el tamaño para mejor visibilidad
+    fontFamily: Fonts.nunitoBold,
+    textShadowColor: 'rgba(0, 0, 0, 0.3)', // Añadimos sombra para mejor contraste
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 1,
   },
   
-  // Contenedor para el texto (título, descripción, progreso)
-  textContainer: {
+  // Contenedor para el contenido textual (título, descripción, progreso)
+  contentContainer: {
     flex: 1,
     justifyContent: 'center',
   },
   
+  // Fila que contiene el título y los puntos
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  
   // Estilo para el título del logro
   title: {
     fontFamily: Fonts.nunitoBold,
     fontSize: 16,
-    color: Colors.dark,
-    marginBottom: 4,
+    color: theme.text,
+    flex: 1, // Permite que ocupe el espacio disponible
+    textShadowColor: 'rgba(255, 255, 255, 0.8)', // Sombra de texto para legibilidad
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 1,
+  },
+  
+  // Medalla del nivel conseguido junto al título
+  tierMedal: {
+    fontSize: 18,
+    marginLeft: 5,
+  },
+
+  // Etiqueta de los logros de pago sin suscripción
+  premiumBadge: {
+    backgroundColor: theme.brand,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginLeft: 5,
+  },
+  premiumBadgeText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 11,
+    color: theme.onAccent,
+  },
+
+  // Fila con un segmento de barra por nivel
+  tierBarRow: {
+    flexDirection: 'row',
+  },
+  // Segmento de la barra correspondiente a un nivel
+  tierSegment: {
+    flex: 1,
+    height: 12,
+    backgroundColor: theme.surface,
+    borderRadius: 6,
+    overflow: 'hidden',
+    justifyContent: 'center',
+    borderWidth: 0.5,
+    borderColor: theme.border,
+    marginRight: 3,
+  },
+  tierSegmentFill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    borderRadius: 5,
+  },
+  // Objetivo del nivel dentro del segmento
+  tierSegmentText: {
+    fontSize: 9,
+    fontFamily: Fonts.nunitoBold,
+    color: theme.text,
+    textAlign: 'center',
+  },
+
+  // Contenedor para mostrar los puntos del logro
+  pointsContainer: {
+    backgroundColor: theme.accent,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginLeft: 5,
+    borderWidth: 1,
+    borderColor: theme.accentStrong, // Azul más oscuro para el borde
+  },
+  
+  // Texto que muestra los puntos
+  pointsText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 12,
+    color: theme.onAccent, // Texto blanco para contraste
   },
   
   // Estilo para la descripción del logro
   description: {
     fontFamily: Fonts.nunito,
     fontSize: 14,
-    color: Colors.textGray,
-    marginBottom: 8,
+    color: theme.textMuted,
+    marginBottom: 10,
+    textShadowColor: 'rgba(255, 255, 255, 0.5)', // Sombra sutil para legibilidad
+    textShadowOffset: { width: 0, height: 0.5 },
+    textShadowRadius: 0.5,
   },
   
   // Contenedor para la barra de progreso
-  progressContainer: {
+  progressBarContainer: {
     height: 12,
-    backgroundColor: Colors.lightGray,
+    backgroundColor: theme.surface,
     borderRadius: 6,
     overflow: 'hidden', // Oculta el contenido que sobresale
     flexDirection: 'row',
     alignItems: 'center',
     borderWidth: 0.5,
-    borderColor: Colors.gray,
+    borderColor: theme.border,
     ...Platform.select({
       ios: {
-        shadowColor: Colors.dark,
+        shadowColor: theme.shadow,
         shadowOffset: { width: 0, height: 1 },
         shadowOpacity: 0.1,
         shadowRadius: 1,
@@ -374,46 +817,37 @@ const styles = StyleSheet.create({
     left: 0,
     top: 0,
     bottom: 0,
-    backgroundColor: Colors.blue,
+    backgroundColor: theme.accent,
     borderRadius: 5,
   },
   
   // Estilo especial para la barra de progreso cuando está completado
   completedProgressBar: {
-    backgroundColor: Colors.brown, // Cambia a marrón cuando está completado
+    backgroundColor: theme.brand, // Cambia a marrón cuando está completado
+    borderWidth: 1,
+    borderColor: theme.brand, // Borde más oscuro para destacar
+    ...Platform.select({
+      ios: {
+        shadowColor: theme.brand,
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.5,
+        shadowRadius: 2,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
   },
   
   // Texto que muestra el porcentaje de progreso
   progressText: {
-    fontFamily: Fonts.nunitoBold,
-    fontSize: 10,
-    color: Colors.dark,
     position: 'absolute',
     right: 5, // Alineado a la derecha
-  },
-  
-  // Insignia pequeña que indica que el logro está completado
-  completedBadge: {
-    position: 'absolute',
-    bottom: -5,
-    right: -5,
-    width: 24,
-    height: 24,
-    borderRadius: 12, // Forma circular
-    backgroundColor: Colors.blue,
-    justifyContent: 'center',
-    alignItems: 'center',
-    borderWidth: 2,
-    borderColor: Colors.light, // Borde blanco para destacar
-  },
-  
-  // Texto dentro de la insignia de completado
-  completedText: {
+    fontSize: 11, // Ligeramente más grande
     fontFamily: Fonts.nunitoBold,
-    fontSize: 10,
-    color: Colors.light, // Texto blanco para contraste
-    textShadowColor: 'rgba(0, 0, 0, 0.3)', // Sombra sutil para legibilidad
-    textShadowOffset: { width: 0, height: 1 },
+    color: theme.text,
+    textShadowColor: 'rgba(255, 255, 255, 0.8)', // Sombra de texto para mejor legibilidad
+    textShadowOffset: { width: 0, height: 0.5 },
     textShadowRadius: 1,
   },
 });
@@ -0,0 +1,446 @@
+/**
+ * @file AchievementDetailSheet.tsx
+ * @description Hoja inferior con el detalle de un logro: descripción completa,
+ * requisito, niveles, fecha de desbloqueo, puntos, rareza y logros relacionados. Permite
+ * compartir una insignia con el icono y el título del logro.
+ */
+import React, { memo, useCallback, useEffect, useRef } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  ScrollView,
+  Animated,
+  Platform,
+  Share,
+} from 'react-native';
+import * as Sharing from 'expo-sharing';
+import { useRouter } from 'expo-router';
+import { captureRef } from 'react-native-view-shot';
+import Fonts from '../../constants/Fonts';
+import { RARITIES, TIERS } from '../../constants/Achievements';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { AchievementRule } from '../../services/achievementEngine';
+import type { UnlockedAchievement } from '../../services/achievementStore';
+import type { MessageKey } from '../../services/i18n';
+import AchievementCard from './AchievementCard';
+
+/**
+ * Devuelve el mensaje con la unidad en la que se mide el requisito de una regla
+ * @param rule - Regla del logro
+ */
+const requirementUnit = (rule: AchievementRule): MessageKey => {
+  switch (rule.type) {
+    case 'counter':
+      if (rule.event === 'word_learned') return 'achievementDetail.unitWords';
+      if (rule.event === 'conversation_finished') return 'achievementDetail.unitConversations';
+      return 'achievementDetail.unitLessons';
+    case 'streak':
+      return 'achievementDetail.unitDays';
+    case 'perfectScore':
+      return 'achievementDetail.unitPerfectScores';
+    case 'lessonSet':
+      return 'achievementDetail.unitLessons';
+  }
+};
+
+/** Formato de la fecha de desbloqueo de un logro, p. ej. "3 de marzo de 2025" */
+const UNLOCK_DATE_FORMAT: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long', year: 'numeric' };
+
+/**
+ * @interface AchievementDetailSheetProps
+ * @description Propiedades para el componente AchievementDetailSheet
+ */
+interface AchievementDetailSheetProps {
+  /** Logro a mostrar; si es null la hoja está oculta */
+  achievement: UnlockedAchievement | null;
+  /** Logros relacionados con el mostrado */
+  relatedAchievements: UnlockedAchievement[];
+  /** Indica si el logro es de pago y la suscripción actual no lo incluye */
+  premiumLocked?: boolean;
+  /** Función que se ejecuta al pulsar un logro relacionado */
+  onSelectAchievement: (id: string) => void;
+  /** Función que se ejecuta al cerrar la hoja */
+  onClose: () => void;
+}
+
+/**
+ * @component AchievementDetailSheet
+ * @description Hoja que se desliza desde la parte inferior del contenedor padre
+ * con toda la información del logro seleccionado.
+ */
+const AchievementDetailSheet: React.FC<AchievementDetailSheetProps> = memo(({
+  achievement,
+  relatedAchievements,
+  premiumLocked = false,
+  onSelectAchievement,
+  onClose,
+}) => {
+  /** Estilos del tema claro u oscuro activo */
+  const styles = useThemedStyles(createStyles);
+  const { t, formatNumber, formatDate } = useTranslation();
+  const router = useRouter();
+  /** Controla el deslizamiento de la hoja (0 = oculta, 1 = visible) */
+  const slideAnim = useRef(new Animated.Value(0)).current;
+  /** Referencia a la insignia que se captura como imagen al compartir */
+  const badgeRef = useRef<View>(null);
+
+  /** Con movimiento reducido la hoja aparece directamente en su sitio */
+  const reduceMotion = useReducedMotion();
+
+  useEffect(() => {
+    if (!achievement) {
+      slideAnim.setValue(0);
+      return;
+    }
+    if (reduceMotion) {
+      slideAnim.setValue(1);
+      return;
+    }
+    const animation = Animated.spring(slideAnim, {
+      toValue: 1,
+      friction: 9,
+      tension: 50,
+      useNativeDriver: true,
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [achievement, reduceMotion, slideAnim]);
+
+  /**
+   * Captura la insignia como imagen PNG y abre la hoja de compartir del sistema.
+   * Si el dispositivo no permite compartir archivos, comparte un texto.
+   */
+  const handleShare = useCallback(async () => {
+    if (!achievement) return;
+    try {
+      if (await Sharing.isAvailableAsync()) {
+        const uri = await captureRef(badgeRef, { format: 'png', quality: 1 });
+        await Sharing.shareAsync(uri, {
+          mimeType: 'image/png',
+          dialogTitle: achievement.title,
+        });
+      } else {
+        await Share.share({ message: t('achievementDetail.shareMessage', { title: achievement.title }) });
+      }
+    } catch (error) {
+      console.error('Error sharing achievement:', error);
+    }
+  }, [achievement, t]);
+
+  if (!achievement) return null;
+
+  const rarity = RARITIES[achievement.rarity];
+  const rarityLabel = t(`rarity.${achievement.rarity}`);
+  const unit = t(requirementUnit(achievement.rule));
+  const formatUnlockDate = (timestamp: number) => formatDate(timestamp, UNLOCK_DATE_FORMAT);
+
+  return (
+    <View style={styles.overlay}>
+      {/* Pulsar fuera de la hoja la cierra */}
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+        accessibilityRole="button"
+        accessibilityLabel={t('achievementDetail.close')}
+      />
+
+      <Animated.View
+        accessibilityViewIsModal
+        style={[
+          styles.sheet,
+          {
+            transform: [
+              { translateY: slideAnim.interpolate({ inputRange: [0, 1], outputRange: [400, 0] }) },
+            ],
+          },
+        ]}
+      >
+        <View style={styles.handle} />
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Insignia que se comparte como imagen */}
+          <View ref={badgeRef} collapsable={false} style={styles.badge}>
+            <View style={[styles.badgeIconContainer, { borderColor: rarity.color }]}>
+              <Image source={achievement.icon} style={styles.badgeIcon} resizeMode="cover" fadeDuration={0} />
+            </View>
+            <Text style={styles.badgeTitle} accessibilityRole="header">{achievement.title}</Text>
+            <Text style={[styles.badgeRarity, { color: rarity.color }]}>{rarityLabel}</Text>
+          </View>
+
+          <Text style={styles.description}>{achievement.description}</Text>
+
+          {/* Los logros de pago sin suscripción explican cómo desbloquearlos */}
+          {premiumLocked && (
+            <View style={styles.premiumNotice}>
+              <Text style={styles.premiumNoticeText}>{t('achievementDetail.premiumRequired')}</Text>
+              <TouchableOpacity onPress={() => router.push('/subscription')} accessibilityRole="button">
+                <Text style={styles.premiumNoticeLink}>{t('achievementDetail.viewPlans')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Requisito y datos del logro */}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('achievementDetail.requirement')}</Text>
+            <Text style={styles.detailValue}>
+              {formatNumber(achievement.current)}/{formatNumber(achievement.target)} {unit}
+            </Text>
+          </View>
+          {/* Niveles de los logros escalonados con la fecha en que se consiguieron */}
+          {achievement.tierProgress?.map(tier => {
+            const completedAt = achievement.tierCompletedAt[tier.id];
+            return (
+              <View key={tier.id} style={styles.detailRow}>
+                <Text style={styles.detailLabel}>
+                  {TIERS[tier.id].medal} {t(`tier.${tier.id}`)} · {formatNumber(tier.target)} {unit}
+                </Text>
+                <Text style={[styles.detailValue, completedAt ? { color: TIERS[tier.id].color } : null]}>
+                  {completedAt ? `✓ ${formatUnlockDate(completedAt)}` : t('common.pointsShort', { points: tier.points })}
+                </Text>
+              </View>
+            );
+          })}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('achievementDetail.unlocked')}</Text>
+            <Text style={styles.detailValue}>
+              {achievement.completedAt ? formatUnlockDate(achievement.completedAt) : t('achievementDetail.pending')}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('achievementDetail.points')}</Text>
+            <Text style={styles.detailValue}>{t('common.pointsShort', { points: achievement.points })}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>{t('achievementDetail.rarity')}</Text>
+            <Text style={[styles.detailValue, { color: rarity.color }]}>{rarityLabel}</Text>
+          </View>
+
+          {/* Logros relacionados */}
+          {relatedAchievements.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>{t('achievementDetail.related')}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {relatedAchievements.map(related => (
+                  <AchievementCard
+                    key={related.id}
+                    variant="tile"
+                    size="small"
+                    animationIntensity="subtle"
+                    title={related.title}
+                    description={related.description}
+                    icon={related.icon}
+                    progress={related.progress}
+                    isCompleted={related.isCompleted}
+                    points={related.points}
+                    tiers={related.tierProgress}
+                    currentTier={related.currentTier}
+                    onPress={() => onSelectAchievement(related.id)}
+                    style={styles.relatedItem}
+                  />
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          {/* Acciones */}
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.shareButton} onPress={handleShare} accessibilityRole="button">
+              <Text style={styles.shareButtonText}>{t('achievementDetail.share')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose} accessibilityRole="button">
+              <Text style={styles.closeButtonText}>{t('common.close')}</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+});
+
+AchievementDetailSheet.displayName = 'AchievementDetailSheet';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  // Capa que cubre al contenedor padre y ancla la hoja abajo
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'flex-end',
+    zIndex: 900,
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: theme.overlay,
+  },
+
+  // Hoja con esquinas superiores redondeadas
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: theme.background,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.brand,
+    ...Platform.select({
+      ios: {
+        shadowColor: theme.shadow,
+        shadowOffset: { width: 0, height: -3 },
+        shadowOpacity: 0.2,
+        shadowRadius: 6,
+      },
+      android: {
+        elevation: 12,
+      },
+    }),
+  },
+  // Indicador visual de hoja deslizable
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: theme.border,
+    marginTop: 8,
+  },
+  content: {
+    padding: 20,
+  },
+
+  // Insignia compartible
+  badge: {
+    alignItems: 'center',
+    backgroundColor: theme.highlight,
+    borderRadius: 15,
+    paddingVertical: 20,
+    marginBottom: 15,
+  },
+  badgeIconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    borderWidth: 4,
+    backgroundColor: theme.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  badgeIcon: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+  },
+  badgeTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+  },
+  badgeRarity: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+  },
+
+  description: {
+    fontFamily: Fonts.nunito,
+    fontSize: 16,
+    color: theme.textMuted,
+    marginBottom: 15,
+    lineHeight: 22,
+  },
+
+  // Aviso de los logros de pago
+  premiumNotice: {
+    backgroundColor: theme.highlightSoft,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 15,
+  },
+  premiumNoticeText: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.text,
+  },
+  premiumNoticeLink: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+    color: theme.accent,
+    marginTop: 6,
+  },
+
+  // Filas de detalle etiqueta / valor
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.surface,
+  },
+  detailLabel: {
+    fontFamily: Fonts.nunito,
+    fontSize: 14,
+    color: theme.textMuted,
+  },
+  detailValue: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+    color: theme.text,
+  },
+
+  sectionTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+    marginTop: 15,
+    marginBottom: 10,
+  },
+  // Separación entre los mosaicos de logros relacionados
+  relatedItem: {
+    width: 130,
+    marginRight: 10,
+    marginBottom: 5,
+  },
+
+  // Botones de compartir y cerrar
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 20,
+  },
+  shareButton: {
+    backgroundColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 25,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: theme.accentStrong,
+    marginHorizontal: 5,
+  },
+  shareButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+  closeButton: {
+    backgroundColor: theme.surface,
+    paddingVertical: 10,
+    paddingHorizontal: 25,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: theme.border,
+    marginHorizontal: 5,
+  },
+  closeButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+  },
+});
+
+export default AchievementDetailSheet;
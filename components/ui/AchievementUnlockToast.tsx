@@ -0,0 +1,241 @@
+/**
+ * @file AchievementUnlockToast.tsx
+ * @description Aviso global de logro desbloqueado. Se monta en el layout raíz,
+ * muestra los desbloqueos de la cola de uno en uno con confeti y vibración, y al
+ * pulsarlo abre el panel de logros en el logro correspondiente.
+ */
+import React, { memo, useCallback, useEffect, useRef } from 'react';
+import { StyleSheet, View, Text, Image, TouchableOpacity, Animated, Platform, AccessibilityInfo } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import { useRouter } from 'expo-router';
+import Fonts from '../../constants/Fonts';
+import { TIERS } from '../../constants/Achievements';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { useUnlockNotifications } from '../../hooks/useUnlockNotifications';
+import { translate } from '../../services/i18n';
+import { dismissUnlockNotification, type UnlockNotification } from '../../services/unlockNotifications';
+import ConfettiBurst from './ConfettiBurst';
+
+/** Tiempo que permanece visible cada aviso, en milisegundos */
+const TOAST_DURATION = 3500;
+
+/**
+ * Texto con el que se anuncia un desbloqueo al lector de pantalla
+ * @param notification - Aviso que se muestra
+ */
+const announcementFor = (notification: UnlockNotification) => {
+  const heading = notification.tier
+    ? translate('unlockToast.tierAnnouncement', { tier: translate(`tier.${notification.tier}`), title: notification.title })
+    : translate('unlockToast.announcement', { title: notification.title });
+  return notification.points > 0
+    ? `${heading}, ${translate('common.points', { count: notification.points })}`
+    : heading;
+};
+
+/**
+ * @component AchievementUnlockToast
+ * @description Banner superior que entra desde arriba, se cierra solo tras
+ * unos segundos y da paso al siguiente aviso de la cola.
+ */
+const AchievementUnlockToast: React.FC = memo(() => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const { queue } = useUnlockNotifications();
+  const current = queue[0];
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  /** Con movimiento reducido el banner aparece y desaparece sin transición y sin confeti */
+  const reduceMotion = useReducedMotion();
+
+  /** Controla la entrada y salida del banner (0 = oculto, 1 = visible) */
+  const slideAnim = useRef(new Animated.Value(0)).current;
+  /** Cierre automático pendiente del aviso actual */
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Evita cerrar dos veces el mismo aviso (al pulsarlo y por tiempo), lo que descartaría el siguiente */
+  const hidingRef = useRef(false);
+
+  /** Oculta el banner y pasa al siguiente aviso */
+  const hide = useCallback(() => {
+    if (hidingRef.current) return;
+    hidingRef.current = true;
+    if (timerRef.current) clearTimeout(timerRef.current);
+
+    if (reduceMotion) {
+      slideAnim.setValue(0);
+      dismissUnlockNotification();
+      return;
+    }
+    Animated.timing(slideAnim, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(({ finished }) => {
+      // Si la animación se interrumpe es porque ya se está mostrando otro aviso
+      if (finished) dismissUnlockNotification();
+    });
+  }, [slideAnim, reduceMotion]);
+
+  useEffect(() => {
+    if (!current) return;
+    hidingRef.current = false;
+
+    if (reduceMotion) {
+      slideAnim.setValue(1);
+    } else {
+      slideAnim.setValue(0);
+      Animated.spring(slideAnim, {
+        toValue: 1,
+        friction: 7,
+        tension: 60,
+        useNativeDriver: true,
+      }).start();
+    }
+    // Anuncia el desbloqueo al lector de pantalla aunque el foco esté en otro sitio
+    AccessibilityInfo.announceForAccessibility(announcementFor(current));
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {
+      // La vibración es opcional: algunos dispositivos no la admiten
+    });
+
+    const timer = setTimeout(hide, TOAST_DURATION);
+    timerRef.current = timer;
+    return () => clearTimeout(timer);
+  }, [current, reduceMotion, slideAnim, hide]);
+
+  /** Abre el panel de logros en el logro del aviso */
+  const handlePress = useCallback(() => {
+    if (!current || hidingRef.current) return;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    router.push(`/achievements/${current.achievementId}`);
+    hide();
+  }, [current, hide, router]);
+
+  if (!current) return null;
+
+  const tier = current.tier ? TIERS[current.tier] : null;
+
+  return (
+    <View pointerEvents="box-none" style={[styles.overlay, { paddingTop: insets.top + 10 }]}>
+      {!reduceMotion && <ConfettiBurst burstKey={current.key} />}
+
+      <Animated.View
+        style={{
+          opacity: slideAnim,
+          transform: [{ translateY: slideAnim.interpolate({ inputRange: [0, 1], outputRange: [-120, 0] }) }],
+        }}
+      >
+        <TouchableOpacity
+          style={styles.toast}
+          activeOpacity={0.9}
+          onPress={handlePress}
+          accessibilityRole="button"
+          accessibilityLabel={announcementFor(current)}
+          accessibilityHint={t('unlockToast.hint')}
+          accessibilityLiveRegion="polite"
+        >
+          <View style={[styles.iconContainer, tier && { borderColor: tier.color }]}>
+            <Image source={current.icon} style={styles.icon} resizeMode="cover" fadeDuration={0} />
+          </View>
+          <View style={styles.content}>
+            <Text style={styles.heading}>
+              {current.tier && tier
+                ? t('unlockToast.tierHeading', { medal: tier.medal, tier: t(`tier.${current.tier}`) })
+                : t('unlockToast.heading')}
+            </Text>
+            <Text style={styles.title} numberOfLines={1}>
+              {current.title}
+            </Text>
+          </View>
+          {current.points > 0 && (
+            <View style={styles.pointsContainer}>
+              <Text style={styles.pointsText}>{t('unlockToast.pointsGained', { points: current.points })}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </Animated.View>
+    </View>
+  );
+});
+
+AchievementUnlockToast.displayName = 'AchievementUnlockToast';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  // Capa superior que no bloquea los toques fuera del banner
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 260,
+    paddingHorizontal: 15,
+    zIndex: 2000,
+  },
+
+  // Banner del aviso
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.highlight,
+    borderRadius: 15,
+    borderWidth: 2,
+    borderColor: theme.brand,
+    padding: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: theme.shadow,
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.3,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 10,
+      },
+    }),
+  },
+  iconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 2,
+    borderColor: theme.accent,
+    backgroundColor: theme.background,
+    overflow: 'hidden',
+    marginRight: 12,
+  },
+  icon: {
+    width: '100%',
+    height: '100%',
+  },
+  content: {
+    flex: 1,
+  },
+  heading: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+    color: theme.brand,
+  },
+  title: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+  },
+  pointsContainer: {
+    backgroundColor: theme.accent,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginLeft: 8,
+  },
+  pointsText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 12,
+    color: theme.onAccent,
+  },
+});
+
+export default AchievementUnlockToast;
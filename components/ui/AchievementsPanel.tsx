@@ -1,71 +1,58 @@
 /**
  * @fileoverview Panel de logros que muestra los logros del usuario organizados por categorías,
- * con animaciones de entrada, filtrado por categorías, y estadísticas generales.
+ * con animaciones de entrada, filtrado por categorías, búsqueda, ordenación, vista
+ * agrupada por categoría y estadísticas generales.
  * 
  * Este componente proporciona una interfaz interactiva para visualizar el progreso
  * del usuario en diferentes categorías de logros, con efectos visuales atractivos
  * y animaciones fluidas para mejorar la experiencia del usuario.
  */
 
-import React, { useState, useEffect, useRef, memo, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useRef, memo, useMemo, useCallback } from 'react';
 import {
   StyleSheet,
   View,
   Text,
+  TextInput,
   ScrollView,
+  SectionList,
   TouchableOpacity,
   Animated,
-  Dimensions,
   Platform,
-  Image,
   Easing,
+  AccessibilityInfo,
+  findNodeHandle,
+  type ViewToken,
 } from 'react-native';
-import { Colors } from '../../constants/Colors';
+import { ACHIEVEMENT_CATEGORIES } from '../../constants/Achievements';
 import Fonts from '../../constants/Fonts';
-import AchievementCardEnhanced from './AchievementCardEnhanced';
-
-// Importamos imágenes para usar como iconos de logros
-// Optimizamos las importaciones para mejorar el rendimiento
-import CapybaraFront from '../../assets/images/capybara-front.png';
-import CapybaraProfile from '../../assets/images/capybara-profile1.png';
-import CapybaraGafas from '../../assets/images/capybara-gafas.jpg';
-import CapybaraGorro from '../../assets/images/capybara-gorro.jpg';
-import CapybaraSombrero from '../../assets/images/capybara-sombrero.jpg';
-import CapybaraVerano from '../../assets/images/capybara-verano.jpg';
-
-// Componente optimizado para imágenes de logros
-const OptimizedImage = memo(({ source, style }) => (
-  <Image 
-    source={source} 
-    style={style}
-    resizeMode="cover"
-    fadeDuration={0}
-    progressiveRenderingEnabled={true}
-  />
-));
-
-/**
- * @interface Achievement
- * @description Define la estructura de un logro en la aplicación
- */
-interface Achievement {
-  /** Identificador único del logro */
-  id: string;
-  /** Título descriptivo del logro */
-  title: string;
-  /** Descripción detallada del logro y cómo completarlo */
-  description: string;
-  /** Referencia al icono que representa visualmente el logro */
-  icon: any;
-  /** Valor numérico entre 0 y 1 que representa el progreso actual */
-  progress: number;
-  /** Indica si el logro ha sido completado */
-  isCompleted: boolean;
-  /** Categoría a la que pertenece el logro */
-  category: string;
-  /** Cantidad de puntos que otorga al completarse */
-  points: number;
-}
+import { PROGRESSION } from '../../constants/Progression';
+import { useAchievements } from '../../hooks/useAchievements';
+import { useAchievementViewPrefs } from '../../hooks/useAchievementViewPrefs';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useSubscription } from '../../hooks/useSubscription';
+import { useTheme, useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { countAchievements, hasUnlockedTier, isRevealed } from '../../services/achievementEngine';
+import {
+  groupAchievementsByCategory,
+  searchAchievements,
+  sortAchievements,
+  type AchievementSection,
+} from '../../services/achievementQuery';
+import {
+  isPremiumLocked,
+  markAchievementRevealed,
+  markLevelCelebrated,
+  type UnlockedAchievement,
+} from '../../services/achievementStore';
+import { SORT_MODES, SPECIAL_FILTERS, updateAchievementViewPrefs } from '../../services/achievementViewPrefs';
+import { getLevelProgress, getRewardsBetween } from '../../services/progression';
+import { hasPremiumFeature } from '../../services/subscription';
+import AchievementCard from './AchievementCard';
+import AchievementDetailSheet from './AchievementDetailSheet';
+import LevelProgressBar from './LevelProgressBar';
+import LevelUpOverlay from './LevelUpOverlay';
 
 /**
  * @interface AchievementsPanelProps
@@ -76,8 +63,58 @@ interface AchievementsPanelProps {
   onClose?: () => void;
   /** Estilos adicionales para personalizar la apariencia del panel */
   style?: object;
+  /** Si es true, los logros secretos sin desbloquear cuentan en el total de "Completados" */
+  countHiddenAchievements?: boolean;
+  /**
+   * Catálogo a mostrar en lugar del almacén de logros (p. ej. el catálogo sintético
+   * de la pantalla de rendimiento). Con un catálogo propio no se celebran subidas
+   * de nivel ni se guardan revelados.
+   */
+  catalog?: UnlockedAchievement[];
+  /** Logro hasta el que se desplaza la lista al abrir el panel (p. ej. desde un aviso de desbloqueo) */
+  focusAchievementId?: string | null;
+  /** Función que se ejecuta cuando la lista ya se ha desplazado hasta focusAchievementId */
+  onFocusHandled?: () => void;
 }
 
+/**
+ * Busca la sección y la posición dentro de ella de un logro
+ * @returns La ubicación para scrollToLocation, o null si el logro no está en la lista
+ */
+const findLocation = (sections: AchievementSection[], id: string | null) => {
+  const sectionIndex = sections.findIndex(section => section.data.some(achievement => achievement.id === id));
+  if (sectionIndex === -1) return null;
+  return {
+    sectionIndex,
+    itemIndex: sections[sectionIndex].data.findIndex(achievement => achievement.id === id),
+    viewPosition: 0.3,
+  };
+};
+
+/** Formato del porcentaje de completado de cada categoría */
+const PERCENT_FORMAT: Intl.NumberFormatOptions = { style: 'percent', maximumFractionDigits: 0 };
+
+/** Porcentaje visible de una tarjeta para considerarla en pantalla */
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 10 };
+
+/**
+ * Contador de puntos que sigue al valor animado y lo muestra con los
+ * separadores del idioma activo. Solo se vuelve a renderizar el contador.
+ */
+const AnimatedPoints = memo(({ value, style }: { value: Animated.Value; style: object }) => {
+  const { formatNumber } = useTranslation();
+  const [points, setPoints] = useState(0);
+
+  useEffect(() => {
+    const id = value.addListener(({ value: current }) => setPoints(Math.round(current)));
+    return () => value.removeListener(id);
+  }, [value]);
+
+  return <Text style={style}>{formatNumber(points)}</Text>;
+});
+
+AnimatedPoints.displayName = 'AnimatedPoints';
+
 /**
  * @component AchievementsPanel
  * @description Componente que muestra los logros del usuario organizados por categorías,
@@ -85,80 +122,96 @@ interface AchievementsPanelProps {
  * Permite al usuario visualizar su progreso y filtrar logros por diferentes criterios.
  * Optimizado con memo para evitar renderizados innecesarios.
  */
-const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, style }) => {
-  /** 
-   * Estado para los logros (datos simulados para demostración)
-   * En una implementación real, estos datos vendrían de una API o base de datos
-   */
-  const [achievements, setAchievements] = useState<Achievement[]>([
-    {
-      id: '1',
-      title: 'Primer Día',
-      description: 'Completa tu primer día de aprendizaje',
-      icon: CapybaraFront,
-      progress: 1,
-      isCompleted: true,
-      category: 'básico',
-      points: 10,
-    },
-    {
-      id: '2',
-      title: 'Racha de 7 días',
-      description: 'Mantén una racha de aprendizaje de 7 días',
-      icon: CapybaraProfile,
-      progress: 0.7,
-      isCompleted: false,
-      category: 'constancia',
-      points: 50,
-    },
-    {
-      id: '3',
-      title: 'Vocabulario Experto',
-      description: 'Aprende 100 palabras nuevas',
-      icon: CapybaraGafas,
-      progress: 0.45,
-      isCompleted: false,
-      category: 'vocabulario',
-      points: 100,
-    },
-    {
-      id: '4',
-      title: 'Maestro Conversador',
-      description: 'Completa 20 conversaciones prácticas',
-      icon: CapybaraGorro,
-      progress: 0.9,
-      isCompleted: false,
-      category: 'conversación',
-      points: 150,
-    },
-    {
-      id: '5',
-      title: 'Gramática Perfecta',
-      description: 'Obtén 10 puntuaciones perfectas en ejercicios de gramática',
-      icon: CapybaraSombrero,
-      progress: 0.3,
-      isCompleted: false,
-      category: 'gramática',
-      points: 200,
-    },
-    {
-      id: '6',
-      title: 'Explorador Cultural',
-      description: 'Completa todas las lecciones culturales del nivel básico',
-      icon: CapybaraVerano,
-      progress: 1,
-      isCompleted: true,
-      category: 'cultura',
-      points: 250,
+const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({
+  onClose,
+  style,
+  countHiddenAchievements = false,
+  catalog,
+  focusAchievementId = null,
+  onFocusHandled,
+}) => {
+  /** Colores y estilos del tema claro u oscuro activo */
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatNumber, locale } = useTranslation();
+
+  /**
+   * Logros evaluados por el motor de logros a partir de los eventos registrados
+   * en el almacén (ver services/achievementStore). El almacén persistido se carga al montar el panel y conserva el historial
+   * de desbloqueos entre sesiones
+   */
+  const store = useAchievements();
+  const { state: achievementsState, loaded } = store;
+  const achievements = catalog ?? store.achievements;
+
+  /** Los logros de pago se marcan como bloqueados si la suscripción no los incluye */
+  const { entitlement } = useSubscription();
+  const hasPremium = hasPremiumFeature('premiumAchievements', entitlement);
+
+  /**
+   * Logros visibles en la lista. Las tarjetas fuera de pantalla pausan sus
+   * animaciones en bucle para no consumir recursos con catálogos grandes
+   */
+  const [visibleIds, setVisibleIds] = useState<Set<string>>(() => new Set());
+  const handleViewableItemsChanged = useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<UnlockedAchievement>[] }) => {
+      setVisibleIds(new Set(viewableItems.map(token => token.item.id)));
     },
-  ]);
+    []
+  );
+
+  /** Identificador del logro abierto en la hoja de detalle, o null si está cerrada */
+  const [selectedId, setSelectedId] = useState<string | null>(null);
 
-  /** Estado que controla el filtro de categoría actualmente seleccionado */
-  const [activeFilter, setActiveFilter] = useState('todos');
+  /** Logro seleccionado y sus logros relacionados, para la hoja de detalle */
+  const selectedAchievement = useMemo(
+    () => achievements.find(achievement => achievement.id === selectedId) ?? null,
+    [achievements, selectedId]
+  );
+  // Los logros secretos sin desbloquear no se sugieren para no desvelarlos
+  const relatedAchievements = useMemo(
+    () =>
+      achievements.filter(
+        achievement => selectedAchievement?.related?.includes(achievement.id) && isRevealed(achievement)
+      ),
+    [achievements, selectedAchievement]
+  );
+
+  /** Fracción de logros completados que se muestra en las estadísticas */
+  const completedCount = useMemo(
+    () => countAchievements(achievements, { includeHidden: countHiddenAchievements }),
+    [achievements, countHiddenAchievements]
+  );
+
+  /**
+   * Filtro, búsqueda, ordenación y agrupación activos
+   * Se guardan en las preferencias para conservarlos al volver a abrir el panel
+   */
+  const { prefs } = useAchievementViewPrefs();
+  const { filter: activeFilter, query, sortMode, grouped } = prefs;
   
+  /**
+   * Si el sistema o el interruptor "Animaciones" piden reducir el movimiento,
+   * el panel aparece sin transiciones y los contadores se actualizan al instante
+   */
+  const reduceMotion = useReducedMotion();
+
   /** Estado que almacena la suma total de puntos de los logros completados */
   const [totalPoints, setTotalPoints] = useState(0);
 
+  /**
+   * Nivel, título y XP dentro del nivel según la curva de progresión
+   * Los puntos otorgados por los logros cuentan como experiencia
+   */
+  const levelProgress = useMemo(() => getLevelProgress(totalPoints, PROGRESSION), [totalPoints]);
+
+  /** Se celebra la subida de nivel si el nivel actual supera el último celebrado */
+  const showLevelUp = !catalog && loaded && levelProgress.level > achievementsState.celebratedLevel;
+  const levelUpRewards = useMemo(
+    () => getRewardsBetween(achievementsState.celebratedLevel, levelProgress.level, PROGRESSION),
+    [achievementsState.celebratedLevel, levelProgress.level]
+  );
+
   /** 
    * Referencias a valores de animación
    * Estas referencias persisten entre renderizados y controlan las animaciones del componente
@@ -178,23 +231,30 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
   useEffect(() => {
     // Filtra los logros completados y calcula los puntos en una sola iteración
     // para mejorar el rendimiento
+    // Se usan los puntos otorgados al desbloquear, que quedan guardados en el historial
     let points = 0;
     for (let i = 0; i < achievements.length; i++) {
-      if (achievements[i].isCompleted) {
-        points += achievements[i].points;
-      }
+      points += achievements[i].pointsAwarded;
     }
     
+    // Actualiza el estado con el nuevo total de puntos
+    setTotalPoints(points);
+
+    // Con movimiento reducido el contador muestra directamente el total
+    if (reduceMotion) {
+      progressAnim.setValue(points);
+      return;
+    }
+
     // Anima el contador de puntos con una transición suave
-    Animated.timing(progressAnim, {
+    const animation = Animated.timing(progressAnim, {
       toValue: points,
       duration: 800, // Duración reducida para mejor rendimiento
       useNativeDriver: false, // No puede usar el driver nativo porque anima un valor numérico
-    }).start();
-    
-    // Actualiza el estado con el nuevo total de puntos
-    setTotalPoints(points);
-  }, [achievements]); // Eliminamos progressAnim de las dependencias para evitar re-ejecuciones
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [achievements, reduceMotion]); // Eliminamos progressAnim de las dependencias para evitar re-ejecuciones
 
   /**
    * Efecto para animar la entrada del panel
@@ -203,8 +263,16 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
    * Optimizado para mejor rendimiento
    */
   useEffect(() => {
+    // Con movimiento reducido el panel aparece directamente en su estado final
+    if (reduceMotion) {
+      fadeAnim.setValue(1);
+      slideAnim.setValue(1);
+      progressAnim.setValue(totalPoints);
+      return;
+    }
+
     // Secuencia de animaciones para una entrada más dinámica
-    Animated.sequence([
+    const entrance = Animated.sequence([
       // Primero aparece con fade in (aumenta gradualmente la opacidad)
       Animated.timing(fadeAnim, {
         toValue: 1, // Valor final de opacidad (totalmente visible)
@@ -218,85 +286,137 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
         tension: 40, // Controla la velocidad de la animación (mayor valor = más rápido)
         useNativeDriver: true, // Usa el driver nativo para mejor rendimiento
       }),
-    ]).start();
+    ]);
 
     // Anima el contador de puntos con un efecto de rebote para hacerlo más dinámico
-    Animated.timing(progressAnim, {
+    const counter = Animated.timing(progressAnim, {
       toValue: totalPoints, // Anima hasta el valor actual de puntos totales
       duration: 1000, // Duración reducida para mejor rendimiento
       easing: Easing.out(Easing.bounce), // Efecto de rebote al final de la animación
       useNativeDriver: false, // No puede usar el driver nativo porque anima un valor numérico
-    }).start();
+    });
+
+    entrance.start();
+    counter.start();
+    // Detiene las animaciones si el panel se desmonta antes de que terminen
+    return () => {
+      entrance.stop();
+      counter.stop();
+    };
     // Eliminamos dependencias innecesarias para evitar re-ejecuciones
-  }, [totalPoints]);
+  }, [totalPoints, reduceMotion]);
+
+  /** Referencia al título, que recibe el foco del lector de pantalla al abrir el panel */
+  const titleRef = useRef<Text>(null);
+  /** Espera antes de mover el foco, fijada al montar para no repetirlo si cambia el ajuste de movimiento */
+  const focusDelayRef = useRef(reduceMotion ? 0 : 300);
+
+  /**
+   * Efecto para llevar el foco del lector de pantalla al título del panel
+   * Así la lectura empieza por el panel y no por lo que quedó detrás
+   */
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const node = findNodeHandle(titleRef.current);
+      if (node) AccessibilityInfo.setAccessibilityFocus(node);
+    }, focusDelayRef.current);
+    return () => clearTimeout(timer);
+  }, []);
+
+  /** Categorías con su nombre en el idioma activo, para los filtros y las secciones */
+  const categoryOptions = useMemo(
+    () => ACHIEVEMENT_CATEGORIES.map(id => ({ id, name: t(`category.${id}`) })),
+    [t]
+  );
 
   /**
    * Filtra los logros según la categoría seleccionada en el estado activeFilter
-   * Aplica diferentes criterios de filtrado según el valor del filtro activo
+   * y el texto de búsqueda, y los ordena según el modo elegido
    * Memorizado para evitar recálculos innecesarios
    */
   const filteredAchievements = useMemo(() => {
-    return achievements.filter(achievement => {
-      if (activeFilter === 'todos') return true; // Muestra todos los logros
-      if (activeFilter === 'completados') return achievement.isCompleted; // Solo muestra completados
-      if (activeFilter === 'pendientes') return !achievement.isCompleted; // Solo muestra pendientes
+    const byFilter = achievements.filter(achievement => {
+      if (activeFilter === 'all') return true; // Muestra todos los logros
+      // Los logros escalonados cuentan como completados desde su primer nivel
+      // y siguen pendientes hasta conseguir el último
+      if (activeFilter === 'completed') return hasUnlockedTier(achievement);
+      if (activeFilter === 'pending') return !achievement.isCompleted; // Solo muestra pendientes
       return achievement.category === activeFilter; // Filtra por categoría específica
     });
-  }, [achievements, activeFilter]); // Solo recalcula cuando cambian los logros o el filtro
+    return sortAchievements(searchAchievements(byFilter, query), sortMode, locale);
+  }, [achievements, activeFilter, query, sortMode, locale]); // Solo recalcula cuando cambian los logros o la vista
+
+  /**
+   * Secciones de la lista: una por categoría en la vista agrupada,
+   * o una única sección sin encabezado en la vista normal
+   */
+  const sections = useMemo<AchievementSection[]>(() => {
+    if (grouped) {
+      return groupAchievementsByCategory(
+        filteredAchievements,
+        categoryOptions,
+        achievements,
+        countHiddenAchievements
+      );
+    }
+    return filteredAchievements.length > 0
+      ? [{ id: 'all', title: '', completion: 0, data: filteredAchievements }]
+      : [];
+  }, [grouped, filteredAchievements, categoryOptions, achievements, countHiddenAchievements]);
+
+  /** Referencia a la lista, para desplazarla hasta un logro */
+  const listRef = useRef<SectionList<UnlockedAchievement, AchievementSection>>(null);
+
+  /**
+   * Efecto para desplazar la lista hasta el logro pedido
+   * Si el filtro o la búsqueda actuales lo ocultan, se restablecen primero
+   */
+  useEffect(() => {
+    if (!focusAchievementId || !achievements.some(achievement => achievement.id === focusAchievementId)) return;
+
+    const location = findLocation(sections, focusAchievementId);
+    if (!location) {
+      updateAchievementViewPrefs({ filter: 'all', query: '' });
+      return;
+    }
+
+    // Se espera a que termine la animación de entrada del panel
+    const timer = setTimeout(() => {
+      listRef.current?.scrollToLocation({ ...location, animated: !reduceMotion });
+      onFocusHandled?.();
+    }, reduceMotion ? 0 : 400);
+    return () => clearTimeout(timer);
+  }, [focusAchievementId, achievements, sections, onFocusHandled, reduceMotion]);
+
+  /**
+   * Si la tarjeta pedida aún no se ha montado, la lista no conoce su posición:
+   * se desplaza hasta la posición estimada y se vuelve a intentar
+   */
+  const handleScrollToIndexFailed = useCallback(
+    (info: { index: number; averageItemLength: number }) => {
+      listRef.current?.getScrollResponder()?.scrollTo({ y: info.averageItemLength * info.index, animated: false });
+      setTimeout(() => {
+        const location = findLocation(sections, focusAchievementId);
+        if (location) listRef.current?.scrollToLocation(location);
+      }, 100);
+    },
+    [sections, focusAchievementId]
+  );
+
+  /** Pasa al siguiente modo de ordenación */
+  const cycleSortMode = () => {
+    const next = SORT_MODES[(SORT_MODES.indexOf(sortMode) + 1) % SORT_MODES.length];
+    updateAchievementViewPrefs({ sortMode: next });
+  };
 
   /** Lista de categorías disponibles para filtrar los logros
    * Incluye filtros especiales (todos, completados, pendientes) y categorías específicas
    * Memorizado para evitar recreaciones innecesarias
    */
   const categories = useMemo(() => [
-    { id: 'todos', name: 'Todos' },
-    { id: 'completados', name: 'Completados' },
-    { id: 'pendientes', name: 'Pendientes' },
-    { id: 'básico', name: 'Básicos' },
-    { id: 'constancia', name: 'Constancia' },
-    { id: 'vocabulario', name: 'Vocabulario' },
-    { id: 'conversación', name: 'Conversación' },
-    { id: 'gramática', name: 'Gramática' },
-    { id: 'cultura', name: 'Cultura' },
-  ], []); // Array vacío porque las categorías son estáticas
-
-  /**
-   * Función para manejar la pulsación en un logro
-   * Simula la actualización del progreso y la detección de completado
-   * En una implementación real, esto podría conectarse a una API
-   * @param id - Identificador único del logro que se ha pulsado
-   * Optimizada con useCallback para evitar recreaciones innecesarias
-   */
-  const handleAchievementPress = useCallback((id: string) => {
-    setAchievements(prevAchievements => {
-      return prevAchievements.map(achievement => {
-        if (achievement.id === id) {
-          // Si ya está completado, no hacemos cambios
-          if (achievement.isCompleted) return achievement;
-          
-          // Incrementamos el progreso en un 20% cada vez que se pulsa
-          let newProgress = achievement.progress + 0.2;
-          
-          // Verificamos si el logro se ha completado con este incremento
-          if (newProgress >= 1) {
-            newProgress = 1; // Aseguramos que no supere el 100%
-            return {
-              ...achievement,
-              progress: newProgress,
-              isCompleted: true // Marcamos como completado
-            };
-          }
-          
-          // Si no está completado, solo actualizamos el progreso
-          return {
-            ...achievement,
-            progress: newProgress
-          };
-        }
-        return achievement; // Devolvemos sin cambios los demás logros
-      });
-    });
-  }, []);
+    ...SPECIAL_FILTERS.map(id => ({ id, name: t(`achievementFilter.${id}`) })),
+    ...categoryOptions,
+  ], [categoryOptions, t]); // Solo cambia con el idioma
 
   /**
    * Interpolaciones para las animaciones
@@ -327,17 +447,6 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
     });
   }, [slideAnim]);
 
-  /** 
-   * Interpolación para la animación del contador de puntos
-   * Transforma el valor de progressAnim en el número actual de puntos
-   */
-  const animatedPoints = useMemo(() => {
-    return progressAnim.interpolate({
-      inputRange: [0, totalPoints], // Rango desde 0 hasta el total de puntos
-      outputRange: [0, totalPoints], // Rango de salida igual al de entrada
-    });
-  }, [progressAnim, totalPoints]); // Recalcula cuando cambia totalPoints
-
   return (
     <Animated.View
       style={[
@@ -354,11 +463,11 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
     >
       {/* Encabezado del panel con título y botón de cierre */}
       <View style={styles.header}>
-        <Text style={styles.title}>Mis Logros</Text>
+        <Text ref={titleRef} style={styles.title} accessibilityRole="header">{t('achievements.title')}</Text>
         <TouchableOpacity 
           style={styles.closeButton} 
           onPress={onClose} // Ejecuta la función onClose pasada como prop
-          accessibilityLabel="Cerrar panel de logros"
+          accessibilityLabel={t('achievements.close')}
         >
           <Text style={styles.closeButtonText}>×</Text>
         </TouchableOpacity>
@@ -367,44 +476,92 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
       {/* Sección de estadísticas con información resumida de logros */}
       <View style={styles.statsContainer}>
         {/* Estadística: Logros completados */}
-        <View style={styles.statItem}>
-          <Text style={styles.statLabel}>Completados</Text>
+        <View
+          style={styles.statItem}
+          accessible
+          accessibilityLabel={t('achievements.completedLabel', completedCount)}
+        >
+          <Text style={styles.statLabel}>{t('achievements.completed')}</Text>
           <Text style={styles.statValue}>
             {/* Muestra la fracción de logros completados */}
-            {achievements.filter(a => a.isCompleted).length}/{achievements.length}
+            {completedCount.completed}/{completedCount.total}
           </Text>
         </View>
         
-        {/* Estadística: Puntos totales con animación */}
-        <View style={styles.statItem}>
-          <Text style={styles.statLabel}>Puntos</Text>
-          <Animated.Text style={styles.statValue}>
-            {/* Interpolación para animar el contador de puntos */}
-            {animatedPoints.interpolate({
-              inputRange: [0, totalPoints],
-              // Convierte los valores numéricos a strings para mostrarlos
-              outputRange: [0, totalPoints].map(v => Math.round(v).toString()),
-            })}
-          </Animated.Text>
+        {/* Estadística: Puntos totales con animación; el lector de pantalla lee el total final */}
+        <View
+          style={styles.statItem}
+          accessible
+          accessibilityLabel={t('achievements.pointsLabel', { points: totalPoints })}
+        >
+          <Text style={styles.statLabel}>{t('achievements.points')}</Text>
+          {/* Contador de puntos animado */}
+          <AnimatedPoints value={progressAnim} style={styles.statValue} />
         </View>
         
         {/* Estadística: Nivel calculado a partir de los puntos */}
-        <View style={styles.statItem}>
-          <Text style={styles.statLabel}>Nivel</Text>
+        <View style={styles.statItem} accessible accessibilityLabel={t('achievements.levelLabel', { level: levelProgress.level })}>
+          <Text style={styles.statLabel}>{t('achievements.level')}</Text>
           <Text style={styles.statValue}>
-            {/* Calcula el nivel dividiendo los puntos entre 100 y sumando 1 */}
-            {Math.floor(totalPoints / 100) + 1}
+            {/* Nivel calculado con la curva de progresión */}
+            {levelProgress.level}
           </Text>
         </View>
       </View>
 
+      {/* Barra de progreso del nivel con el título actual */}
+      <LevelProgressBar levelProgress={levelProgress} />
+
+      {/* Búsqueda por título y descripción */}
+      <View style={styles.searchContainer}>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={text => updateAchievementViewPrefs({ query: text })}
+          placeholder={t('achievements.search')}
+          placeholderTextColor={theme.textSubtle}
+          autoCorrect={false}
+          returnKeyType="search"
+          accessibilityLabel={t('achievements.search')}
+        />
+        {query.length > 0 && (
+          <TouchableOpacity
+            style={styles.clearSearchButton}
+            onPress={() => updateAchievementViewPrefs({ query: '' })}
+            accessibilityLabel={t('achievements.clearSearch')}
+          >
+            <Text style={styles.clearSearchText}>×</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Ordenación y vista agrupada */}
+      <View style={styles.toolbar}>
+        <TouchableOpacity
+          style={styles.toolbarButton}
+          onPress={cycleSortMode}
+          accessibilityLabel={t('achievements.sortBy', { mode: t(`achievementSort.${sortMode}`) })}
+        >
+          <Text style={styles.toolbarText}>↕ {t(`achievementSort.${sortMode}`)}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.toolbarButton, grouped && styles.activeFilterButton]}
+          onPress={() => updateAchievementViewPrefs({ grouped: !grouped })}
+          accessibilityLabel={t('achievements.groupLabel')}
+          accessibilityState={{ selected: grouped }}
+        >
+          <Text style={[styles.toolbarText, grouped && styles.activeFilterText]}>{t('achievements.group')}</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Barra de filtros horizontal con scroll */}
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false} // Oculta la barra de scroll horizontal
         style={styles.filtersContainer}
         contentContainerStyle={styles.filtersContent}
-        accessibilityLabel="Filtros de categorías de logros"
+        accessibilityLabel={t('achievements.filtersLabel')}
+        accessibilityRole="tablist"
       >
         {/* Mapea todas las categorías disponibles para crear botones de filtro */}
         {categories.map(category => (
@@ -415,8 +572,9 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
               // Aplica estilo adicional si este filtro está activo
               activeFilter === category.id && styles.activeFilterButton,
             ]}
-            onPress={() => setActiveFilter(category.id)} // Actualiza el filtro activo
-            accessibilityLabel={`Filtrar por ${category.name}`}
+            onPress={() => updateAchievementViewPrefs({ filter: category.id })} // Actualiza el filtro activo
+            accessibilityRole="tab"
+            accessibilityLabel={category.name}
             accessibilityState={{ selected: activeFilter === category.id }}
           >
             <Text
@@ -432,75 +590,131 @@ const AchievementsPanel: React.FC<AchievementsPanelProps> = memo(({ onClose, sty
         ))}
       </ScrollView>
 
-      {/* Contenedor principal de la lista de logros con scroll vertical */}
-      <ScrollView
+      {/* Lista de logros con scroll vertical; en la vista agrupada cada categoría
+          tiene un encabezado fijo con su porcentaje de completado */}
+      <SectionList<UnlockedAchievement, AchievementSection>
+        ref={listRef}
+        sections={sections}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        keyExtractor={achievement => achievement.id}
+        stickySectionHeadersEnabled={grouped}
+        // Virtualización: solo se montan las tarjetas cercanas a la zona visible
+        initialNumToRender={8}
+        maxToRenderPerBatch={8}
+        windowSize={7}
+        removeClippedSubviews={Platform.OS === 'android'}
+        viewabilityConfig={VIEWABILITY_CONFIG}
+        onViewableItemsChanged={handleViewableItemsChanged}
         showsVerticalScrollIndicator={false} // Oculta la barra de scroll vertical
         style={styles.achievementsContainer}
         contentContainerStyle={styles.achievementsContent}
-        accessibilityLabel="Lista de logros"
-      >
-        {/* Renderizado condicional: muestra logros o mensaje de vacío */}
-        {filteredAchievements.length > 0 ? (
-          // Mapea los logros filtrados para mostrarlos
-          filteredAchievements.map((achievement, index) => (
-            <Animated.View
-              key={achievement.id}
-              style={{
-                opacity: fadeAnim, // Animación de opacidad
-                // Animación de entrada escalonada según el índice del logro
-                transform: [{ 
-                  translateY: Animated.multiply(
-                    fadeAnim, 
-                    Animated.add(0, Animated.multiply(-20, new Animated.Value(index)))
-                  ) 
-                }],
-              }}
+        accessibilityLabel={t('achievements.listLabel')}
+        renderSectionHeader={({ section }) =>
+          grouped ? (
+            <View
+              style={styles.sectionHeader}
+              accessible
+              accessibilityRole="header"
+              accessibilityLabel={`${section.title}, ${t('common.percentComplete', {
+                percent: formatNumber(section.completion, PERCENT_FORMAT),
+              })}`}
             >
-              {/* Componente de tarjeta de logro mejorada */}
-              <AchievementCardEnhanced
-                key={achievement.id}
-                title={achievement.title}
-                description={achievement.description}
-                icon={achievement.icon}
-                progress={achievement.progress}
-                isCompleted={achievement.isCompleted}
-                points={achievement.points}
-                onPress={() => handleAchievementPress(achievement.id)} // Maneja la pulsación
-              />
-            </Animated.View>
-          ))
-        ) : (
-          // Mensaje cuando no hay logros que mostrar en la categoría seleccionada
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              <Text style={styles.sectionCompletion}>{formatNumber(section.completion, PERCENT_FORMAT)}</Text>
+            </View>
+          ) : null
+        }
+        renderItem={({ item: achievement, index }) => (
+          <Animated.View
+            style={{
+              opacity: fadeAnim, // Animación de opacidad
+              // Animación de entrada escalonada según el índice del logro; solo las
+              // primeras tarjetas se desplazan, el resto se monta ya en su sitio
+              transform: [{
+                translateY: fadeAnim.interpolate({
+                  inputRange: [0, 1],
+                  outputRange: [20 * Math.min(index, 8), 0],
+                }),
+              }],
+            }}
+          >
+            {/* Tarjeta del logro; los secretos sin desbloquear se muestran bloqueados */}
+            <AchievementCard
+              title={achievement.title}
+              description={achievement.description}
+              icon={achievement.icon}
+              progress={achievement.progress}
+              isCompleted={achievement.isCompleted}
+              points={achievement.points}
+              tiers={achievement.tierProgress}
+              currentTier={achievement.currentTier}
+              premiumLocked={isPremiumLocked(achievement, hasPremium)}
+              variant={isRevealed(achievement) ? 'full' : 'locked'}
+              // Los logros secretos se revelan con una animación la primera vez que se ven desbloqueados
+              revealing={
+                !catalog &&
+                achievement.visibility === 'hidden' &&
+                isRevealed(achievement) &&
+                !achievementsState.revealedSecrets.includes(achievement.id)
+              }
+              onRevealed={() => markAchievementRevealed(achievement.id)}
+              animationsActive={visibleIds.has(achievement.id)}
+              onPress={() => setSelectedId(achievement.id)} // Abre la hoja de detalle
+            />
+          </Animated.View>
+        )}
+        ListEmptyComponent={
+          // Mensaje cuando no hay logros que mostrar con el filtro o la búsqueda actuales
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>
-              No hay logros en esta categoría
+              {query.trim() ? t('achievements.emptySearch') : t('achievements.emptyCategory')}
             </Text>
           </View>
-        )}
-      </ScrollView>
+        }
+      />
+
+      {/* Hoja de detalle del logro seleccionado */}
+      <AchievementDetailSheet
+        achievement={selectedAchievement}
+        relatedAchievements={relatedAchievements}
+        premiumLocked={!!selectedAchievement && isPremiumLocked(selectedAchievement, hasPremium)}
+        onSelectAchievement={setSelectedId}
+        onClose={() => setSelectedId(null)}
+      />
+
+      {/* Celebración de subida de nivel */}
+      <LevelUpOverlay
+        visible={showLevelUp}
+        level={levelProgress.level}
+        title={levelProgress.title}
+        rewards={levelUpRewards}
+        onClose={() => markLevelCelebrated(levelProgress.level)}
+      />
     </Animated.View>
   );
 });
 
+AchievementsPanel.displayName = 'AchievementsPanel';
+
 /**
  * Estilos del componente AchievementsPanel
  * Define la apariencia visual de todos los elementos del panel de logros
  */
-const styles = StyleSheet.create({
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
   /**
    * Estilo del contenedor principal del panel
    * Establece el fondo, bordes redondeados y sombras específicas por plataforma
    */
   container: {
-    backgroundColor: Colors.yellow, // Fondo amarillo para un aspecto alegre
+    backgroundColor: theme.highlight, // Fondo amarillo para un aspecto alegre
     borderRadius: 20, // Bordes muy redondeados para un aspecto amigable
     overflow: 'hidden', // Evita que el contenido sobresalga de los bordes redondeados
     borderWidth: 1, // Borde fino para definir los límites
-    borderColor: Colors.brown, // Color marrón para el borde que combina con el amarillo
+    borderColor: theme.brand, // Color marrón para el borde que combina con el amarillo
     // Sombras específicas según la plataforma para dar profundidad
     ...Platform.select({
       ios: {
-        shadowColor: Colors.dark,
+        shadowColor: theme.shadow,
         shadowOffset: { width: 0, height: 5 }, // Sombra hacia abajo
         shadowOpacity: 0.3, // Sombra semi-transparente
         shadowRadius: 10, // Sombra difuminada
@@ -519,9 +733,9 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between', // Separa el título y el botón
     alignItems: 'center', // Centra verticalmente los elementos
     padding: 15, // Espaciado interno
-    backgroundColor: Colors.blue, // Fondo azul para destacar como encabezado
+    backgroundColor: theme.accent, // Fondo azul para destacar como encabezado
     borderBottomWidth: 2, // Borde inferior más grueso
-    borderBottomColor: '#0056a8', // Azul más oscuro para el borde inferior
+    borderBottomColor: theme.accentStrong, // Azul más oscuro para el borde inferior
   },
   
   /**
@@ -531,7 +745,7 @@ const styles = StyleSheet.create({
   title: {
     fontFamily: Fonts.nunitoBold, // Fuente en negrita
     fontSize: 20, // Tamaño grande
-    color: Colors.light, // Color claro para contrastar con el fondo azul
+    color: theme.onAccent, // Color claro para contrastar con el fondo azul
     textShadowColor: 'rgba(0, 0, 0, 0.2)', // Sombra sutil
     textShadowOffset: { width: 1, height: 1 }, // Desplazamiento de la sombra
     textShadowRadius: 2, // Difuminado de la sombra
@@ -545,15 +759,15 @@ const styles = StyleSheet.create({
     width: 36, // Tamaño fijo
     height: 36, // Tamaño fijo
     borderRadius: 18, // Radio igual a la mitad del ancho/alto para hacerlo circular
-    backgroundColor: Colors.darkBlue, // Fondo azul oscuro
+    backgroundColor: theme.accentStrong, // Fondo azul oscuro
     justifyContent: 'center', // Centra el texto horizontalmente
     alignItems: 'center', // Centra el texto verticalmente
     borderWidth: 2, // Borde grueso
-    borderColor: Colors.light, // Borde claro para destacar
+    borderColor: theme.onAccent, // Borde claro para destacar
     // Sombras específicas según la plataforma
     ...Platform.select({
       ios: {
-        shadowColor: Colors.dark,
+        shadowColor: theme.shadow,
         shadowOffset: { width: 0, height: 2 }, // Sombra hacia abajo
         shadowOpacity: 0.3, // Sombra semi-transparente
         shadowRadius: 2, // Sombra poco difuminada
@@ -570,7 +784,7 @@ const styles = StyleSheet.create({
   closeButtonText: {
     fontFamily: Fonts.nunitoBold, // Fuente en negrita
     fontSize: 20, // Tamaño grande
-    color: Colors.light, // Color claro para contrastar
+    color: theme.onAccent, // Color claro para contrastar
     lineHeight: 24, // Altura de línea para centrar verticalmente
   },
   /**
@@ -581,9 +795,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row', // Organiza los elementos en fila
     justifyContent: 'space-around', // Distribuye uniformemente los elementos
     padding: 15, // Espaciado interno
-    backgroundColor: Colors.yellow, // Mantiene el fondo amarillo
+    backgroundColor: theme.highlight, // Mantiene el fondo amarillo
     borderBottomWidth: 1, // Borde inferior fino
-    borderBottomColor: Colors.brown, // Color marrón para el borde
+    borderBottomColor: theme.brand, // Color marrón para el borde
   },
   
   /**
@@ -601,7 +815,7 @@ const styles = StyleSheet.create({
   statLabel: {
     fontFamily: Fonts.nunito, // Fuente normal
     fontSize: 14, // Tamaño pequeño
-    color: Colors.brown, // Color marrón para contrastar con el fondo
+    color: theme.brand, // Color marrón para contrastar con el fondo
     marginBottom: 5, // Espacio inferior para separar de la etiqueta
   },
   
@@ -612,7 +826,7 @@ const styles = StyleSheet.create({
   statValue: {
     fontFamily: Fonts.nunitoBold, // Fuente en negrita
     fontSize: 18, // Tamaño grande
-    color: Colors.dark, // Color oscuro para destacar
+    color: theme.text, // Color oscuro para destacar
     textShadowColor: 'rgba(255, 255, 255, 0.6)', // Sombra clara para efecto de relieve
     textShadowOffset: { width: 0, height: 1 }, // Sombra ligeramente hacia abajo
     textShadowRadius: 2, // Difuminado de la sombra
@@ -623,13 +837,13 @@ const styles = StyleSheet.create({
    */
   filtersContainer: {
     maxHeight: 50, // Altura máxima fija
-    backgroundColor: Colors.yellow, // Mantiene el fondo amarillo
+    backgroundColor: theme.highlight, // Mantiene el fondo amarillo
     borderBottomWidth: 1, // Borde inferior fino
-    borderBottomColor: Colors.brown, // Color marrón para el borde
+    borderBottomColor: theme.brand, // Color marrón para el borde
     // Sombra sutil específica por plataforma
     ...Platform.select({
       ios: {
-        shadowColor: Colors.brown,
+        shadowColor: theme.brand,
         shadowOffset: { width: 0, height: 2 }, // Sombra hacia abajo
         shadowOpacity: 0.1, // Sombra muy sutil
         shadowRadius: 2, // Difuminado ligero
@@ -658,13 +872,13 @@ const styles = StyleSheet.create({
     paddingVertical: 6, // Espaciado vertical interno
     borderRadius: 20, // Bordes muy redondeados
     marginHorizontal: 5, // Margen horizontal entre botones
-    backgroundColor: Colors.lightGray, // Fondo gris claro
+    backgroundColor: theme.surface, // Fondo gris claro
     borderWidth: 1, // Borde fino
-    borderColor: Colors.gray, // Borde gris
+    borderColor: theme.border, // Borde gris
     // Sombra sutil específica por plataforma
     ...Platform.select({
       ios: {
-        shadowColor: Colors.dark,
+        shadowColor: theme.shadow,
         shadowOffset: { width: 0, height: 2 }, // Sombra hacia abajo
         shadowOpacity: 0.1, // Sombra muy sutil
         shadowRadius: 2, // Difuminado ligero
@@ -680,13 +894,13 @@ const styles = StyleSheet.create({
    * Cambia el color de fondo y borde para destacar
    */
   activeFilterButton: {
-    backgroundColor: Colors.blue, // Fondo azul
-    borderColor: Colors.darkBlue, // Borde azul oscuro
+    backgroundColor: theme.accent, // Fondo azul
+    borderColor: theme.accentStrong, // Borde azul oscuro
     borderWidth: 2, // Borde más grueso
     // Sombra más pronunciada específica por plataforma
     ...Platform.select({
       ios: {
-        shadowColor: Colors.darkBlue,
+        shadowColor: theme.accentStrong,
         shadowOffset: { width: 0, height: 2 }, // Sombra hacia abajo
         shadowOpacity: 0.3, // Sombra más visible
         shadowRadius: 2, // Difuminado ligero
@@ -703,7 +917,7 @@ const styles = StyleSheet.create({
   filterText: {
     fontFamily: Fonts.nunito, // Fuente normal
     fontSize: 14, // Tamaño pequeño
-    color: Colors.dark, // Color oscuro
+    color: theme.text, // Color oscuro
   },
   
   /**
@@ -712,18 +926,95 @@ const styles = StyleSheet.create({
    */
   activeFilterText: {
     fontFamily: Fonts.nunitoBold, // Fuente en negrita
-    color: Colors.light, // Color claro para contrastar con el fondo azul
+    color: theme.onAccent, // Color claro para contrastar con el fondo azul
     textShadowColor: 'rgba(0, 0, 0, 0.2)', // Sombra sutil
     textShadowOffset: { width: 0, height: 1 }, // Sombra ligeramente hacia abajo
     textShadowRadius: 1, // Difuminado mínimo
   },
+  /**
+   * Estilo de la barra de búsqueda
+   */
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 15,
+    marginTop: 10,
+    paddingHorizontal: 12,
+    backgroundColor: theme.background,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: theme.brand,
+  },
+  searchInput: {
+    flex: 1,
+    fontFamily: Fonts.nunito,
+    fontSize: 14,
+    color: theme.text,
+    paddingVertical: 8,
+  },
+  clearSearchButton: {
+    paddingHorizontal: 6,
+  },
+  clearSearchText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.textSubtle,
+  },
+
+  /**
+   * Fila con el botón de ordenación y el de vista agrupada
+   */
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  toolbarButton: {
+    paddingHorizontal: 15,
+    paddingVertical: 6,
+    borderRadius: 20,
+    backgroundColor: theme.surface,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  toolbarText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 14,
+    color: theme.text,
+  },
+
+  /**
+   * Encabezado fijo de cada categoría en la vista agrupada
+   */
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginBottom: 10,
+    backgroundColor: theme.highlight,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.brand,
+  },
+  sectionTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+  },
+  sectionCompletion: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+    color: theme.brand,
+  },
+
   /**
    * Estilo del contenedor principal de logros
    * ScrollView que contiene todas las tarjetas de logros
    */
   achievementsContainer: {
     flex: 1, // Ocupa todo el espacio disponible
-    backgroundColor: Colors.yellow, // Mantiene el fondo amarillo
+    backgroundColor: theme.highlight, // Mantiene el fondo amarillo
   },
   
   /**
@@ -743,13 +1034,13 @@ const styles = StyleSheet.create({
     padding: 30, // Espaciado interno amplio
     alignItems: 'center', // Centra horizontalmente
     justifyContent: 'center', // Centra verticalmente
-    backgroundColor: Colors.lightGray, // Fondo gris claro
+    backgroundColor: theme.surface, // Fondo gris claro
     borderRadius: 15, // Bordes redondeados
     margin: 20, // Margen exterior
     // Sombra sutil específica por plataforma
     ...Platform.select({
       ios: {
-        shadowColor: Colors.dark,
+        shadowColor: theme.shadow,
         shadowOffset: { width: 0, height: 2 }, // Sombra hacia abajo
         shadowOpacity: 0.1, // Sombra muy sutil
         shadowRadius: 3, // Difuminado medio
@@ -767,7 +1058,7 @@ const styles = StyleSheet.create({
   emptyText: {
     fontFamily: Fonts.nunito, // Fuente normal
     fontSize: 16, // Tamaño medio
-    color: Colors.textGray, // Color gris para texto secundario
+    color: theme.textMuted, // Color gris para texto secundario
     textAlign: 'center', // Centrado
     lineHeight: 24, // Altura de línea para mejor legibilidad
   },
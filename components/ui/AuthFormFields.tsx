@@ -0,0 +1,129 @@
+/**
+ * @file AuthFormFields.tsx
+ * @description Campos de correo y contraseña de las pantallas de inicio de
+ * sesión y registro, con su error debajo de cada uno. La contraseña y su
+ * confirmación solo se muestran si se pasan sus valores.
+ */
+import React, { memo } from 'react';
+import { StyleSheet, View, Text, TextInput } from 'react-native';
+import Fonts from '../../constants/Fonts';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { ValidationError } from '../../services/profileValidation';
+
+/** Campos del formulario */
+export type AuthField = 'email' | 'password' | 'confirmPassword';
+
+/**
+ * @interface AuthFormFieldsProps
+ * @description Propiedades del componente
+ */
+interface AuthFormFieldsProps {
+  values: Partial<Record<AuthField, string>>;
+  /** Errores que se muestran debajo de cada campo */
+  errors: Partial<Record<AuthField, ValidationError | null>>;
+  onChange: (field: AuthField, value: string) => void;
+  /** Indica si la contraseña es nueva, para que el sistema proponga una segura */
+  newPassword?: boolean;
+}
+
+/**
+ * @component AuthFormFields
+ * @description Muestra los campos; el error de un campo se anuncia a los
+ * lectores de pantalla en cuanto aparece.
+ */
+const AuthFormFields: React.FC<AuthFormFieldsProps> = memo(({ values, errors, onChange, newPassword = false }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+
+  const renderError = (error: ValidationError | null | undefined) =>
+    error ? (
+      <Text style={styles.error} accessibilityLiveRegion="polite">
+        {t(error.key, error.params)}
+      </Text>
+    ) : null;
+
+  return (
+    <View>
+      <TextInput
+        style={[styles.input, errors.email && styles.inputInvalid]}
+        value={values.email}
+        onChangeText={text => onChange('email', text)}
+        placeholder={t('profile.email')}
+        accessibilityLabel={t('profile.email')}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="email"
+        textContentType="emailAddress"
+      />
+      {renderError(errors.email)}
+
+      {values.password !== undefined && (
+        <>
+          <TextInput
+            style={[styles.input, errors.password && styles.inputInvalid]}
+            value={values.password}
+            onChangeText={text => onChange('password', text)}
+            placeholder={t('auth.password')}
+            accessibilityLabel={t('auth.password')}
+            secureTextEntry
+            autoCapitalize="none"
+            autoComplete={newPassword ? 'new-password' : 'current-password'}
+            textContentType={newPassword ? 'newPassword' : 'password'}
+          />
+          {renderError(errors.password)}
+        </>
+      )}
+
+      {values.confirmPassword !== undefined && (
+        <>
+          <TextInput
+            style={[styles.input, errors.confirmPassword && styles.inputInvalid]}
+            value={values.confirmPassword}
+            onChangeText={text => onChange('confirmPassword', text)}
+            placeholder={t('auth.confirmPassword')}
+            accessibilityLabel={t('auth.confirmPassword')}
+            secureTextEntry
+            autoCapitalize="none"
+            autoComplete="new-password"
+            textContentType="newPassword"
+          />
+          {renderError(errors.confirmPassword)}
+        </>
+      )}
+    </View>
+  );
+});
+
+AuthFormFields.displayName = 'AuthFormFields';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  input: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    padding: 15,
+    marginBottom: 10,
+  },
+  inputInvalid: {
+    borderColor: theme.danger,
+  },
+  error: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.danger,
+    marginTop: -6,
+    marginBottom: 10,
+    marginLeft: 5,
+  },
+});
+
+export default AuthFormFields;
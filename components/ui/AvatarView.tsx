@@ -0,0 +1,94 @@
+/**
+ * @file AvatarView.tsx
+ * @description Avatar del perfil dentro de un círculo. Las imágenes de la
+ * aplicación y las fotos se muestran tal cual; los avatares compuestos se
+ * dibujan capa a capa: fondo, capibara base y prendas.
+ */
+import React, { memo } from 'react';
+import { StyleSheet, View, Text, Image, type StyleProp, type ViewStyle } from 'react-native';
+import { WARDROBE_SLOTS } from '../../constants/Wardrobe';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { getAvatarSource, type Avatar } from '../../services/avatars';
+import { getWardrobeItem, type WardrobeSlot } from '../../services/wardrobe';
+
+/**
+ * @interface AvatarViewProps
+ * @description Propiedades del componente
+ */
+interface AvatarViewProps {
+  avatar: Avatar;
+  /** Diámetro del círculo en píxeles */
+  size: number;
+  style?: StyleProp<ViewStyle>;
+  /** Texto para lectores de pantalla; sin él el avatar se considera decorativo */
+  accessibilityLabel?: string;
+}
+
+/**
+ * @component AvatarView
+ * @description Dibuja el avatar. Las prendas de emoji se escalan con el
+ * tamaño del círculo para que la vista previa y el perfil coincidan.
+ */
+const AvatarView: React.FC<AvatarViewProps> = memo(({ avatar, size, style, accessibilityLabel }) => {
+  const styles = useThemedStyles(createStyles);
+  const circle = { width: size, height: size, borderRadius: size / 2 };
+
+  const renderLayer = (slot: WardrobeSlot) => {
+    if (avatar.kind !== 'composed') return null;
+    const id = avatar.layers[slot];
+    const item = id ? getWardrobeItem(id) : undefined;
+    if (!item) return null;
+
+    const layout = WARDROBE_SLOTS[slot];
+    switch (item.kind) {
+      case 'color':
+        return <View key={slot} style={[StyleSheet.absoluteFill, { backgroundColor: item.color }]} />;
+      case 'image':
+        return <Image key={slot} source={item.source} style={[StyleSheet.absoluteFill, circle]} resizeMode="cover" fadeDuration={0} />;
+      case 'emoji':
+        return (
+          <Text
+            key={slot}
+            style={[styles.emojiLayer, { top: size * layout.top, fontSize: size * layout.size, lineHeight: size * layout.size * 1.2 }]}
+          >
+            {item.glyph}
+          </Text>
+        );
+    }
+  };
+
+  return (
+    <View
+      style={[styles.circle, circle, style]}
+      accessible={!!accessibilityLabel}
+      accessibilityRole={accessibilityLabel ? 'image' : undefined}
+      accessibilityLabel={accessibilityLabel}
+    >
+      {avatar.kind === 'composed' ? (
+        (Object.keys(WARDROBE_SLOTS) as WardrobeSlot[]).map(renderLayer)
+      ) : (
+        <Image source={getAvatarSource(avatar)} style={circle} resizeMode="cover" fadeDuration={0} />
+      )}
+    </View>
+  );
+});
+
+AvatarView.displayName = 'AvatarView';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  circle: {
+    backgroundColor: theme.brand,
+    overflow: 'hidden',
+  },
+  emojiLayer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    textAlign: 'center',
+  },
+});
+
+export default AvatarView;
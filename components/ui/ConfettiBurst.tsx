@@ -0,0 +1,109 @@
+/**
+ * @file ConfettiBurst.tsx
+ * @description Lluvia breve de confeti para celebrar un desbloqueo. Cada pieza
+ * cae con una deriva lateral y un giro aleatorios.
+ */
+import React, { memo, useEffect, useMemo, useRef } from 'react';
+import { StyleSheet, View, Animated, Easing } from 'react-native';
+import { Palette } from '../../constants/Colors';
+
+/** Colores de las piezas de confeti */
+const CONFETTI_COLORS = [Palette.blue, Palette.yellow, Palette.red, Palette.green, Palette.brown, Palette.lightBlue];
+
+/**
+ * @interface ConfettiBurstProps
+ * @description Propiedades para el componente ConfettiBurst
+ */
+interface ConfettiBurstProps {
+  /** Cada valor distinto lanza una ráfaga nueva */
+  burstKey: string | number;
+  /** Número de piezas */
+  pieces?: number;
+  /** Distancia vertical que recorren las piezas, en píxeles */
+  fallDistance?: number;
+}
+
+/**
+ * @component ConfettiBurst
+ * @description Capa sin interacción que cubre al contenedor padre y deja caer
+ * el confeti desde su parte superior.
+ */
+const ConfettiBurst: React.FC<ConfettiBurstProps> = memo(({ burstKey, pieces = 24, fallDistance = 220 }) => {
+  /** Progreso de la ráfaga, de 0 (arriba) a 1 (final de la caída) */
+  const fallAnim = useRef(new Animated.Value(0)).current;
+
+  /** Posición, deriva, giro y color de cada pieza; cambian con cada ráfaga */
+  const confetti = useMemo(
+    () =>
+      Array.from({ length: pieces }, (_, index) => ({
+        id: `${burstKey}-${index}`,
+        left: `${Math.random() * 100}%` as const,
+        drift: (Math.random() - 0.5) * 80,
+        spin: `${(Math.random() > 0.5 ? 1 : -1) * (180 + Math.random() * 360)}deg`,
+        delay: Math.random() * 0.3,
+        color: CONFETTI_COLORS[index % CONFETTI_COLORS.length],
+      })),
+    [burstKey, pieces]
+  );
+
+  useEffect(() => {
+    fallAnim.setValue(0);
+    const animation = Animated.timing(fallAnim, {
+      toValue: 1,
+      duration: 1600,
+      easing: Easing.out(Easing.quad),
+      useNativeDriver: true,
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [burstKey, fallAnim]);
+
+  return (
+    <View pointerEvents="none" style={styles.container}>
+      {confetti.map(piece => {
+        // Cada pieza empieza a caer con un pequeño retraso para que la lluvia sea irregular
+        const inputRange = [0, piece.delay, 1];
+        return (
+          <Animated.View
+            key={piece.id}
+            style={[
+              styles.piece,
+              {
+                left: piece.left,
+                backgroundColor: piece.color,
+                opacity: fallAnim.interpolate({ inputRange: [0, 0.8, 1], outputRange: [1, 1, 0] }),
+                transform: [
+                  { translateY: fallAnim.interpolate({ inputRange, outputRange: [-10, -10, fallDistance] }) },
+                  { translateX: fallAnim.interpolate({ inputRange, outputRange: [0, 0, piece.drift] }) },
+                  { rotate: fallAnim.interpolate({ inputRange: [0, 1], outputRange: ['0deg', piece.spin] }) },
+                ],
+              },
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+});
+
+ConfettiBurst.displayName = 'ConfettiBurst';
+
+/**
+ * Estilos del componente
+ */
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    overflow: 'hidden',
+  },
+  // Pieza rectangular de confeti
+  piece: {
+    position: 'absolute',
+    top: 0,
+    width: 8,
+    height: 12,
+    borderRadius: 2,
+  },
+});
+
+export default ConfettiBurst;
@@ -0,0 +1,320 @@
+/**
+ * @file LegalDocumentView.tsx
+ * @description Visor de un documento legal: muestra la versión y la fecha de
+ * entrada en vigor, un índice con enlaces a los apartados, el texto Markdown y
+ * el estado de aceptación, con el botón para aceptar la versión vigente.
+ */
+import React, { memo, useCallback, useMemo, useRef } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, ScrollView, Linking, type StyleProp, type ViewStyle } from 'react-native';
+import { useRouter, type Href } from 'expo-router';
+import Fonts from '../../constants/Fonts';
+import { useLegalAcceptance } from '../../hooks/useLegalAcceptance';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import {
+  acceptLegalDocument,
+  getLegalDocument,
+  isLegalDocumentAccepted,
+  type LegalDocumentId,
+} from '../../services/legalDocuments';
+import { parseMarkdown, type MarkdownInline } from '../../services/markdown';
+
+/** Formato de las fechas de entrada en vigor y de aceptación, p. ej. "1 de julio de 2025" */
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'long', year: 'numeric' };
+
+/** Enlaces a otro documento legal, p. ej. "/privacy" o "/privacy?section=retention" */
+const DOCUMENT_LINK = /^\/(terms|privacy)(?:\?section=([\w-]+))?$/;
+
+/**
+ * @interface LegalDocumentViewProps
+ * @description Propiedades para el componente LegalDocumentView
+ */
+interface LegalDocumentViewProps {
+  documentId: LegalDocumentId;
+  /** Ancla del apartado que se muestra al abrir el documento */
+  section?: string | null;
+  /**
+   * Función que abre otro documento legal enlazado desde el texto. Por defecto
+   * se navega a su ruta.
+   */
+  onOpenDocument?: (id: LegalDocumentId, section: string | null) => void;
+  /** Estilos adicionales para el contenedor */
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * @component LegalDocumentView
+ * @description Documento legal desplazable. Los enlaces "#ancla" llevan al
+ * apartado del mismo documento y el resto se abren fuera de la aplicación.
+ */
+const LegalDocumentView: React.FC<LegalDocumentViewProps> = memo(({ documentId, section = null, onOpenDocument, style }) => {
+  const styles = useThemedStyles(createStyles);
+  const { locale, t, formatDate } = useTranslation();
+  const router = useRouter();
+  const reduceMotion = useReducedMotion();
+  const { loaded, acceptances } = useLegalAcceptance();
+
+  const document = getLegalDocument(documentId);
+  const blocks = useMemo(() => parseMarkdown(document.content[locale]), [document, locale]);
+  const contents = blocks.filter(block => block.type === 'heading' && block.level === 2);
+
+  const accepted = isLegalDocumentAccepted(document, acceptances);
+  const acceptance = acceptances[documentId];
+
+  /** Referencia a la lista, para desplazarla hasta un apartado */
+  const scrollRef = useRef<ScrollView>(null);
+  /** Posición vertical de cada encabezado, por ancla */
+  const anchorOffsets = useRef(new Map<string, number>());
+  /** Indica si ya se mostró el apartado pedido al abrir el documento */
+  const sectionShown = useRef(false);
+
+  const scrollToAnchor = useCallback(
+    (anchor: string, animated = !reduceMotion) => {
+      const y = anchorOffsets.current.get(anchor);
+      if (y !== undefined) scrollRef.current?.scrollTo({ y, animated });
+    },
+    [reduceMotion]
+  );
+
+  /** Guarda la posición de un encabezado y, si es el apartado pedido, se desplaza hasta él */
+  const handleHeadingLayout = (anchor: string, y: number) => {
+    anchorOffsets.current.set(anchor, y);
+    if (anchor === section && !sectionShown.current) {
+      sectionShown.current = true;
+      scrollToAnchor(anchor, false);
+    }
+  };
+
+  const openLink = (href: string) => {
+    if (href.startsWith('#')) {
+      scrollToAnchor(href.slice(1));
+      return;
+    }
+    const documentLink = DOCUMENT_LINK.exec(href);
+    if (documentLink) {
+      const id = documentLink[1] as LegalDocumentId;
+      const linkSection = documentLink[2] ?? null;
+      if (id === documentId) {
+        if (linkSection) scrollToAnchor(linkSection);
+      } else if (onOpenDocument) {
+        onOpenDocument(id, linkSection);
+      } else {
+        router.push(href as Href);
+      }
+      return;
+    }
+    Linking.openURL(href).catch(error => console.error('Error opening link:', error));
+  };
+
+  const renderInlines = (inlines: MarkdownInline[]) =>
+    inlines.map((inline, index) => {
+      if (inline.type === 'strong') {
+        return <Text key={index} style={styles.strong}>{inline.text}</Text>;
+      }
+      if (inline.type === 'link') {
+        return (
+          <Text key={index} style={styles.link} onPress={() => openLink(inline.href)} accessibilityRole="link">
+            {inline.text}
+          </Text>
+        );
+      }
+      return inline.text;
+    });
+
+  const effectiveDate = formatDate(Date.parse(document.effectiveDate), { ...DATE_FORMAT, timeZone: 'UTC' });
+
+  return (
+    <ScrollView ref={scrollRef} style={[styles.container, style]} contentContainerStyle={styles.content}>
+      {/* Título, versión y fecha de entrada en vigor */}
+      <Text style={styles.title} accessibilityRole="header">{t(document.title)}</Text>
+      <Text style={styles.meta}>
+        {t('legalDocument.version', { version: document.version })} · {t('legalDocument.effectiveDate', { date: effectiveDate })}
+      </Text>
+
+      {/* Índice de apartados */}
+      {contents.length > 0 && (
+        <View style={styles.contents}>
+          <Text style={styles.contentsTitle}>{t('legalDocument.contents')}</Text>
+          {contents.map(block =>
+            block.type === 'heading' ? (
+              <Text
+                key={block.anchor}
+                style={styles.contentsLink}
+                onPress={() => scrollToAnchor(block.anchor)}
+                accessibilityRole="link"
+              >
+                {block.text}
+              </Text>
+            ) : null
+          )}
+        </View>
+      )}
+
+      {/* Texto del documento; los encabezados son hijos directos para conocer su posición */}
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <Text
+                key={block.anchor}
+                style={[styles.heading, block.level === 3 && styles.subheading]}
+                accessibilityRole="header"
+                onLayout={event => handleHeadingLayout(block.anchor, event.nativeEvent.layout.y)}
+              >
+                {block.text}
+              </Text>
+            );
+          case 'paragraph':
+            return <Text key={index} style={styles.paragraph}>{renderInlines(block.inlines)}</Text>;
+          case 'list':
+            return (
+              <View key={index} style={styles.list}>
+                {block.items.map((item, itemIndex) => (
+                  <View key={itemIndex} style={styles.listItem}>
+                    <Text style={styles.paragraph}>•</Text>
+                    <Text style={[styles.paragraph, styles.listItemText]}>{renderInlines(item)}</Text>
+                  </View>
+                ))}
+              </View>
+            );
+        }
+      })}
+
+      {/* Estado de aceptación de la versión vigente */}
+      {loaded && (
+        <View style={styles.acceptance}>
+          {accepted && acceptance ? (
+            <Text style={styles.acceptedText}>
+              {t('legalDocument.acceptedOn', {
+                version: document.version,
+                date: formatDate(acceptance.acceptedAt, DATE_FORMAT),
+              })}
+            </Text>
+          ) : (
+            <>
+              {acceptance && (
+                <Text style={styles.meta}>{t('legalDocument.previousVersion', { version: acceptance.version })}</Text>
+              )}
+              <TouchableOpacity
+                style={styles.acceptButton}
+                onPress={() => acceptLegalDocument(documentId)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.acceptButtonText}>{t('legalDocument.accept', { version: document.version })}</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
+    </ScrollView>
+  );
+});
+
+LegalDocumentView.displayName = 'LegalDocumentView';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  title: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 24,
+    color: theme.text,
+  },
+  meta: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.textMuted,
+    marginTop: 4,
+  },
+  // Índice de apartados
+  contents: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 15,
+    marginTop: 16,
+  },
+  contentsTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+    marginBottom: 6,
+  },
+  contentsLink: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 15,
+    color: theme.accent,
+    paddingVertical: 4,
+  },
+  // Texto del documento
+  heading: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 19,
+    color: theme.text,
+    marginTop: 24,
+    marginBottom: 8,
+  },
+  subheading: {
+    fontSize: 16,
+    marginTop: 16,
+  },
+  paragraph: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    lineHeight: 24,
+    color: theme.text,
+    marginBottom: 8,
+  },
+  strong: {
+    fontFamily: Fonts.sourceSansBold,
+  },
+  link: {
+    color: theme.accent,
+    textDecorationLine: 'underline',
+  },
+  list: {
+    marginBottom: 8,
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listItemText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  // Estado de aceptación
+  acceptance: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: theme.border,
+    marginTop: 24,
+    paddingTop: 16,
+  },
+  acceptedText: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 15,
+    color: theme.success,
+  },
+  acceptButton: {
+    backgroundColor: theme.accent,
+    borderRadius: 25,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  acceptButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+});
+
+export default LegalDocumentView;
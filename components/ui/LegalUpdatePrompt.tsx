@@ -0,0 +1,110 @@
+/**
+ * @file LegalUpdatePrompt.tsx
+ * @description Pantalla completa que pide aceptar los documentos legales cuya
+ * versión vigente el usuario no ha aceptado: todos la primera vez y, después,
+ * los que cambian de versión. Se monta en el layout raíz y no se puede cerrar
+ * sin aceptar.
+ */
+import React, { memo, useEffect, useState } from 'react';
+import { StyleSheet, View, Text, Modal } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import Fonts from '../../constants/Fonts';
+import { useLegalAcceptance } from '../../hooks/useLegalAcceptance';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { getPendingLegalDocuments, type LegalDocumentId } from '../../services/legalDocuments';
+import LegalDocumentView from './LegalDocumentView';
+
+/**
+ * @component LegalUpdatePrompt
+ * @description Muestra los documentos pendientes de uno en uno. Los enlaces a
+ * otro documento lo abren dentro del aviso, con un enlace para volver.
+ */
+const LegalUpdatePrompt: React.FC = memo(() => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const reduceMotion = useReducedMotion();
+  const { loaded, acceptances } = useLegalAcceptance();
+  const pending = getPendingLegalDocuments(acceptances);
+
+  /** Documento abierto desde un enlace, o null para mostrar el primero pendiente */
+  const [linked, setLinked] = useState<{ id: LegalDocumentId; section: string | null } | null>(null);
+
+  // Tras cada aceptación se vuelve al siguiente documento pendiente
+  useEffect(() => {
+    setLinked(null);
+  }, [acceptances]);
+
+  if (!loaded || pending.length === 0) return null;
+
+  const current = pending[0];
+  // Sin aceptaciones guardadas es la primera vez; si no, algún documento ha cambiado
+  const isFirstTime = Object.keys(acceptances).length === 0;
+
+  return (
+    <Modal visible animationType={reduceMotion ? 'none' : 'slide'} onRequestClose={() => {}}>
+      <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]} accessibilityViewIsModal>
+        <View style={styles.banner}>
+          <Text style={styles.bannerTitle} accessibilityRole="header">
+            {t(isFirstTime ? 'legalUpdate.firstTitle' : 'legalUpdate.updatedTitle')}
+          </Text>
+          <Text style={styles.bannerText}>
+            {t(isFirstTime ? 'legalUpdate.firstMessage' : 'legalUpdate.updatedMessage')}
+          </Text>
+          {pending.length > 1 && (
+            <Text style={styles.bannerText}>{t('legalUpdate.progress', { count: pending.length })}</Text>
+          )}
+          {linked && linked.id !== current.id && (
+            <Text style={styles.backLink} onPress={() => setLinked(null)} accessibilityRole="link">
+              {t('legalUpdate.back', { title: t(current.title) })}
+            </Text>
+          )}
+        </View>
+        <LegalDocumentView
+          key={linked?.id ?? current.id}
+          documentId={linked?.id ?? current.id}
+          section={linked?.section}
+          onOpenDocument={(id, section) => setLinked({ id, section })}
+        />
+      </View>
+    </Modal>
+  );
+});
+
+LegalUpdatePrompt.displayName = 'LegalUpdatePrompt';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  banner: {
+    backgroundColor: theme.highlight,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  bannerTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+  },
+  bannerText: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 15,
+    color: theme.text,
+    marginTop: 4,
+  },
+  backLink: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 15,
+    color: theme.accentStrong,
+    marginTop: 8,
+  },
+});
+
+export default LegalUpdatePrompt;
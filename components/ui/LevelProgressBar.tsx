@@ -0,0 +1,150 @@
+/**
+ * @file LevelProgressBar.tsx
+ * @description Barra animada que muestra el nivel actual, su título y la
+ * experiencia conseguida dentro del nivel.
+ */
+import React, { memo, useEffect, useMemo, useRef } from 'react';
+import { StyleSheet, View, Text, Animated, Easing } from 'react-native';
+import Fonts from '../../constants/Fonts';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { LevelProgress } from '../../services/progression';
+
+/**
+ * @interface LevelProgressBarProps
+ * @description Propiedades para el componente LevelProgressBar
+ */
+interface LevelProgressBarProps {
+  /** Progresión calculada con getLevelProgress */
+  levelProgress: LevelProgress;
+  /** Estilos adicionales para el contenedor */
+  style?: object;
+}
+
+/**
+ * @component LevelProgressBar
+ * @description Muestra "Nivel N · Título" y una barra con la XP dentro del nivel.
+ * La barra se anima cada vez que cambia el progreso.
+ */
+const LevelProgressBar: React.FC<LevelProgressBarProps> = memo(({ levelProgress, style }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t, translateText } = useTranslation();
+  const { level, xpIntoLevel, xpForLevel, progress, isMaxLevel } = levelProgress;
+  const title = translateText(levelProgress.title);
+
+  /** Controla el ancho de la barra de progreso */
+  const progressAnim = useRef(new Animated.Value(0)).current;
+
+  /** Con movimiento reducido la barra salta directamente al nuevo progreso */
+  const reduceMotion = useReducedMotion();
+
+  useEffect(() => {
+    if (reduceMotion) {
+      progressAnim.setValue(progress);
+      return;
+    }
+    const animation = Animated.timing(progressAnim, {
+      toValue: progress,
+      duration: 800,
+      easing: Easing.out(Easing.cubic),
+      useNativeDriver: false, // El width no puede usar native driver
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [progress, reduceMotion, progressAnim]);
+
+  const progressWidth = useMemo(() => {
+    return progressAnim.interpolate({
+      inputRange: [0, 1],
+      outputRange: ['0%', '100%'],
+    });
+  }, [progressAnim]);
+
+  return (
+    <View
+      style={[styles.container, style]}
+      accessible
+      accessibilityRole="progressbar"
+      accessibilityLabel={t('level.label', { level, title })}
+      accessibilityValue={
+        isMaxLevel
+          ? { text: t('level.max') }
+          : {
+              min: 0,
+              max: xpForLevel,
+              now: xpIntoLevel,
+              text: t('level.xpLabel', { current: xpIntoLevel, total: xpForLevel }),
+            }
+      }
+    >
+      <View style={styles.labelRow}>
+        <Text style={styles.levelText} numberOfLines={1}>
+          {t('level.title', { level, title })}
+        </Text>
+        <Text style={styles.xpText}>
+          {isMaxLevel ? t('level.max') : t('level.xp', { current: xpIntoLevel, total: xpForLevel })}
+        </Text>
+      </View>
+      <View style={styles.track}>
+        <Animated.View style={[styles.fill, { width: progressWidth }]} />
+      </View>
+    </View>
+  );
+});
+
+LevelProgressBar.displayName = 'LevelProgressBar';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  container: {
+    paddingHorizontal: 15,
+    paddingVertical: 10,
+    backgroundColor: theme.highlight,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.brand,
+  },
+
+  // Fila con el nivel a la izquierda y la XP a la derecha
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  levelText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 14,
+    color: theme.text,
+    flex: 1,
+  },
+  xpText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 12,
+    color: theme.brand,
+    marginLeft: 10,
+  },
+
+  // Fondo de la barra
+  track: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: theme.background,
+    borderWidth: 1,
+    borderColor: theme.brand,
+    overflow: 'hidden',
+  },
+  // Parte rellena de la barra
+  fill: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    backgroundColor: theme.accent,
+    borderRadius: 5,
+  },
+});
+
+export default LevelProgressBar;
@@ -0,0 +1,229 @@
+/**
+ * @file LevelUpOverlay.tsx
+ * @description Capa de celebración que se muestra al subir de nivel. Reutiliza
+ * el brillo pulsante y el rebote de las tarjetas de logros completados.
+ */
+import React, { memo, useEffect, useRef } from 'react';
+import { StyleSheet, View, Text, Image, TouchableOpacity, Animated, Platform, AccessibilityInfo } from 'react-native';
+import Fonts from '../../constants/Fonts';
+import { useBounceAnimation, useSparkleAnimation } from '../../hooks/useCelebrationAnimations';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import type { LevelDefinition } from '../../services/progression';
+
+/** Icono de la celebración */
+const CapybaraFront = require('../../assets/images/capybara-front.png');
+
+/**
+ * @interface LevelUpOverlayProps
+ * @description Propiedades para el componente LevelUpOverlay
+ */
+interface LevelUpOverlayProps {
+  /** Indica si la celebración está visible */
+  visible: boolean;
+  /** Nivel alcanzado */
+  level: number;
+  /** Título (o clave de traducción del título) del nivel alcanzado */
+  title: string;
+  /** Recompensas obtenidas con la subida de nivel */
+  rewards: LevelDefinition[];
+  /** Función que se ejecuta al cerrar la celebración */
+  onClose: () => void;
+}
+
+/**
+ * @component LevelUpOverlay
+ * @description Cubre el contenedor padre con la celebración de subida de nivel.
+ * Aparece con un efecto de resorte y muestra el nuevo título y las recompensas.
+ */
+const LevelUpOverlay: React.FC<LevelUpOverlayProps> = memo(({ visible, level, title: levelTitle, rewards, onClose }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t, translateText } = useTranslation();
+  const title = translateText(levelTitle);
+
+  /** Controla la entrada de la tarjeta central */
+  const entranceAnim = useRef(new Animated.Value(0)).current;
+
+  /** Con movimiento reducido la celebración aparece sin resorte, brillo ni rebote */
+  const reduceMotion = useReducedMotion();
+
+  const sparkleOpacity = useSparkleAnimation(visible && !reduceMotion);
+  const iconTranslateY = useBounceAnimation(visible && !reduceMotion, 12);
+
+  /** Anuncia el nuevo nivel al lector de pantalla cuando aparece la celebración */
+  useEffect(() => {
+    if (visible) {
+      AccessibilityInfo.announceForAccessibility(t('levelUp.announcement', { level, title }));
+    }
+  }, [visible, level, title, t]);
+
+  useEffect(() => {
+    if (!visible) {
+      entranceAnim.setValue(0);
+      return;
+    }
+    if (reduceMotion) {
+      entranceAnim.setValue(1);
+      return;
+    }
+    const animation = Animated.spring(entranceAnim, {
+      toValue: 1,
+      friction: 5,
+      tension: 60,
+      useNativeDriver: true,
+    });
+    animation.start();
+    return () => animation.stop();
+  }, [visible, reduceMotion, entranceAnim]);
+
+  if (!visible) return null;
+
+  return (
+    <View style={styles.overlay} accessibilityViewIsModal>
+      <Animated.View
+        style={[
+          styles.card,
+          {
+            opacity: entranceAnim,
+            transform: [{ scale: entranceAnim.interpolate({ inputRange: [0, 1], outputRange: [0.6, 1] }) }],
+          },
+        ]}
+      >
+        {/* Icono con halo pulsante y rebote */}
+        <Animated.View style={[styles.iconContainer, { transform: [{ translateY: iconTranslateY }] }]}>
+          <Animated.View style={[styles.sparkleHalo, { opacity: sparkleOpacity }]} />
+          <Image source={CapybaraFront} style={styles.icon} resizeMode="contain" fadeDuration={0} />
+        </Animated.View>
+
+        <Text style={styles.heading} accessibilityRole="header">{t('levelUp.heading')}</Text>
+        <Text style={styles.level}>{t('levelUp.level', { level })}</Text>
+        <Text style={styles.title}>{title}</Text>
+
+        {/* Recompensas desbloqueadas con la subida */}
+        {rewards.map(reward => (
+          <Text key={reward.level} style={styles.reward}>
+            🎁 {reward.reward && translateText(reward.reward)}
+          </Text>
+        ))}
+
+        <TouchableOpacity
+          style={styles.button}
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel={t('levelUp.close')}
+        >
+          <Text style={styles.buttonText}>{t('levelUp.confirm')}</Text>
+        </TouchableOpacity>
+      </Animated.View>
+    </View>
+  );
+});
+
+LevelUpOverlay.displayName = 'LevelUpOverlay';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  // Capa semitransparente que cubre al contenedor padre
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+
+  // Tarjeta central de la celebración
+  card: {
+    width: '80%',
+    alignItems: 'center',
+    backgroundColor: theme.highlight,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: theme.brand,
+    padding: 20,
+    ...Platform.select({
+      ios: {
+        shadowColor: theme.shadow,
+        shadowOffset: { width: 0, height: 5 },
+        shadowOpacity: 0.3,
+        shadowRadius: 10,
+      },
+      android: {
+        elevation: 10,
+      },
+    }),
+  },
+
+  // Contenedor circular del icono
+  iconContainer: {
+    width: 100,
+    height: 100,
+    borderRadius: 50,
+    backgroundColor: theme.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 3,
+    borderColor: theme.accent,
+    marginBottom: 15,
+  },
+  // Halo de brillo sobre el icono
+  sparkleHalo: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    borderRadius: 50,
+    backgroundColor: theme.celebration,
+  },
+  icon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+  },
+
+  heading: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 22,
+    color: theme.text,
+    marginBottom: 5,
+  },
+  level: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 32,
+    color: theme.accent,
+  },
+  title: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.brand,
+    marginBottom: 10,
+  },
+  reward: {
+    fontFamily: Fonts.nunito,
+    fontSize: 14,
+    color: theme.text,
+    marginBottom: 4,
+  },
+
+  // Botón para cerrar la celebración
+  button: {
+    marginTop: 15,
+    backgroundColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 30,
+    borderRadius: 25,
+    borderWidth: 2,
+    borderColor: theme.accentStrong,
+  },
+  buttonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.onAccent,
+  },
+});
+
+export default LevelUpOverlay;
@@ -0,0 +1,236 @@
+/**
+ * @file ProfileFormFields.tsx
+ * @description Campos de nombre, correo y teléfono del perfil con su error
+ * debajo de cada uno. El teléfono se escribe como número nacional junto a un
+ * selector del prefijo de país.
+ */
+import React, { memo, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { COUNTRY_CODES } from '../../constants/CountryCodes';
+import Fonts from '../../constants/Fonts';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import type { ProfileForm } from '../../hooks/useProfileForm';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { getCountryCode, type ValidationError } from '../../services/profileValidation';
+
+/**
+ * @interface ProfileFormFieldsProps
+ * @description Propiedades del componente
+ */
+interface ProfileFormFieldsProps {
+  /** Estado del formulario devuelto por useProfileForm */
+  form: ProfileForm;
+}
+
+/**
+ * @component ProfileFormFields
+ * @description Muestra los campos del formulario; el error de un campo se
+ * anuncia a los lectores de pantalla en cuanto aparece.
+ */
+const ProfileFormFields: React.FC<ProfileFormFieldsProps> = memo(({ form }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const reduceMotion = useReducedMotion();
+  const [showCountries, setShowCountries] = useState(false);
+  const { values, errors, setField } = form;
+  const country = getCountryCode(values.country);
+
+  const renderError = (error: ValidationError | undefined) =>
+    error ? (
+      <Text style={styles.error} accessibilityLiveRegion="polite">
+        {t(error.key, error.params)}
+      </Text>
+    ) : null;
+
+  return (
+    <View>
+      <TextInput
+        style={[styles.input, errors.name && styles.inputInvalid]}
+        value={values.name}
+        onChangeText={text => setField('name', text)}
+        placeholder={t('profile.name')}
+        accessibilityLabel={t('profile.name')}
+        autoComplete="name"
+        textContentType="name"
+      />
+      {renderError(errors.name)}
+
+      <TextInput
+        style={[styles.input, errors.email && styles.inputInvalid]}
+        value={values.email}
+        onChangeText={text => setField('email', text)}
+        placeholder={t('profile.email')}
+        accessibilityLabel={t('profile.email')}
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoComplete="email"
+        textContentType="emailAddress"
+      />
+      {renderError(errors.email)}
+
+      <View style={styles.phoneRow}>
+        <TouchableOpacity
+          style={[styles.input, styles.countryButton, errors.phone && styles.inputInvalid]}
+          onPress={() => setShowCountries(true)}
+          accessibilityRole="button"
+          accessibilityLabel={t('profileForm.countryCode', { country: t(`country.${country.iso}`), code: `+${country.dialCode}` })}
+        >
+          <Text style={styles.countryButtonText}>{country.iso} +{country.dialCode}</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={[styles.input, styles.phoneInput, errors.phone && styles.inputInvalid]}
+          value={values.nationalNumber}
+          onChangeText={text => setField('nationalNumber', text)}
+          placeholder={t('profile.phone')}
+          accessibilityLabel={t('profile.phone')}
+          keyboardType="phone-pad"
+          autoComplete="tel-national"
+          textContentType="telephoneNumber"
+        />
+      </View>
+      {renderError(errors.phone)}
+
+      {/* Selector del prefijo de país */}
+      <Modal
+        visible={showCountries}
+        transparent
+        animationType={reduceMotion ? 'none' : 'fade'}
+        onRequestClose={() => setShowCountries(false)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.sheet} accessibilityViewIsModal>
+            <Text style={styles.sheetTitle} accessibilityRole="header">{t('profileForm.selectCountry')}</Text>
+            <ScrollView style={styles.countryList}>
+              {COUNTRY_CODES.map(option => {
+                const selected = option.iso === country.iso;
+                return (
+                  <TouchableOpacity
+                    key={option.iso}
+                    style={[styles.countryOption, selected && styles.countryOptionSelected]}
+                    onPress={() => {
+                      setField('country', option.iso);
+                      setShowCountries(false);
+                    }}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: selected }}
+                  >
+                    <Text style={styles.countryName}>{t(`country.${option.iso}`)}</Text>
+                    <Text style={styles.countryDialCode}>+{option.dialCode}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+            <TouchableOpacity style={styles.closeButton} onPress={() => setShowCountries(false)} accessibilityRole="button">
+              <Text style={styles.closeButtonText}>{t('common.close')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+});
+
+ProfileFormFields.displayName = 'ProfileFormFields';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  input: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    padding: 15,
+    marginBottom: 10,
+  },
+  inputInvalid: {
+    borderColor: theme.danger,
+  },
+  error: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.danger,
+    marginTop: -6,
+    marginBottom: 10,
+    marginLeft: 5,
+  },
+  phoneRow: {
+    flexDirection: 'row',
+  },
+  countryButton: {
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  countryButtonText: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 16,
+    color: theme.text,
+  },
+  phoneInput: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sheet: {
+    backgroundColor: theme.highlight,
+    borderRadius: 15,
+    padding: 20,
+    width: '80%',
+    maxHeight: '70%',
+  },
+  sheetTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.text,
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  countryList: {
+    flexGrow: 0,
+  },
+  countryOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+  },
+  countryOptionSelected: {
+    backgroundColor: theme.accentSoft,
+  },
+  countryName: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 16,
+    color: theme.text,
+  },
+  countryDialCode: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 16,
+    color: theme.textMuted,
+  },
+  closeButton: {
+    alignSelf: 'center',
+    backgroundColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 25,
+    marginTop: 15,
+  },
+  closeButtonText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.onAccent,
+    fontSize: 16,
+  },
+});
+
+export default ProfileFormFields;
@@ -0,0 +1,276 @@
+/**
+ * @file StreakHeatmap.tsx
+ * @description Calendario mensual que muestra la actividad diaria del usuario como
+ * un mapa de calor, junto con la racha actual, la racha más larga y los
+ * congeladores de racha disponibles.
+ */
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Platform } from 'react-native';
+import Fonts from '../../constants/Fonts';
+import { useStreak } from '../../hooks/useStreak';
+import { useTheme, useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { toDayKey } from '../../services/dayKeys';
+
+/** Formato de la cabecera del calendario, p. ej. "marzo de 2025" */
+const MONTH_FORMAT: Intl.DateTimeFormatOptions = { month: 'long', year: 'numeric' };
+
+const heatLevel = (count: number) => (count <= 0 ? 0 : count === 1 ? 1 : count <= 3 ? 2 : 3);
+
+/**
+ * @interface StreakHeatmapProps
+ * @description Propiedades para el componente StreakHeatmap
+ */
+interface StreakHeatmapProps {
+  /** Estilos adicionales para el contenedor */
+  style?: object;
+}
+
+/**
+ * @component StreakHeatmap
+ * @description Calendario mensual con la actividad de aprendizaje y el resumen de racha.
+ * Permite navegar entre meses; los días cubiertos por un congelador se marcan con ❄.
+ */
+const StreakHeatmap: React.FC<StreakHeatmapProps> = memo(({ style }) => {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, formatDate } = useTranslation();
+  /** Iniciales de los días de la semana, empezando en lunes */
+  const weekdayLabels = t('streak.weekdays').split(',');
+  /**
+   * Colores del mapa de calor según el número de actividades del día
+   * (0, 1, 2-3 y 4 o más)
+   */
+  const heatColors = [theme.surface, theme.accentSoft, theme.accent, theme.accentStrong];
+  const { state, summary } = useStreak();
+
+  /** Mes visible, como primer día del mes en hora local */
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+
+  const todayKey = toDayKey(Date.now());
+  const frozenDays = useMemo(() => new Set(state.frozenDays), [state.frozenDays]);
+
+  /**
+   * Celdas del calendario: huecos iniciales para alinear el día 1 con su día
+   * de la semana, seguidos de los días del mes
+   */
+  const cells = useMemo(() => {
+    const year = visibleMonth.getFullYear();
+    const month = visibleMonth.getMonth();
+    const leadingBlanks = (visibleMonth.getDay() + 6) % 7; // Lunes = 0
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+    const result: ({ day: number; key: string } | null)[] = Array(leadingBlanks).fill(null);
+    for (let day = 1; day <= daysInMonth; day++) {
+      result.push({ day, key: toDayKey(new Date(year, month, day).getTime()) });
+    }
+    return result;
+  }, [visibleMonth]);
+
+  const monthTitle = formatDate(visibleMonth, MONTH_FORMAT);
+
+  /** Cambia el mes visible hacia delante o hacia atrás */
+  const changeMonth = useCallback((offset: number) => {
+    setVisibleMonth(current => new Date(current.getFullYear(), current.getMonth() + offset, 1));
+  }, []);
+
+  return (
+    <View style={[styles.container, style]}>
+      {/* Resumen de la racha */}
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>🔥 {summary.currentStreak}</Text>
+          <Text style={styles.summaryLabel}>{t('streak.current')}</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{summary.longestStreak}</Text>
+          <Text style={styles.summaryLabel}>{t('streak.longest')}</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>❄ {summary.freezeTokens}</Text>
+          <Text style={styles.summaryLabel}>{t('streak.freezes')}</Text>
+        </View>
+      </View>
+
+      {/* Navegación entre meses */}
+      <View style={styles.monthRow}>
+        <TouchableOpacity
+          onPress={() => changeMonth(-1)}
+          style={styles.monthButton}
+          accessibilityLabel={t('streak.previousMonth')}
+        >
+          <Text style={styles.monthButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>{monthTitle.charAt(0).toUpperCase() + monthTitle.slice(1)}</Text>
+        <TouchableOpacity
+          onPress={() => changeMonth(1)}
+          style={styles.monthButton}
+          accessibilityLabel={t('streak.nextMonth')}
+        >
+          <Text style={styles.monthButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Cabecera con los días de la semana */}
+      <View style={styles.grid}>
+        {weekdayLabels.map((label, index) => (
+          <View key={index} style={styles.cell}>
+            <Text style={styles.weekdayText}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Días del mes coloreados según la actividad */}
+      <View style={styles.grid}>
+        {cells.map((cell, index) => {
+          if (!cell) return <View key={`blank-${index}`} style={styles.cell} />;
+
+          const count = state.activity[cell.key] ?? 0;
+          const isFrozen = frozenDays.has(cell.key);
+          const level = heatLevel(count);
+
+          return (
+            <View key={cell.key} style={styles.cell}>
+              <View
+                style={[
+                  styles.day,
+                  { backgroundColor: isFrozen ? theme.accentSoft : heatColors[level] },
+                  cell.key === todayKey && styles.today,
+                ]}
+                accessibilityLabel={
+                  isFrozen
+                    ? t('streak.frozenDay', { day: cell.day })
+                    : t('streak.dayActivity', { day: cell.day, count })
+                }
+              >
+                <Text style={[styles.dayText, level >= 2 && !isFrozen && styles.dayTextOnDark]}>
+                  {isFrozen ? '❄' : cell.day}
+                </Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+});
+
+StreakHeatmap.displayName = 'StreakHeatmap';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  // Contenedor principal con fondo claro y sombra suave
+  container: {
+    backgroundColor: theme.background,
+    borderRadius: 15,
+    padding: 15,
+    borderWidth: 1,
+    borderColor: theme.border,
+    ...Platform.select({
+      ios: {
+        shadowColor: theme.brand,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.2,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+
+  // Fila con los tres valores del resumen de racha
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 15,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 18,
+    color: theme.text,
+  },
+  summaryLabel: {
+    fontFamily: Fonts.nunito,
+    fontSize: 12,
+    color: theme.textMuted,
+  },
+
+  // Cabecera del mes con los botones de navegación
+  monthRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  monthButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: theme.accent,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  monthButtonText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.onAccent,
+    lineHeight: 24,
+  },
+  monthTitle: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 16,
+    color: theme.text,
+  },
+
+  // Rejilla de siete columnas
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  weekdayText: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 12,
+    color: theme.textMuted,
+  },
+
+  // Casilla de un día
+  day: {
+    flex: 1,
+    alignSelf: 'stretch',
+    borderRadius: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  // Borde que resalta el día actual
+  today: {
+    borderWidth: 2,
+    borderColor: theme.brand,
+  },
+  dayText: {
+    fontFamily: Fonts.nunito,
+    fontSize: 12,
+    color: theme.text,
+  },
+  // Texto claro sobre los niveles de actividad más oscuros
+  dayTextOnDark: {
+    color: theme.onAccent,
+  },
+});
+
+export default StreakHeatmap;
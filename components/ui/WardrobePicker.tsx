@@ -0,0 +1,288 @@
+/**
+ * @file WardrobePicker.tsx
+ * @description Armario para componer el avatar: una vista previa que cambia
+ * en directo y una pestaña por capa con sus prendas. Las prendas bloqueadas
+ * indican qué logro hay que completar, salvo si es un logro secreto.
+ */
+import React, { memo, useEffect, useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, ScrollView } from 'react-native';
+import { WARDROBE_SLOTS, WARDROBE_TABS } from '../../constants/Wardrobe';
+import Fonts from '../../constants/Fonts';
+import { useAchievements } from '../../hooks/useAchievements';
+import { useReducedMotion } from '../../hooks/useMotionPreferences';
+import { useThemedStyles, type ThemeColors } from '../../hooks/useTheme';
+import { useTranslation } from '../../hooks/useTranslation';
+import { isRevealed } from '../../services/achievementEngine';
+import {
+  getLockingAchievement,
+  getWardrobeItems,
+  type AvatarLayers,
+  type WardrobeItem,
+  type WardrobeSlot,
+} from '../../services/wardrobe';
+import AvatarView from './AvatarView';
+
+/** Diámetro de la vista previa */
+const PREVIEW_SIZE = 140;
+
+/**
+ * @interface WardrobePickerProps
+ * @description Propiedades del componente
+ */
+interface WardrobePickerProps {
+  visible: boolean;
+  /** Capas con las que se abre el armario */
+  initialLayers: AvatarLayers;
+  onSave: (layers: AvatarLayers) => void;
+  onClose: () => void;
+}
+
+/**
+ * @component WardrobePicker
+ * @description Modal del armario. Los cambios solo se aplican al guardar.
+ */
+const WardrobePicker: React.FC<WardrobePickerProps> = memo(({ visible, initialLayers, onSave, onClose }) => {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useTranslation();
+  const reduceMotion = useReducedMotion();
+  const { achievements } = useAchievements();
+
+  const [draft, setDraft] = useState(initialLayers);
+  const [slot, setSlot] = useState<WardrobeSlot>(WARDROBE_TABS[0]);
+  /** Explicación de la última prenda bloqueada que se ha pulsado */
+  const [hint, setHint] = useState<string | null>(null);
+
+  // Cada vez que se abre, el armario empieza con el avatar guardado
+  useEffect(() => {
+    if (!visible) return;
+    setDraft(initialLayers);
+    setHint(null);
+  }, [visible, initialLayers]);
+
+  const selectItem = (item: WardrobeItem | null) => {
+    const locking = item && getLockingAchievement(item, achievements);
+    if (locking) {
+      setHint(isRevealed(locking)
+        ? t('wardrobe.lockedBy', { achievement: locking.title })
+        : t('wardrobe.lockedSecret'));
+      return;
+    }
+    setHint(null);
+    setDraft(current => ({ ...current, [slot]: item ? item.id : null }));
+  };
+
+  const renderSwatch = (item: WardrobeItem) => {
+    if (item.kind === 'color') return <View style={[styles.colorSwatch, { backgroundColor: item.color }]} />;
+    if (item.kind === 'emoji') return <Text style={styles.emojiSwatch}>{item.glyph}</Text>;
+    return null;
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType={reduceMotion ? 'none' : 'slide'} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet} accessibilityViewIsModal>
+          <Text style={styles.title} accessibilityRole="header">{t('wardrobe.title')}</Text>
+
+          <AvatarView
+            avatar={{ kind: 'composed', layers: draft }}
+            size={PREVIEW_SIZE}
+            style={styles.preview}
+            accessibilityLabel={t('wardrobe.preview')}
+          />
+
+          {/* Una pestaña por capa */}
+          <View style={styles.tabs} accessibilityRole="tablist">
+            {WARDROBE_TABS.map(tab => (
+              <TouchableOpacity
+                key={tab}
+                style={[styles.tab, tab === slot && styles.tabSelected]}
+                onPress={() => {
+                  setSlot(tab);
+                  setHint(null);
+                }}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: tab === slot }}
+              >
+                <Text style={[styles.tabText, tab === slot && styles.tabTextSelected]}>{t(`wardrobeSlot.${tab}`)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView contentContainerStyle={styles.grid}>
+            {WARDROBE_SLOTS[slot].optional && (
+              <TouchableOpacity
+                style={[styles.item, draft[slot] === null && styles.itemSelected]}
+                onPress={() => selectItem(null)}
+                accessibilityRole="radio"
+                accessibilityLabel={t('wardrobe.none')}
+                accessibilityState={{ checked: draft[slot] === null }}
+              >
+                <Text style={styles.noneText}>✕</Text>
+              </TouchableOpacity>
+            )}
+            {getWardrobeItems(slot).map(item => {
+              const locked = !!getLockingAchievement(item, achievements);
+              const selected = draft[slot] === item.id;
+              return (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.item, selected && styles.itemSelected, locked && styles.itemLocked]}
+                  onPress={() => selectItem(item)}
+                  accessibilityRole="radio"
+                  accessibilityLabel={locked ? t('wardrobe.lockedLabel', { item: t(`wardrobe.${item.id}`) }) : t(`wardrobe.${item.id}`)}
+                  accessibilityState={{ checked: selected, disabled: locked }}
+                >
+                  {renderSwatch(item)}
+                  {locked && <Text style={styles.lockBadge}>🔒</Text>}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {hint && <Text style={styles.hint} accessibilityLiveRegion="polite">{hint}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.secondaryButton} onPress={onClose} accessibilityRole="button">
+              <Text style={styles.secondaryButtonText}>{t('common.back')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.primaryButton} onPress={() => onSave(draft)} accessibilityRole="button">
+              <Text style={styles.primaryButtonText}>{t('common.save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+});
+
+WardrobePicker.displayName = 'WardrobePicker';
+
+/**
+ * Estilos del componente
+ */
+const createStyles = (theme: ThemeColors) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: theme.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: theme.highlight,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: '90%',
+  },
+  title: {
+    fontFamily: Fonts.nunitoBold,
+    fontSize: 20,
+    color: theme.text,
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  preview: {
+    alignSelf: 'center',
+    marginBottom: 15,
+  },
+  tabs: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 10,
+  },
+  tab: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 15,
+    marginHorizontal: 3,
+  },
+  tabSelected: {
+    backgroundColor: theme.accent,
+  },
+  tabText: {
+    fontFamily: Fonts.sourceSansBold,
+    fontSize: 14,
+    color: theme.text,
+  },
+  tabTextSelected: {
+    color: theme.onAccent,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+  item: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    margin: 6,
+    backgroundColor: theme.surface,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  itemSelected: {
+    borderColor: theme.accent,
+  },
+  itemLocked: {
+    opacity: 0.5,
+  },
+  colorSwatch: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+  },
+  emojiSwatch: {
+    fontSize: 30,
+  },
+  noneText: {
+    fontSize: 22,
+    color: theme.textMuted,
+  },
+  lockBadge: {
+    position: 'absolute',
+    right: -2,
+    bottom: -2,
+    fontSize: 16,
+  },
+  hint: {
+    fontFamily: Fonts.sourceSans,
+    fontSize: 14,
+    color: theme.text,
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 15,
+  },
+  primaryButton: {
+    backgroundColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 25,
+    marginHorizontal: 6,
+  },
+  primaryButtonText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.onAccent,
+    fontSize: 16,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: theme.accent,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+    borderRadius: 25,
+    marginHorizontal: 6,
+  },
+  secondaryButtonText: {
+    fontFamily: Fonts.sourceSansBold,
+    color: theme.accent,
+    fontSize: 16,
+  },
+});
+
+export default WardrobePicker;
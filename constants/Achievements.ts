@@ -0,0 +1,157 @@
+/**
+ * Catálogo de logros de la aplicación.
+ * Cada logro declara la regla que lo completa; el progreso lo calcula el motor
+ * de logros (services/achievementEngine) a partir de los eventos de aprendizaje.
+ */
+import type {
+  AchievementDefinition,
+  AchievementRarity,
+  AchievementTierId,
+} from '../services/achievementEngine';
+import { Palette } from './Colors';
+
+/**
+ * Color con el que se muestra cada rareza. El nombre visible es el mensaje
+ * `rarity.<id>` de los catálogos de traducción.
+ */
+export const RARITIES: Record<AchievementRarity, { color: string }> = {
+  common: { color: Palette.darkGray },
+  rare: { color: Palette.blue },
+  epic: { color: Palette.darkRed },
+  legendary: { color: Palette.brown },
+};
+
+/** Medalla y color de cada nivel de los logros escalonados; el nombre es el mensaje `tier.<id>` */
+export const TIERS: Record<AchievementTierId, { medal: string; color: string }> = {
+  bronze: { medal: '🥉', color: '#CD7F32' },
+  silver: { medal: '🥈', color: '#A8A9AD' },
+  gold: { medal: '🥇', color: '#E6B325' },
+};
+
+/**
+ * Identificadores de las categorías de logros, en el orden en que se muestran
+ * en filtros y secciones. El nombre visible es el mensaje `category.<id>`.
+ */
+export const ACHIEVEMENT_CATEGORIES = [
+  'basic',
+  'consistency',
+  'vocabulary',
+  'conversation',
+  'grammar',
+  'culture',
+] as const;
+
+export type AchievementCategory = (typeof ACHIEVEMENT_CATEGORIES)[number];
+
+/**
+ * Identificadores de categoría de versiones anteriores, que eran los nombres
+ * en español, y su identificador actual
+ */
+export const LEGACY_CATEGORY_IDS: Record<string, AchievementCategory> = {
+  'básico': 'basic',
+  'constancia': 'consistency',
+  'vocabulario': 'vocabulary',
+  'conversación': 'conversation',
+  'gramática': 'grammar',
+  'cultura': 'culture',
+};
+
+/** Lecciones culturales del nivel básico que completan "Explorador Cultural" */
+export const BASIC_CULTURE_LESSONS = [
+  'cultura-basico-1',
+  'cultura-basico-2',
+  'cultura-basico-3',
+  'cultura-basico-4',
+  'cultura-basico-5',
+];
+
+/**
+ * Catálogo de logros. El título y la descripción son claves de los catálogos de
+ * traducción; el almacén de logros los traduce al idioma activo.
+ */
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: '1',
+    title: 'achievement.firstDay.title',
+    description: 'achievement.firstDay.description',
+    icon: require('../assets/images/capybara-front.png'),
+    category: 'basic',
+    points: 10,
+    rule: { type: 'streak', days: 1 },
+    rarity: 'common',
+    related: ['2'],
+  },
+  {
+    id: '2',
+    title: 'achievement.weekStreak.title',
+    description: 'achievement.weekStreak.description',
+    icon: require('../assets/images/capybara-profile1.png'),
+    category: 'consistency',
+    points: 50,
+    rule: { type: 'streak', days: 7 },
+    rarity: 'rare',
+    related: ['1'],
+  },
+  {
+    id: '3',
+    title: 'achievement.vocabularyExpert.title',
+    description: 'achievement.vocabularyExpert.description',
+    icon: require('../assets/images/capybara-gafas.jpg'),
+    category: 'vocabulary',
+    points: 600,
+    rule: { type: 'counter', event: 'word_learned', target: 1000 },
+    rarity: 'rare',
+    related: ['4', '5'],
+    tiers: [
+      { id: 'bronze', target: 100, points: 100 },
+      { id: 'silver', target: 500, points: 200 },
+      { id: 'gold', target: 1000, points: 300 },
+    ],
+  },
+  {
+    id: '4',
+    title: 'achievement.masterConversationalist.title',
+    description: 'achievement.masterConversationalist.description',
+    icon: require('../assets/images/capybara-gorro.jpg'),
+    category: 'conversation',
+    points: 150,
+    rule: { type: 'counter', event: 'conversation_finished', target: 20 },
+    rarity: 'epic',
+    related: ['3'],
+    premium: true,
+  },
+  {
+    id: '5',
+    title: 'achievement.perfectGrammar.title',
+    description: 'achievement.perfectGrammar.description',
+    icon: require('../assets/images/capybara-sombrero.jpg'),
+    category: 'grammar',
+    points: 200,
+    rule: { type: 'perfectScore', count: 10, skill: 'grammar' },
+    rarity: 'epic',
+    related: ['3'],
+  },
+  {
+    id: '6',
+    title: 'achievement.culturalExplorer.title',
+    description: 'achievement.culturalExplorer.description',
+    icon: require('../assets/images/capybara-verano.jpg'),
+    category: 'culture',
+    points: 250,
+    rule: { type: 'lessonSet', lessonIds: BASIC_CULTURE_LESSONS },
+    rarity: 'legendary',
+    related: ['4'],
+  },
+  {
+    id: '7',
+    title: 'achievement.unstoppableCapybara.title',
+    description: 'achievement.unstoppableCapybara.description',
+    icon: require('../assets/images/capybara-verano.jpg'),
+    category: 'consistency',
+    points: 300,
+    rule: { type: 'streak', days: 30 },
+    rarity: 'legendary',
+    related: ['2'],
+    visibility: 'hidden',
+  },
+];
@@ -0,0 +1,24 @@
+/**
+ * Imágenes de capibara que se pueden elegir como avatar, en el orden en que
+ * aparecen en el selector. El perfil guarda la clave, nunca la imagen, porque
+ * la referencia que devuelve Metro al importar un recurso puede cambiar entre
+ * versiones de la aplicación. El nombre accesible es el mensaje `avatar.<id>`.
+ */
+import type { ImageSourcePropType } from 'react-native';
+
+import type { AvatarId } from '../services/avatars';
+
+/**
+ * Imagen de cada avatar y nombre de su fichero, con el que se reconocen las
+ * referencias guardadas por versiones anteriores en la web
+ */
+export const AVATARS: Record<AvatarId, { source: ImageSourcePropType; file: string }> = {
+  front: { source: require('../assets/images/capybara-front.png'), file: 'capybara-front' },
+  glasses: { source: require('../assets/images/capybara-gafas.jpg'), file: 'capybara-gafas' },
+  beanie: { source: require('../assets/images/capybara-gorro.jpg'), file: 'capybara-gorro' },
+  hat: { source: require('../assets/images/capybara-sombrero.jpg'), file: 'capybara-sombrero' },
+  summer: { source: require('../assets/images/capybara-verano.jpg'), file: 'capybara-verano' },
+};
+
+/** Orden de los avatares en el selector */
+export const AVATAR_ORDER = Object.keys(AVATARS) as AvatarId[];
@@ -3,26 +3,10 @@
  * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
  */
 
-// Colores principales
-const light = '#F8F9FA';
-const dark = '#2B2929';
-const lightGray = '#F2F2F2';
-const gray = '#D1D1D1';
-const darkGray = '#595959';
-const textGray = '#615E5A';
-const yellow = '#FFC84A';
-const brown = '#774505';
-const lightBlue = '#D4E9FF';
-const blue = '#017CFE';
-const darkBlue = '#075AB2';
-const lightRed = '#CA9492';
-const red = '#E53935';
-const darkRed = '#AD2B28';
-const green = '#2E7D32';
-
-export const Colors = {
-  light: '#F8F9FA',
-  dark: '#2B2929',
+// Colores principales de la marca
+export const Palette = {
+  white: '#F8F9FA',
+  black: '#2B2929',
   lightGray: '#F2F2F2',
   gray: '#D1D1D1',
   darkGray: '#595959',
@@ -37,3 +21,76 @@ export const Colors = {
   darkRed: '#AD2B28',
   green: '#2E7D32',
 };
+
+/**
+ * Colores semánticos de cada tema. Los componentes usan estos nombres en lugar
+ * de los colores de la marca para que el modo oscuro funcione en toda la app.
+ */
+export const Colors = {
+  light: {
+    // Fondos
+    background: Palette.white, // Fondo general de pantallas y hojas
+    surface: Palette.lightGray, // Tarjetas, filas de menú y chips
+    highlight: Palette.yellow, // Fondo cálido de la marca (perfil y panel de logros)
+    highlightSoft: '#FFF9E6', // Variante suave del fondo cálido (logros completados)
+    border: Palette.gray,
+    overlay: 'rgba(0, 0, 0, 0.5)',
+    shadow: Palette.black,
+
+    // Texto
+    text: Palette.black,
+    textMuted: Palette.textGray,
+    textSubtle: Palette.darkGray,
+
+    // Acentos
+    accent: Palette.blue,
+    accentStrong: Palette.darkBlue,
+    accentSoft: Palette.lightBlue,
+    onAccent: Palette.white, // Texto e iconos sobre el acento
+    brand: Palette.brown, // Bordes y etiquetas sobre el fondo cálido
+    success: Palette.green,
+    celebration: Palette.yellow, // Brillos y bordes de los logros completados
+    danger: Palette.red,
+    dangerStrong: Palette.darkRed,
+    dangerSoft: Palette.lightRed,
+
+    // Usados por la plantilla de pestañas de Expo
+    tint: Palette.blue,
+    icon: Palette.darkGray,
+    tabIconDefault: Palette.darkGray,
+    tabIconSelected: Palette.blue,
+  },
+  dark: {
+    // Fondos
+    background: '#151718',
+    surface: '#23272A',
+    highlight: '#2E2414',
+    highlightSoft: '#3A3020',
+    border: '#3A3F44',
+    overlay: 'rgba(0, 0, 0, 0.7)',
+    shadow: '#000000',
+
+    // Texto
+    text: '#ECEDEE',
+    textMuted: '#B5AFA8',
+    textSubtle: '#9BA1A6',
+
+    // Acentos
+    accent: '#4DA3FF',
+    accentStrong: '#2F7FD6',
+    accentSoft: '#1C3350',
+    onAccent: Palette.white,
+    brand: '#D9A35B',
+    success: '#66BB6A',
+    celebration: Palette.yellow,
+    danger: '#EF5350',
+    dangerStrong: '#C62828',
+    dangerSoft: '#5C3A39',
+
+    // Usados por la plantilla de pestañas de Expo
+    tint: '#4DA3FF',
+    icon: '#9BA1A6',
+    tabIconDefault: '#9BA1A6',
+    tabIconSelected: '#4DA3FF',
+  },
+};
@@ -0,0 +1,26 @@
+/**
+ * Prefijos telefónicos que se pueden elegir en el perfil, en el orden en que
+ * aparecen en el selector. El nombre visible de cada país es el mensaje
+ * `country.<iso>` de los catálogos de traducción.
+ */
+import type { CountryCode, CountryIso } from '../services/profileValidation';
+
+/** País que se supone cuando un teléfono no lleva prefijo internacional */
+export const DEFAULT_COUNTRY: CountryIso = 'ES';
+
+export const COUNTRY_CODES: CountryCode[] = [
+  { iso: 'ES', dialCode: '34', nationalLength: [9, 9] },
+  { iso: 'MX', dialCode: '52', nationalLength: [10, 10] },
+  { iso: 'AR', dialCode: '54', nationalLength: [10, 11] },
+  { iso: 'CO', dialCode: '57', nationalLength: [10, 10] },
+  { iso: 'CL', dialCode: '56', nationalLength: [9, 9] },
+  { iso: 'PE', dialCode: '51', nationalLength: [8, 9] },
+  { iso: 'US', dialCode: '1', nationalLength: [10, 10], trunkPrefix: '1' },
+  { iso: 'CA', dialCode: '1', nationalLength: [10, 10], trunkPrefix: '1' },
+  { iso: 'GB', dialCode: '44', nationalLength: [9, 10], trunkPrefix: '0' },
+  { iso: 'FR', dialCode: '33', nationalLength: [9, 9], trunkPrefix: '0' },
+  { iso: 'DE', dialCode: '49', nationalLength: [6, 13], trunkPrefix: '0' },
+  { iso: 'IT', dialCode: '39', nationalLength: [6, 11] },
+  { iso: 'PT', dialCode: '351', nationalLength: [9, 9] },
+  { iso: 'BR', dialCode: '55', nationalLength: [10, 11] },
+];
@@ -0,0 +1,154 @@
+/**
+ * Documentos legales incluidos en la aplicación, en Markdown.
+ * Al cambiar el texto de un documento hay que subir su versión y su fecha de
+ * entrada en vigor: a quien aceptó la versión anterior se le pedirá aceptarlo
+ * de nuevo. Las anclas de los encabezados ("{#ancla}") son las mismas en todos
+ * los idiomas para que los enlaces (/privacy?section=ancla) funcionen en cualquiera.
+ */
+import type { LegalDocument } from '../services/legalDocuments';
+
+const TERMS_ES = `
+## Aceptación de los términos {#acceptance}
+
+Estos términos regulan el uso de **Aispeak**, una aplicación para aprender idiomas conversando con un tutor capibara. Al crear una cuenta o usar la aplicación aceptas estos términos y la [Política de Privacidad](/privacy).
+
+## Tu cuenta {#account}
+
+- Debes facilitar datos veraces y mantenerlos actualizados.
+- Eres responsable de la actividad que se realice con tu cuenta.
+- Puedes borrar tu cuenta en cualquier momento con el botón "Borrar cuenta" de la pantalla "Editar perfil".
+
+## Suscripciones {#subscriptions}
+
+Algunas funciones requieren una suscripción de pago. Las suscripciones se renuevan automáticamente al final de cada periodo salvo que las canceles antes de la fecha de renovación. Consulta las [condiciones de cancelación](#cancellation).
+
+### Cancelación {#cancellation}
+
+Si cancelas, conservas el acceso a las funciones de pago hasta el final del periodo ya abonado. No se reembolsan los periodos parciales salvo que la ley lo exija.
+
+## Uso aceptable {#acceptable-use}
+
+No puedes usar Aispeak para fines ilegales, para acosar a otras personas ni para intentar acceder sin permiso a los sistemas del servicio.
+
+## Cambios en los términos {#changes}
+
+Podemos actualizar estos términos. Cuando lo hagamos cambiará su versión y te pediremos que los aceptes de nuevo antes de seguir usando la aplicación.
+
+## Contacto {#contact}
+
+Si tienes dudas sobre estos términos escríbenos a legal@aispeak.app.
+`;
+
+const TERMS_EN = `
+## Acceptance of the terms {#acceptance}
+
+These terms govern your use of **Aispeak**, an app for learning languages by talking with a capybara tutor. By creating an account or using the app you accept these terms and the [Privacy Policy](/privacy).
+
+## Your account {#account}
+
+- You must provide accurate information and keep it up to date.
+- You are responsible for any activity carried out with your account.
+- You can delete your account at any time with the "Delete account" button on the "Edit profile" screen.
+
+## Subscriptions {#subscriptions}
+
+Some features require a paid subscription. Subscriptions renew automatically at the end of each period unless you cancel before the renewal date. See the [cancellation terms](#cancellation).
+
+### Cancellation {#cancellation}
+
+If you cancel, you keep access to paid features until the end of the period you already paid for. Partial periods are not refunded unless required by law.
+
+## Acceptable use {#acceptable-use}
+
+You may not use Aispeak for illegal purposes, to harass other people or to try to access the service's systems without permission.
+
+## Changes to the terms {#changes}
+
+We may update these terms. When we do, their version will change and we will ask you to accept them again before you keep using the app.
+
+## Contact {#contact}
+
+If you have questions about these terms, write to legal@aispeak.app.
+`;
+
+const PRIVACY_ES = `
+## Responsable del tratamiento {#controller}
+
+Aispeak es responsable de los datos personales que tratamos cuando usas la aplicación. Puedes contactarnos en privacy@aispeak.app.
+
+## Datos que tratamos {#data-we-collect}
+
+- **Datos de perfil:** nombre, correo electrónico, teléfono y foto o avatar.
+- **Progreso de aprendizaje:** lecciones, conversaciones, rachas y logros.
+- **Preferencias:** idioma de la interfaz y ajustes de animaciones.
+
+## Para qué los usamos {#purposes}
+
+Usamos tus datos para prestarte el servicio, guardar tu progreso, personalizar las lecciones y, si tienes una suscripción, gestionar los pagos. No vendemos tus datos.
+
+## Dónde se guardan {#storage}
+
+La mayor parte de tus datos se guarda en tu dispositivo. Los datos necesarios para tu cuenta y tu suscripción se guardan en nuestros servidores mientras la cuenta esté activa. Consulta [cuánto tiempo los conservamos](#retention).
+
+### Conservación {#retention}
+
+Cuando borras tu cuenta eliminamos tus datos en un plazo de 30 días, salvo los que debamos conservar por obligación legal.
+
+## Tus derechos {#your-rights}
+
+Puedes acceder a tus datos, rectificarlos, exportarlos o pedir que los borremos. También puedes oponerte a su tratamiento o presentar una reclamación ante la autoridad de protección de datos.
+
+## Cambios en esta política {#changes}
+
+Si cambiamos esta política cambiará su versión y te pediremos que la aceptes de nuevo. Los [Términos y Condiciones](/terms) explican cómo se aplican los cambios.
+`;
+
+const PRIVACY_EN = `
+## Data controller {#controller}
+
+Aispeak is responsible for the personal data we process when you use the app. You can contact us at privacy@aispeak.app.
+
+## Data we process {#data-we-collect}
+
+- **Profile data:** name, email address, phone number and photo or avatar.
+- **Learning progress:** lessons, conversations, streaks and achievements.
+- **Preferences:** interface language and animation settings.
+
+## What we use it for {#purposes}
+
+We use your data to provide the service, save your progress, personalize lessons and, if you have a subscription, manage payments. We do not sell your data.
+
+## Where it is stored {#storage}
+
+Most of your data is stored on your device. The data needed for your account and subscription is stored on our servers while your account is active. See [how long we keep it](#retention).
+
+### Retention {#retention}
+
+When you delete your account we erase your data within 30 days, except for data we must keep by law.
+
+## Your rights {#your-rights}
+
+You can access, correct or export your data, or ask us to delete it. You can also object to its processing or lodge a complaint with the data protection authority.
+
+## Changes to this policy {#changes}
+
+If we change this policy its version will change and we will ask you to accept it again. The [Terms and Conditions](/terms) explain how changes apply.
+`;
+
+/** Documentos legales, en el orden en que se muestran y se piden aceptar */
+export const LEGAL_DOCUMENTS: LegalDocument[] = [
+  {
+    id: 'terms',
+    title: 'legal.terms',
+    version: '2.0',
+    effectiveDate: '2025-07-01',
+    content: { es: TERMS_ES, en: TERMS_EN },
+  },
+  {
+    id: 'privacy',
+    title: 'legal.privacy',
+    version: '1.0',
+    effectiveDate: '2025-07-01',
+    content: { es: PRIVACY_ES, en: PRIVACY_EN },
+  },
+];
@@ -0,0 +1,31 @@
+/**
+ * Planes de suscripción y funciones que incluye cada uno.
+ * El nombre visible de un plan es el mensaje `plan.<id>` y el de una función,
+ * `planFeature.<id>`, de los catálogos de traducción.
+ */
+import type { BillingPeriod, PlanId } from '../services/billing';
+import type { PremiumFeature } from '../services/subscription';
+
+/**
+ * Precio y periodo de cada plan. El orden de las claves es el de la
+ * comparativa y el que decide si un cambio sube o baja de plan.
+ */
+export const PLANS: Record<PlanId, { price: number; currency: string; period: BillingPeriod | null }> = {
+  free: { price: 0, currency: 'EUR', period: null },
+  monthly: { price: 4.99, currency: 'EUR', period: 'month' },
+  annual: { price: 39.99, currency: 'EUR', period: 'year' },
+};
+
+/** Orden de los planes, de menor a mayor */
+export const PLAN_ORDER = Object.keys(PLANS) as PlanId[];
+
+/**
+ * Funciones que se comparan entre planes. Las de pago solo están disponibles
+ * con una suscripción activa.
+ */
+export const PLAN_FEATURES: { id: 'lessons' | 'achievements' | PremiumFeature; premium: boolean }[] = [
+  { id: 'lessons', premium: false },
+  { id: 'achievements', premium: false },
+  { id: 'premiumAchievements', premium: true },
+  { id: 'extraStreakFreezes', premium: true },
+];
@@ -0,0 +1,25 @@
+/**
+ * Configuración de la progresión de niveles.
+ * La experiencia (XP) acumulada son los puntos otorgados por los logros; la
+ * curva es no lineal, así que cada nivel cuesta más que el anterior.
+ */
+import type { ProgressionConfig } from '../services/progression';
+
+export const PROGRESSION: ProgressionConfig = {
+  // XP total para alcanzar el nivel N: baseXp * (N - 1) ^ exponent
+  baseXp: 100,
+  exponent: 1.5,
+  maxLevel: 30,
+  // Cada título se aplica desde su nivel hasta el siguiente título. Títulos y
+  // recompensas son claves de los catálogos de traducción
+  levels: [
+    { level: 1, title: 'progression.novice' },
+    { level: 2, title: 'progression.curious', reward: 'reward.profileFrame' },
+    { level: 4, title: 'progression.explorer', reward: 'reward.silverFrame' },
+    { level: 7, title: 'progression.conversationalist', reward: 'reward.hat' },
+    { level: 11, title: 'progression.polyglot', reward: 'reward.glasses' },
+    { level: 16, title: 'progression.sage', reward: 'reward.summerBackground' },
+    { level: 22, title: 'progression.master', reward: 'reward.goldenBadge' },
+    { level: 30, title: 'progression.legend', reward: 'reward.legendCrown' },
+  ],
+};
@@ -0,0 +1,53 @@
+/**
+ * Catálogo del armario del avatar compuesto. El nombre visible de una capa es
+ * el mensaje `wardrobeSlot.<id>` y el de una prenda, `wardrobe.<id>`, de los
+ * catálogos de traducción. Las prendas con `unlockedBy` se desbloquean al
+ * completar ese logro del catálogo de logros.
+ */
+import type { WardrobeItem, WardrobeSlot } from '../services/wardrobe';
+import { Palette } from './Colors';
+
+/**
+ * Capas del avatar en el orden en que se dibujan, de atrás hacia delante. Las
+ * capas de emoji se colocan con `top` y `size`, en fracciones del lado del avatar.
+ */
+export const WARDROBE_SLOTS: Record<WardrobeSlot, { optional: boolean; top: number; size: number }> = {
+  background: { optional: false, top: 0, size: 1 },
+  base: { optional: false, top: 0, size: 1 },
+  outfit: { optional: true, top: 0.66, size: 0.26 },
+  eyewear: { optional: true, top: 0.3, size: 0.24 },
+  headwear: { optional: true, top: -0.02, size: 0.34 },
+};
+
+/** Orden de las pestañas del armario */
+export const WARDROBE_TABS: WardrobeSlot[] = ['headwear', 'eyewear', 'outfit', 'background'];
+
+export const WARDROBE_ITEMS: WardrobeItem[] = [
+  // Fondos
+  { id: 'sunny', slot: 'background', kind: 'color', color: Palette.yellow },
+  { id: 'sky', slot: 'background', kind: 'color', color: Palette.lightBlue },
+  { id: 'meadow', slot: 'background', kind: 'color', color: '#B7E4A7' },
+  { id: 'sunset', slot: 'background', kind: 'color', color: '#FFB38A', unlockedBy: '6' },
+  { id: 'night', slot: 'background', kind: 'color', color: '#2B2D42', unlockedBy: '7' },
+
+  // Capibara base
+  { id: 'classic', slot: 'base', kind: 'image', source: require('../assets/images/capybara-front.png') },
+
+  // Ropa
+  { id: 'scarf', slot: 'outfit', kind: 'emoji', glyph: '🧣' },
+  { id: 'bow', slot: 'outfit', kind: 'emoji', glyph: '🎀' },
+  { id: 'medal', slot: 'outfit', kind: 'emoji', glyph: '🏅', unlockedBy: '2' },
+  { id: 'tie', slot: 'outfit', kind: 'emoji', glyph: '👔', unlockedBy: '4' },
+
+  // Gafas
+  { id: 'glasses', slot: 'eyewear', kind: 'emoji', glyph: '👓' },
+  { id: 'sunglasses', slot: 'eyewear', kind: 'emoji', glyph: '🕶️', unlockedBy: '1' },
+  { id: 'goggles', slot: 'eyewear', kind: 'emoji', glyph: '🥽', unlockedBy: '5' },
+
+  // Sombreros
+  { id: 'cap', slot: 'headwear', kind: 'emoji', glyph: '🧢' },
+  { id: 'topHat', slot: 'headwear', kind: 'emoji', glyph: '🎩', unlockedBy: '5' },
+  { id: 'graduationCap', slot: 'headwear', kind: 'emoji', glyph: '🎓', unlockedBy: '3' },
+  { id: 'sunHat', slot: 'headwear', kind: 'emoji', glyph: '👒', unlockedBy: '6' },
+  { id: 'crown', slot: 'headwear', kind: 'emoji', glyph: '👑', unlockedBy: '7' },
+];
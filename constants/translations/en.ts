@@ -0,0 +1,385 @@
+/**
+ * Catálogo de mensajes en inglés. Debe tener las mismas claves que el catálogo
+ * en español; el tipo lo comprueba al compilar.
+ */
+import type { MessageKey } from './es';
+
+export const en: Record<MessageKey, string> = {
+  // Comunes
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.confirm': 'Confirm',
+  'common.back': 'Back',
+  'common.pointsShort': '{points} pts',
+  'common.points': '{count, plural, one {# point} other {# points}}',
+  'common.percentComplete': '{percent} complete',
+
+  // Catálogo de logros
+  'achievement.firstDay.title': 'First Day',
+  'achievement.firstDay.description': 'Complete your first day of learning',
+  'achievement.weekStreak.title': '7-Day Streak',
+  'achievement.weekStreak.description': 'Keep a 7-day learning streak',
+  'achievement.vocabularyExpert.title': 'Vocabulary Expert',
+  'achievement.vocabularyExpert.description': 'Learn 100, 500 and 1000 new words',
+  'achievement.masterConversationalist.title': 'Master Conversationalist',
+  'achievement.masterConversationalist.description': 'Complete 20 practice conversations',
+  'achievement.perfectGrammar.title': 'Perfect Grammar',
+  'achievement.perfectGrammar.description': 'Get 10 perfect scores in grammar exercises',
+  'achievement.culturalExplorer.title': 'Cultural Explorer',
+  'achievement.culturalExplorer.description': 'Complete every basic-level culture lesson',
+  'achievement.unstoppableCapybara.title': 'Unstoppable Capybara',
+  'achievement.unstoppableCapybara.description': 'Keep a 30-day learning streak',
+
+  // Categorías, rarezas y niveles de los logros
+  'category.basic': 'Basics',
+  'category.consistency': 'Consistency',
+  'category.vocabulary': 'Vocabulary',
+  'category.conversation': 'Conversation',
+  'category.grammar': 'Grammar',
+  'category.culture': 'Culture',
+  'rarity.common': 'Common',
+  'rarity.rare': 'Rare',
+  'rarity.epic': 'Epic',
+  'rarity.legendary': 'Legendary',
+  'tier.bronze': 'Bronze',
+  'tier.silver': 'Silver',
+  'tier.gold': 'Gold',
+
+  // Títulos y recompensas de la progresión
+  'progression.novice': 'Novice Capybara',
+  'progression.curious': 'Curious Capybara',
+  'progression.explorer': 'Explorer Capybara',
+  'progression.conversationalist': 'Chatty Capybara',
+  'progression.polyglot': 'Polyglot Capybara',
+  'progression.sage': 'Wise Capybara',
+  'progression.master': 'Master Capybara',
+  'progression.legend': 'Legendary Capybara',
+  'reward.profileFrame': 'New profile frame',
+  'reward.silverFrame': 'Silver profile frame',
+  'reward.hat': 'Hat accessory',
+  'reward.glasses': 'Glasses accessory',
+  'reward.summerBackground': 'Summer background',
+  'reward.goldenBadge': 'Golden badge',
+  'reward.legendCrown': 'Legend crown',
+
+  // Tarjeta de logro
+  'achievementCard.tierLabel': '{tier} tier',
+  'achievementCard.tierMedal': '{tier} tier',
+  'achievementCard.openHint': 'Opens the achievement details',
+  'achievementCard.lockedLabel': 'Secret achievement, locked',
+  'achievementCard.lockedHint': 'Keep learning to discover it',
+  'achievementCard.premium': 'Premium',
+  'achievementCard.premiumLabel': 'requires a premium subscription',
+
+  // Detalle de logro
+  'achievementDetail.close': 'Close achievement details',
+  'achievementDetail.requirement': 'Requirement',
+  'achievementDetail.unlocked': 'Unlocked',
+  'achievementDetail.pending': 'Pending',
+  'achievementDetail.points': 'Points',
+  'achievementDetail.rarity': 'Rarity',
+  'achievementDetail.related': 'Related achievements',
+  'achievementDetail.share': 'Share',
+  'achievementDetail.shareMessage': 'I earned the "{title}" achievement on Aispeak!',
+  'achievementDetail.unitWords': 'words',
+  'achievementDetail.unitConversations': 'conversations',
+  'achievementDetail.unitLessons': 'lessons',
+  'achievementDetail.unitDays': 'days',
+  'achievementDetail.unitPerfectScores': 'perfect scores',
+  'achievementDetail.premiumRequired': 'This achievement is part of the premium subscription. Your progress is saved and it will be awarded when you subscribe.',
+  'achievementDetail.viewPlans': 'View plans',
+
+  // Aviso de desbloqueo
+  'unlockToast.heading': '🏆 Achievement unlocked!',
+  'unlockToast.tierHeading': '{medal} {tier} tier reached!',
+  'unlockToast.announcement': 'Achievement unlocked: {title}',
+  'unlockToast.tierAnnouncement': '{tier} tier reached in {title}',
+  'unlockToast.pointsGained': '+{points} pts',
+  'unlockToast.hint': 'Opens the achievement in My Achievements',
+
+  // Panel de logros
+  'achievements.title': 'My Achievements',
+  'achievements.close': 'Close achievements panel',
+  'achievements.completed': 'Completed',
+  'achievements.completedLabel': 'Completed: {completed} of {total}',
+  'achievements.points': 'Points',
+  'achievements.pointsLabel': 'Points: {points}',
+  'achievements.level': 'Level',
+  'achievements.levelLabel': 'Level: {level}',
+  'achievements.search': 'Search achievements',
+  'achievements.clearSearch': 'Clear search',
+  'achievements.sortBy': 'Sort by {mode}',
+  'achievements.group': 'Group',
+  'achievements.groupLabel': 'Group by category',
+  'achievements.filtersLabel': 'Achievement category filters',
+  'achievements.listLabel': 'Achievement list',
+  'achievements.emptySearch': 'No achievements match your search',
+  'achievements.emptyCategory': 'No achievements in this category',
+  'achievementFilter.all': 'All',
+  'achievementFilter.completed': 'Completed',
+  'achievementFilter.pending': 'Pending',
+  'achievementSort.default': 'Default',
+  'achievementSort.progress': 'Closest',
+  'achievementSort.points': 'Points',
+  'achievementSort.recent': 'Recent',
+  'achievementSort.alphabetical': 'Alphabetical',
+
+  // Progresión de niveles
+  'level.title': 'Level {level} · {title}',
+  'level.label': 'Level {level}, {title}',
+  'level.max': 'Max level',
+  'level.xp': '{current}/{total} XP',
+  'level.xpLabel': '{current} of {total} XP',
+  'levelUp.heading': 'You leveled up!',
+  'levelUp.level': 'Level {level}',
+  'levelUp.announcement': 'You leveled up! Level {level}, {title}',
+  'levelUp.close': 'Close celebration',
+  'levelUp.confirm': 'Awesome!',
+
+  // Calendario de racha
+  'streak.current': 'Current streak',
+  'streak.longest': 'Best streak',
+  'streak.freezes': 'Freezes',
+  'streak.previousMonth': 'Previous month',
+  'streak.nextMonth': 'Next month',
+  'streak.weekdays': 'M,T,W,T,F,S,S',
+  'streak.frozenDay': '{day}: streak frozen',
+  'streak.dayActivity': '{day}: {count, plural, one {# activity} other {# activities}}',
+
+  // Perfil
+  'profile.title': 'Profile',
+  'profile.editProfile': 'Edit profile',
+  'profile.changePhoto': 'Tap to change your photo',
+  'profile.personalInfo': 'Personal information',
+  'profile.name': 'Name',
+  'profile.email': 'Email',
+  'profile.phone': 'Phone',
+  'profile.deleteAccount': 'Delete account',
+  'profile.subscription': 'Subscription',
+  'profile.plan': 'Plan',
+  'profile.achievements': 'Achievements',
+  'profile.myAchievements': 'My Achievements',
+  'profile.availableAchievements': '{count, plural, one {# available} other {# available}}',
+  'profile.streak': 'Streak',
+  'profile.more': 'More',
+  'profile.animations': 'Animations',
+  'profile.animationsReduced': 'Reduced by the system',
+  'profile.language': 'Language',
+  'profile.languageSystem': 'System',
+  'profile.exportData': 'Export my data',
+  'profile.importData': 'Import data',
+  'profile.legalInfo': 'Legal information',
+  'profile.achievementsBenchmark': 'Achievements benchmark',
+  'profile.logout': 'Sign out',
+  'profile.version': 'Version {version}',
+  'profile.selectImage': 'Choose an image',
+  'profile.openWardrobe': 'Dress up your capybara',
+  'profile.choosePhoto': 'Use a photo from your gallery',
+  'profile.photoError': 'The photo could not be saved',
+
+  // Avatares
+  'avatar.front': 'Capybara',
+  'avatar.glasses': 'Capybara with glasses',
+  'avatar.beanie': 'Capybara with a beanie',
+  'avatar.hat': 'Capybara with a hat',
+  'avatar.summer': 'Summer capybara',
+  'avatar.photo': 'Your photo',
+  'avatar.composed': 'Your custom capybara',
+
+  // Armario del avatar
+  'wardrobe.title': 'Wardrobe',
+  'wardrobe.preview': 'Avatar preview',
+  'wardrobe.none': 'None',
+  'wardrobe.lockedBy': 'Complete the “{achievement}” achievement to unlock it',
+  'wardrobe.lockedSecret': 'Complete a secret achievement to unlock it',
+  'wardrobe.lockedLabel': '{item}, locked',
+  'wardrobeSlot.background': 'Background',
+  'wardrobeSlot.base': 'Capybara',
+  'wardrobeSlot.outfit': 'Outfit',
+  'wardrobeSlot.eyewear': 'Eyewear',
+  'wardrobeSlot.headwear': 'Headwear',
+  'wardrobe.sunny': 'Sunny',
+  'wardrobe.sky': 'Sky',
+  'wardrobe.meadow': 'Meadow',
+  'wardrobe.sunset': 'Sunset',
+  'wardrobe.night': 'Night',
+  'wardrobe.classic': 'Classic capybara',
+  'wardrobe.scarf': 'Scarf',
+  'wardrobe.bow': 'Bow',
+  'wardrobe.medal': 'Medal',
+  'wardrobe.tie': 'Tie',
+  'wardrobe.glasses': 'Glasses',
+  'wardrobe.sunglasses': 'Sunglasses',
+  'wardrobe.goggles': 'Goggles',
+  'wardrobe.cap': 'Cap',
+  'wardrobe.topHat': 'Top hat',
+  'wardrobe.graduationCap': 'Graduation cap',
+  'wardrobe.sunHat': 'Sun hat',
+  'wardrobe.crown': 'Crown',
+
+  // Formulario de perfil
+  'profileForm.nameRequired': 'Enter your name',
+  'profileForm.nameTooShort': 'Your name must be at least {min} characters long',
+  'profileForm.nameTooLong': 'Your name cannot be longer than {max} characters',
+  'profileForm.emailRequired': 'Enter your email address',
+  'profileForm.emailInvalid': 'Enter a valid email address, like name@example.com',
+  'profileForm.phoneInvalid': 'The phone number can only contain digits, spaces and hyphens',
+  'profileForm.phoneDigits': 'The number must have {count, plural, one {# digit} other {# digits}} for this country',
+  'profileForm.phoneDigitsRange': 'The number must have between {min} and {max} digits for this country',
+  'profileForm.countryCode': 'Country code: {country}, {code}',
+  'profileForm.selectCountry': 'Choose the country code',
+  'profileForm.unsavedTitle': 'Discard changes?',
+  'profileForm.unsavedMessage': 'You have unsaved changes to your profile.',
+  'profileForm.keepEditing': 'Keep editing',
+  'profileForm.discard': 'Discard',
+  'profileForm.saveError': 'Your changes could not be saved. Please try again.',
+
+  // Países del selector de prefijo telefónico
+  'country.ES': 'Spain',
+  'country.MX': 'Mexico',
+  'country.AR': 'Argentina',
+  'country.CO': 'Colombia',
+  'country.CL': 'Chile',
+  'country.PE': 'Peru',
+  'country.US': 'United States',
+  'country.CA': 'Canada',
+  'country.GB': 'United Kingdom',
+  'country.FR': 'France',
+  'country.DE': 'Germany',
+  'country.IT': 'Italy',
+  'country.PT': 'Portugal',
+  'country.BR': 'Brazil',
+
+  // Información legal
+  'legal.title': 'Legal Information',
+  'legal.terms': 'Terms and Conditions',
+  'legal.privacy': 'Privacy Policy',
+  'legal.accepted': 'Version {version} · Accepted',
+  'legal.pending': 'Version {version} · Pending acceptance',
+
+  // Suscripción
+  'plan.free': 'Free',
+  'plan.monthly': 'Monthly',
+  'plan.annual': 'Annual',
+  'planPrice.free': 'Free',
+  'planPrice.month': '{price} per month',
+  'planPrice.year': '{price} per year',
+  'planFeature.lessons': 'Daily lessons',
+  'planFeature.achievements': 'Achievements and levels',
+  'planFeature.premiumAchievements': 'Premium achievements',
+  'planFeature.extraStreakFreezes': 'Up to {count} streak freezes',
+  'subscription.title': 'Subscription',
+  'subscription.current': 'Current plan',
+  'subscription.freeDescription': 'You are on the free plan.',
+  'subscription.renewsOn': 'Renews on {date}',
+  'subscription.endsOn': 'Canceled: premium features end on {date}',
+  'subscription.changesOn': 'Switches to the {plan} plan on {date}',
+  'subscription.compare': 'Compare plans',
+  'subscription.included': 'included',
+  'subscription.notIncluded': 'not included',
+  'subscription.subscribe': 'Get {plan}',
+  'subscription.upgrade': 'Upgrade to {plan}',
+  'subscription.downgrade': 'Switch to {plan}',
+  'subscription.cancel': 'Cancel subscription',
+  'subscription.resume': 'Resume subscription',
+  'subscription.confirmSubscribe': 'You are about to get the {plan} plan for {price}.',
+  'subscription.confirmUpgrade': 'You will switch to the {plan} plan right away, for {price}.',
+  'subscription.confirmDowngrade': 'You will switch to the {plan} plan on {date}. Until then you keep your current plan.',
+  'subscription.confirmCancel': 'Your subscription will not renew. You keep premium features until {date}.',
+  'subscription.error': 'The operation could not be completed. Please try again.',
+
+  // Inicio de sesión y registro
+  'auth.signInTitle': 'Welcome',
+  'auth.signInSubtitle': 'Sign in with your email and password',
+  'auth.magicLinkSubtitle': 'We will email you a link to sign in without a password',
+  'auth.signUpTitle': 'Create account',
+  'auth.signUpSubtitle': 'Create your account with your email and a password',
+  'auth.password': 'Password',
+  'auth.confirmPassword': 'Repeat the password',
+  'auth.passwordRequired': 'Enter your password',
+  'auth.passwordTooShort': 'The password must have at least {min} characters',
+  'auth.passwordMismatch': 'The passwords do not match',
+  'auth.signIn': 'Sign in',
+  'auth.signUp': 'Create account',
+  'auth.sendMagicLink': 'Email me a link',
+  'auth.magicLinkSent': 'We sent a link to {email}. Open it on this device to sign in.',
+  'auth.useMagicLink': 'Sign in with an email link',
+  'auth.usePassword': 'Sign in with a password',
+  'auth.noAccount': 'No account yet? Create one',
+  'auth.haveAccount': 'Already have an account? Sign in',
+  'auth.verifyingLink': 'Checking the link…',
+  'auth.backToSignIn': 'Back to sign in',
+  'authError.invalidCredentials': 'The email or password is not correct',
+  'authError.emailInUse': 'There is already an account with this email',
+  'authError.invalidLink': 'The link is not valid or has expired. Ask for a new one.',
+  'authError.sessionExpired': 'Your session has expired. Please sign in again.',
+  'authError.unavailable': 'We could not connect. Please try again.',
+
+  // Borrado de la cuenta
+  'deleteAccount.title': 'Delete account',
+  'deleteAccount.intro': 'This data will be deleted from this device:',
+  'deleteAccount.data.profile': 'Your profile and photo',
+  'deleteAccount.data.achievements': 'Your achievements, points and level',
+  'deleteAccount.data.streak': 'Your streak and its history',
+  'deleteAccount.data.preferences': 'Your preferences and accepted legal documents',
+  'deleteAccount.subscriptionNote': 'Your subscription is not canceled: manage it from the app store.',
+  'deleteAccount.gracePeriod': 'You will have {count, plural, one {# day} other {# days}} to undo the deletion. If you want to keep a copy, export it first.',
+  'deleteAccount.export': 'Export my data',
+  'deleteAccount.exportError': 'Your data could not be exported',
+  'deleteAccount.continue': 'Continue',
+  'deleteAccount.confirmWord': 'DELETE',
+  'deleteAccount.typeToConfirm': 'Type {word} to confirm',
+  'deleteAccount.confirm': 'Delete my account in {count, plural, one {# day} other {# days}}',
+  'deleteAccount.pending': 'Your account will be deleted on {date}.',
+  'deleteAccount.undo': 'Undo deletion',
+  'deleteAccount.undone': 'Your account deletion has been canceled',
+  'deleteAccount.error': 'The operation could not be completed. Please try again.',
+
+  // Importación de datos
+  'dataImport.title': 'Import data',
+  'dataImport.intro': 'Choose a file exported from the More section to restore your data on this device.',
+  'dataImport.pick': 'Choose file',
+  'dataImport.pickAnother': 'Choose another file',
+  'dataImport.exportedAt': 'Exported on {date}',
+  'dataImport.mode': 'How to import',
+  'dataImport.mode.merge': 'Merge',
+  'dataImport.mode.mergeDescription': 'Adds the achievements, points and streak days from the file and keeps your settings and the profile details you already have.',
+  'dataImport.mode.replace': 'Replace',
+  'dataImport.mode.replaceDescription': 'Leaves your profile, achievements, streak and settings exactly as they are in the file.',
+  'dataImport.changes': 'Changes',
+  'dataImport.change': '{label}: {from} → {to}',
+  'dataImport.noChanges': 'The file does not change any of your data.',
+  'dataImport.notImported': 'Profile photos and accepted legal documents are not imported.',
+  'dataImport.avatar': 'Avatar',
+  'dataImport.events': 'Recorded activities',
+  'dataImport.unlocked': 'Unlocked achievements',
+  'dataImport.points': 'Points',
+  'dataImport.activeDays': 'Active days',
+  'dataImport.achievementView': 'Achievements panel view',
+  'dataImport.on': 'On',
+  'dataImport.off': 'Off',
+  'dataImport.empty': 'empty',
+  'dataImport.import': 'Import',
+  'dataImport.confirmReplace': 'Your data will be replaced with the data in the file. This cannot be undone.',
+  'dataImport.done': 'Your data has been imported',
+  'dataImport.error.unreadable': 'The file could not be read',
+  'dataImport.error.invalid': 'The file is not a valid data export',
+  'dataImport.error.unsupportedVersion': 'The file comes from a newer version of the app. Update it to import the file.',
+  'dataImport.error.save': 'The imported data could not be saved',
+
+  // Visor de documentos legales
+  'legalDocument.version': 'Version {version}',
+  'legalDocument.effectiveDate': 'Effective {date}',
+  'legalDocument.contents': 'Contents',
+  'legalDocument.acceptedOn': 'You accepted version {version} on {date}',
+  'legalDocument.previousVersion': 'You accepted version {version}, which this one replaces.',
+  'legalDocument.accept': 'Accept version {version}',
+
+  // Aviso de documentos legales pendientes
+  'legalUpdate.firstTitle': 'Before you start',
+  'legalUpdate.firstMessage': 'To use Aispeak, please read and accept these documents.',
+  'legalUpdate.updatedTitle': 'We updated a legal document',
+  'legalUpdate.updatedMessage': 'Read the changes and accept the new version to keep using Aispeak.',
+  'legalUpdate.progress': '{count, plural, one {# document} other {# documents}} left to accept',
+  'legalUpdate.back': 'Back to {title}',
+};
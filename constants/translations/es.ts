@@ -0,0 +1,386 @@
+/**
+ * Catálogo de mensajes en español, el idioma de referencia de la aplicación.
+ * Las claves van agrupadas por pantalla o componente; los mensajes usan la
+ * sintaxis ICU que entiende services/i18n.
+ */
+export const es = {
+  // Comunes
+  'common.save': 'Guardar',
+  'common.close': 'Cerrar',
+  'common.confirm': 'Confirmar',
+  'common.back': 'Volver',
+  'common.pointsShort': '{points} pts',
+  'common.points': '{count, plural, one {# punto} other {# puntos}}',
+  'common.percentComplete': '{percent} completado',
+
+  // Catálogo de logros
+  'achievement.firstDay.title': 'Primer Día',
+  'achievement.firstDay.description': 'Completa tu primer día de aprendizaje',
+  'achievement.weekStreak.title': 'Racha de 7 días',
+  'achievement.weekStreak.description': 'Mantén una racha de aprendizaje de 7 días',
+  'achievement.vocabularyExpert.title': 'Vocabulario Experto',
+  'achievement.vocabularyExpert.description': 'Aprende 100, 500 y 1000 palabras nuevas',
+  'achievement.masterConversationalist.title': 'Maestro Conversador',
+  'achievement.masterConversationalist.description': 'Completa 20 conversaciones prácticas',
+  'achievement.perfectGrammar.title': 'Gramática Perfecta',
+  'achievement.perfectGrammar.description': 'Obtén 10 puntuaciones perfectas en ejercicios de gramática',
+  'achievement.culturalExplorer.title': 'Explorador Cultural',
+  'achievement.culturalExplorer.description': 'Completa todas las lecciones culturales del nivel básico',
+  'achievement.unstoppableCapybara.title': 'Capybara Imparable',
+  'achievement.unstoppableCapybara.description': 'Mantén una racha de aprendizaje de 30 días',
+
+  // Categorías, rarezas y niveles de los logros
+  'category.basic': 'Básicos',
+  'category.consistency': 'Constancia',
+  'category.vocabulary': 'Vocabulario',
+  'category.conversation': 'Conversación',
+  'category.grammar': 'Gramática',
+  'category.culture': 'Cultura',
+  'rarity.common': 'Común',
+  'rarity.rare': 'Raro',
+  'rarity.epic': 'Épico',
+  'rarity.legendary': 'Legendario',
+  'tier.bronze': 'Bronce',
+  'tier.silver': 'Plata',
+  'tier.gold': 'Oro',
+
+  // Títulos y recompensas de la progresión
+  'progression.novice': 'Capybara Novato',
+  'progression.curious': 'Capybara Curioso',
+  'progression.explorer': 'Capybara Explorador',
+  'progression.conversationalist': 'Capybara Conversador',
+  'progression.polyglot': 'Capybara Políglota',
+  'progression.sage': 'Capybara Sabio',
+  'progression.master': 'Capybara Maestro',
+  'progression.legend': 'Capybara Leyenda',
+  'reward.profileFrame': 'Nuevo marco de perfil',
+  'reward.silverFrame': 'Marco de perfil plateado',
+  'reward.hat': 'Accesorio de sombrero',
+  'reward.glasses': 'Accesorio de gafas',
+  'reward.summerBackground': 'Fondo de verano',
+  'reward.goldenBadge': 'Insignia dorada',
+  'reward.legendCrown': 'Corona de leyenda',
+
+  // Tarjeta de logro
+  'achievementCard.tierLabel': 'nivel {tier}',
+  'achievementCard.tierMedal': 'Nivel {tier}',
+  'achievementCard.openHint': 'Abre el detalle del logro',
+  'achievementCard.lockedLabel': 'Logro secreto, bloqueado',
+  'achievementCard.lockedHint': 'Sigue aprendiendo para descubrirlo',
+  'achievementCard.premium': 'Premium',
+  'achievementCard.premiumLabel': 'requiere suscripción premium',
+
+  // Detalle de logro
+  'achievementDetail.close': 'Cerrar detalle del logro',
+  'achievementDetail.requirement': 'Requisito',
+  'achievementDetail.unlocked': 'Desbloqueado',
+  'achievementDetail.pending': 'Pendiente',
+  'achievementDetail.points': 'Puntos',
+  'achievementDetail.rarity': 'Rareza',
+  'achievementDetail.related': 'Logros relacionados',
+  'achievementDetail.share': 'Compartir',
+  'achievementDetail.shareMessage': '¡He conseguido el logro "{title}" en Aispeak!',
+  'achievementDetail.unitWords': 'palabras',
+  'achievementDetail.unitConversations': 'conversaciones',
+  'achievementDetail.unitLessons': 'lecciones',
+  'achievementDetail.unitDays': 'días',
+  'achievementDetail.unitPerfectScores': 'puntuaciones perfectas',
+  'achievementDetail.premiumRequired': 'Este logro forma parte de la suscripción premium. Tu progreso se guarda y se otorgará al suscribirte.',
+  'achievementDetail.viewPlans': 'Ver planes',
+
+  // Aviso de desbloqueo
+  'unlockToast.heading': '🏆 ¡Logro desbloqueado!',
+  'unlockToast.tierHeading': '{medal} ¡Nivel {tier} conseguido!',
+  'unlockToast.announcement': 'Logro desbloqueado: {title}',
+  'unlockToast.tierAnnouncement': 'Nivel {tier} conseguido en {title}',
+  'unlockToast.pointsGained': '+{points} pts',
+  'unlockToast.hint': 'Abre el logro en Mis Logros',
+
+  // Panel de logros
+  'achievements.title': 'Mis Logros',
+  'achievements.close': 'Cerrar panel de logros',
+  'achievements.completed': 'Completados',
+  'achievements.completedLabel': 'Completados: {completed} de {total}',
+  'achievements.points': 'Puntos',
+  'achievements.pointsLabel': 'Puntos: {points}',
+  'achievements.level': 'Nivel',
+  'achievements.levelLabel': 'Nivel: {level}',
+  'achievements.search': 'Buscar logros',
+  'achievements.clearSearch': 'Borrar búsqueda',
+  'achievements.sortBy': 'Ordenar por {mode}',
+  'achievements.group': 'Agrupar',
+  'achievements.groupLabel': 'Agrupar por categoría',
+  'achievements.filtersLabel': 'Filtros de categorías de logros',
+  'achievements.listLabel': 'Lista de logros',
+  'achievements.emptySearch': 'Ningún logro coincide con la búsqueda',
+  'achievements.emptyCategory': 'No hay logros en esta categoría',
+  'achievementFilter.all': 'Todos',
+  'achievementFilter.completed': 'Completados',
+  'achievementFilter.pending': 'Pendientes',
+  'achievementSort.default': 'Predeterminado',
+  'achievementSort.progress': 'Más cercanos',
+  'achievementSort.points': 'Puntos',
+  'achievementSort.recent': 'Recientes',
+  'achievementSort.alphabetical': 'Alfabético',
+
+  // Progresión de niveles
+  'level.title': 'Nivel {level} · {title}',
+  'level.label': 'Nivel {level}, {title}',
+  'level.max': 'Nivel máximo',
+  'level.xp': '{current}/{total} XP',
+  'level.xpLabel': '{current} de {total} XP',
+  'levelUp.heading': '¡Subiste de nivel!',
+  'levelUp.level': 'Nivel {level}',
+  'levelUp.announcement': '¡Subiste de nivel! Nivel {level}, {title}',
+  'levelUp.close': 'Cerrar celebración',
+  'levelUp.confirm': '¡Genial!',
+
+  // Calendario de racha
+  'streak.current': 'Racha actual',
+  'streak.longest': 'Mejor racha',
+  'streak.freezes': 'Congeladores',
+  'streak.previousMonth': 'Mes anterior',
+  'streak.nextMonth': 'Mes siguiente',
+  'streak.weekdays': 'L,M,X,J,V,S,D',
+  'streak.frozenDay': '{day}: racha congelada',
+  'streak.dayActivity': '{day}: {count, plural, one {# actividad} other {# actividades}}',
+
+  // Perfil
+  'profile.title': 'Perfil',
+  'profile.editProfile': 'Editar perfil',
+  'profile.changePhoto': 'Pulsa para cambiar la foto',
+  'profile.personalInfo': 'Información personal',
+  'profile.name': 'Nombre',
+  'profile.email': 'Correo Electrónico',
+  'profile.phone': 'Teléfono',
+  'profile.deleteAccount': 'Borrar cuenta',
+  'profile.subscription': 'Suscripción',
+  'profile.plan': 'Plan',
+  'profile.achievements': 'Logros',
+  'profile.myAchievements': 'Mis Logros',
+  'profile.availableAchievements': '{count, plural, one {# disponible} other {# disponibles}}',
+  'profile.streak': 'Racha',
+  'profile.more': 'Más',
+  'profile.animations': 'Animaciones',
+  'profile.animationsReduced': 'Reducidas por el sistema',
+  'profile.language': 'Idioma',
+  'profile.languageSystem': 'Sistema',
+  'profile.exportData': 'Exportar mis datos',
+  'profile.importData': 'Importar datos',
+  'profile.legalInfo': 'Información legal',
+  'profile.achievementsBenchmark': 'Rendimiento de logros',
+  'profile.logout': 'Cerrar sesión',
+  'profile.version': 'Versión {version}',
+  'profile.selectImage': 'Selecciona una imagen',
+  'profile.openWardrobe': 'Vestir a tu capibara',
+  'profile.choosePhoto': 'Usar una foto de la galería',
+  'profile.photoError': 'No se ha podido guardar la foto',
+
+  // Avatares
+  'avatar.front': 'Capibara',
+  'avatar.glasses': 'Capibara con gafas',
+  'avatar.beanie': 'Capibara con gorro',
+  'avatar.hat': 'Capibara con sombrero',
+  'avatar.summer': 'Capibara de verano',
+  'avatar.photo': 'Tu foto',
+  'avatar.composed': 'Tu capibara personalizada',
+
+  // Armario del avatar
+  'wardrobe.title': 'Armario',
+  'wardrobe.preview': 'Vista previa del avatar',
+  'wardrobe.none': 'Nada',
+  'wardrobe.lockedBy': 'Completa el logro «{achievement}» para desbloquearlo',
+  'wardrobe.lockedSecret': 'Completa un logro secreto para desbloquearlo',
+  'wardrobe.lockedLabel': '{item}, bloqueado',
+  'wardrobeSlot.background': 'Fondo',
+  'wardrobeSlot.base': 'Capibara',
+  'wardrobeSlot.outfit': 'Ropa',
+  'wardrobeSlot.eyewear': 'Gafas',
+  'wardrobeSlot.headwear': 'Sombrero',
+  'wardrobe.sunny': 'Soleado',
+  'wardrobe.sky': 'Cielo',
+  'wardrobe.meadow': 'Prado',
+  'wardrobe.sunset': 'Atardecer',
+  'wardrobe.night': 'Noche',
+  'wardrobe.classic': 'Capibara clásica',
+  'wardrobe.scarf': 'Bufanda',
+  'wardrobe.bow': 'Lazo',
+  'wardrobe.medal': 'Medalla',
+  'wardrobe.tie': 'Corbata',
+  'wardrobe.glasses': 'Gafas',
+  'wardrobe.sunglasses': 'Gafas de sol',
+  'wardrobe.goggles': 'Gafas de bucear',
+  'wardrobe.cap': 'Gorra',
+  'wardrobe.topHat': 'Chistera',
+  'wardrobe.graduationCap': 'Birrete',
+  'wardrobe.sunHat': 'Pamela',
+  'wardrobe.crown': 'Corona',
+
+  // Formulario de perfil
+  'profileForm.nameRequired': 'Escribe tu nombre',
+  'profileForm.nameTooShort': 'El nombre debe tener al menos {min} caracteres',
+  'profileForm.nameTooLong': 'El nombre no puede tener más de {max} caracteres',
+  'profileForm.emailRequired': 'Escribe tu correo electrónico',
+  'profileForm.emailInvalid': 'Escribe un correo electrónico válido, como nombre@ejemplo.com',
+  'profileForm.phoneInvalid': 'El teléfono solo puede tener cifras, espacios y guiones',
+  'profileForm.phoneDigits': 'El número debe tener {count, plural, one {# cifra} other {# cifras}} para este país',
+  'profileForm.phoneDigitsRange': 'El número debe tener entre {min} y {max} cifras para este país',
+  'profileForm.countryCode': 'Prefijo de país: {country}, {code}',
+  'profileForm.selectCountry': 'Selecciona el prefijo de país',
+  'profileForm.unsavedTitle': '¿Descartar los cambios?',
+  'profileForm.unsavedMessage': 'Tienes cambios sin guardar en tu perfil.',
+  'profileForm.keepEditing': 'Seguir editando',
+  'profileForm.discard': 'Descartar',
+  'profileForm.saveError': 'No se han podido guardar los cambios. Inténtalo de nuevo.',
+
+  // Países del selector de prefijo telefónico
+  'country.ES': 'España',
+  'country.MX': 'México',
+  'country.AR': 'Argentina',
+  'country.CO': 'Colombia',
+  'country.CL': 'Chile',
+  'country.PE': 'Perú',
+  'country.US': 'Estados Unidos',
+  'country.CA': 'Canadá',
+  'country.GB': 'Reino Unido',
+  'country.FR': 'Francia',
+  'country.DE': 'Alemania',
+  'country.IT': 'Italia',
+  'country.PT': 'Portugal',
+  'country.BR': 'Brasil',
+
+  // Información legal
+  'legal.title': 'Información Legal',
+  'legal.terms': 'Términos y Condiciones',
+  'legal.privacy': 'Política de Privacidad',
+  'legal.accepted': 'Versión {version} · Aceptada',
+  'legal.pending': 'Versión {version} · Pendiente de aceptar',
+
+  // Suscripción
+  'plan.free': 'Gratis',
+  'plan.monthly': 'Mensual',
+  'plan.annual': 'Anual',
+  'planPrice.free': 'Gratis',
+  'planPrice.month': '{price} al mes',
+  'planPrice.year': '{price} al año',
+  'planFeature.lessons': 'Lecciones diarias',
+  'planFeature.achievements': 'Logros y niveles',
+  'planFeature.premiumAchievements': 'Logros premium',
+  'planFeature.extraStreakFreezes': 'Hasta {count} congeladores de racha',
+  'subscription.title': 'Suscripción',
+  'subscription.current': 'Plan actual',
+  'subscription.freeDescription': 'Estás usando el plan gratuito.',
+  'subscription.renewsOn': 'Se renueva el {date}',
+  'subscription.endsOn': 'Cancelada: las funciones premium terminan el {date}',
+  'subscription.changesOn': 'Pasará al plan {plan} el {date}',
+  'subscription.compare': 'Compara los planes',
+  'subscription.included': 'incluido',
+  'subscription.notIncluded': 'no incluido',
+  'subscription.subscribe': 'Contratar {plan}',
+  'subscription.upgrade': 'Mejorar a {plan}',
+  'subscription.downgrade': 'Cambiar a {plan}',
+  'subscription.cancel': 'Cancelar suscripción',
+  'subscription.resume': 'Reanudar suscripción',
+  'subscription.confirmSubscribe': 'Vas a contratar el plan {plan} por {price}.',
+  'subscription.confirmUpgrade': 'Pasarás al plan {plan} ahora mismo, por {price}.',
+  'subscription.confirmDowngrade': 'Pasarás al plan {plan} el {date}. Hasta entonces mantienes tu plan actual.',
+  'subscription.confirmCancel': 'Tu suscripción no se renovará. Mantendrás las funciones premium hasta el {date}.',
+  'subscription.error': 'No se ha podido completar la operación. Inténtalo de nuevo.',
+
+  // Inicio de sesión y registro
+  'auth.signInTitle': 'Te damos la bienvenida',
+  'auth.signInSubtitle': 'Inicia sesión con tu correo y tu contraseña',
+  'auth.magicLinkSubtitle': 'Te enviaremos un enlace para entrar sin contraseña',
+  'auth.signUpTitle': 'Crear cuenta',
+  'auth.signUpSubtitle': 'Crea tu cuenta con tu correo y una contraseña',
+  'auth.password': 'Contraseña',
+  'auth.confirmPassword': 'Repite la contraseña',
+  'auth.passwordRequired': 'Escribe tu contraseña',
+  'auth.passwordTooShort': 'La contraseña debe tener al menos {min} caracteres',
+  'auth.passwordMismatch': 'Las contraseñas no coinciden',
+  'auth.signIn': 'Iniciar sesión',
+  'auth.signUp': 'Crear cuenta',
+  'auth.sendMagicLink': 'Enviarme un enlace',
+  'auth.magicLinkSent': 'Te hemos enviado un enlace a {email}. Ábrelo en este dispositivo para entrar.',
+  'auth.useMagicLink': 'Entrar con un enlace por correo',
+  'auth.usePassword': 'Entrar con contraseña',
+  'auth.noAccount': '¿No tienes cuenta? Crea una',
+  'auth.haveAccount': '¿Ya tienes cuenta? Inicia sesión',
+  'auth.verifyingLink': 'Comprobando el enlace…',
+  'auth.backToSignIn': 'Volver a iniciar sesión',
+  'authError.invalidCredentials': 'El correo o la contraseña no son correctos',
+  'authError.emailInUse': 'Ya hay una cuenta con este correo',
+  'authError.invalidLink': 'El enlace no es válido o ha caducado. Pide uno nuevo.',
+  'authError.sessionExpired': 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  'authError.unavailable': 'No hemos podido conectar. Inténtalo de nuevo.',
+
+  // Borrado de la cuenta
+  'deleteAccount.title': 'Borrar cuenta',
+  'deleteAccount.intro': 'Se borrarán estos datos de este dispositivo:',
+  'deleteAccount.data.profile': 'Tu perfil y tu foto',
+  'deleteAccount.data.achievements': 'Tus logros, puntos y nivel',
+  'deleteAccount.data.streak': 'Tu racha y su historial',
+  'deleteAccount.data.preferences': 'Tus preferencias y los documentos legales aceptados',
+  'deleteAccount.subscriptionNote': 'Tu suscripción no se cancela: gestiónala desde la tienda de aplicaciones.',
+  'deleteAccount.gracePeriod': 'Tendrás {count, plural, one {# día} other {# días}} para deshacer el borrado. Si quieres conservar una copia, expórtala antes.',
+  'deleteAccount.export': 'Exportar mis datos',
+  'deleteAccount.exportError': 'No se han podido exportar los datos',
+  'deleteAccount.continue': 'Continuar',
+  'deleteAccount.confirmWord': 'BORRAR',
+  'deleteAccount.typeToConfirm': 'Escribe {word} para confirmar',
+  'deleteAccount.confirm': 'Borrar mi cuenta en {count, plural, one {# día} other {# días}}',
+  'deleteAccount.pending': 'Tu cuenta se borrará el {date}.',
+  'deleteAccount.undo': 'Deshacer el borrado',
+  'deleteAccount.undone': 'Se ha cancelado el borrado de tu cuenta',
+  'deleteAccount.error': 'No se ha podido completar la operación. Inténtalo de nuevo.',
+
+  // Importación de datos
+  'dataImport.title': 'Importar datos',
+  'dataImport.intro': 'Elige un archivo exportado desde la sección Más para recuperar tus datos en este dispositivo.',
+  'dataImport.pick': 'Elegir archivo',
+  'dataImport.pickAnother': 'Elegir otro archivo',
+  'dataImport.exportedAt': 'Exportado el {date}',
+  'dataImport.mode': 'Cómo importar',
+  'dataImport.mode.merge': 'Combinar',
+  'dataImport.mode.mergeDescription': 'Añade los logros, puntos y días de racha del archivo y conserva tus ajustes y los datos de tu perfil que ya tengas.',
+  'dataImport.mode.replace': 'Sustituir',
+  'dataImport.mode.replaceDescription': 'Deja tu perfil, tus logros, tu racha y tus ajustes tal y como están en el archivo.',
+  'dataImport.changes': 'Cambios',
+  'dataImport.change': '{label}: {from} → {to}',
+  'dataImport.noChanges': 'El archivo no cambia nada de tus datos.',
+  'dataImport.notImported': 'Las fotos de perfil y los documentos legales aceptados no se importan.',
+  'dataImport.avatar': 'Avatar',
+  'dataImport.events': 'Actividades registradas',
+  'dataImport.unlocked': 'Logros desbloqueados',
+  'dataImport.points': 'Puntos',
+  'dataImport.activeDays': 'Días con actividad',
+  'dataImport.achievementView': 'Vista del panel de logros',
+  'dataImport.on': 'Activadas',
+  'dataImport.off': 'Desactivadas',
+  'dataImport.empty': 'vacío',
+  'dataImport.import': 'Importar',
+  'dataImport.confirmReplace': 'Se sustituirán tus datos por los del archivo. Esta acción no se puede deshacer.',
+  'dataImport.done': 'Se han importado tus datos',
+  'dataImport.error.unreadable': 'No se ha podido leer el archivo',
+  'dataImport.error.invalid': 'El archivo no es una exportación de datos válida',
+  'dataImport.error.unsupportedVersion': 'El archivo es de una versión más nueva de la aplicación. Actualízala para importarlo.',
+  'dataImport.error.save': 'No se han podido guardar los datos importados',
+
+  // Visor de documentos legales
+  'legalDocument.version': 'Versión {version}',
+  'legalDocument.effectiveDate': 'En vigor desde el {date}',
+  'legalDocument.contents': 'Contenido',
+  'legalDocument.acceptedOn': 'Aceptaste la versión {version} el {date}',
+  'legalDocument.previousVersion': 'Aceptaste la versión {version}, que ha sido sustituida por esta.',
+  'legalDocument.accept': 'Aceptar la versión {version}',
+
+  // Aviso de documentos legales pendientes
+  'legalUpdate.firstTitle': 'Antes de empezar',
+  'legalUpdate.firstMessage': 'Para usar Aispeak necesitamos que leas y aceptes estos documentos.',
+  'legalUpdate.updatedTitle': 'Hemos actualizado un documento legal',
+  'legalUpdate.updatedMessage': 'Lee los cambios y acepta la nueva versión para seguir usando Aispeak.',
+  'legalUpdate.progress': '{count, plural, one {Queda # documento} other {Quedan # documentos}} por aceptar',
+  'legalUpdate.back': 'Volver a {title}',
+};
+
+export type MessageKey = keyof typeof es;
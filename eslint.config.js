@@ -7,4 +7,14 @@ module.exports = defineConfig([
   {
     ignores: ['dist/*'],
   },
+  {
+    // Tests load fresh copies of the stores with require() after jest.resetModules()
+    files: ['jest.setup.js', '**/__tests__/**'],
+    languageOptions: {
+      globals: { jest: 'readonly' },
+    },
+    rules: {
+      '@typescript-eslint/no-require-imports': 'off',
+    },
+  },
 ]);
@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getAccountDeletionSnapshot,
+  loadAccountDeletion,
+  subscribeToAccountDeletion,
+  type AccountDeletionSnapshot,
+} from '@/services/accountDeletion';
+
+/**
+ * Returns when the scheduled account deletion happens, if there is one. The
+ * first use runs a deletion whose grace period is over.
+ */
+export function useAccountDeletion(): AccountDeletionSnapshot {
+  useEffect(() => {
+    loadAccountDeletion();
+  }, []);
+
+  return useSyncExternalStore(subscribeToAccountDeletion, getAccountDeletionSnapshot);
+}
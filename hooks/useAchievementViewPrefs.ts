@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getAchievementViewPrefsSnapshot,
+  loadAchievementViewPrefs,
+  subscribeToAchievementViewPrefs,
+  type AchievementViewPrefsSnapshot,
+} from '@/services/achievementViewPrefs';
+
+/**
+ * Returns the achievements panel view preferences (filter, search, sort and grouping).
+ * Loads the stored preferences on first use and re-renders whenever they change.
+ */
+export function useAchievementViewPrefs(): AchievementViewPrefsSnapshot {
+  useEffect(() => {
+    loadAchievementViewPrefs();
+  }, []);
+
+  return useSyncExternalStore(subscribeToAchievementViewPrefs, getAchievementViewPrefsSnapshot);
+}
@@ -0,0 +1,21 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getAchievementsSnapshot,
+  loadAchievements,
+  subscribeToAchievements,
+  type AchievementsSnapshot,
+} from '@/services/achievementStore';
+
+/**
+ * Returns the persisted achievements store, evaluated against the events recorded in it
+ * (see recordLearningEvent in services/achievementStore for where they come from).
+ * Loads the stored state on first use and re-renders whenever it changes.
+ */
+export function useAchievements(): AchievementsSnapshot {
+  useEffect(() => {
+    loadAchievements();
+  }, []);
+
+  return useSyncExternalStore(subscribeToAchievements, getAchievementsSnapshot);
+}
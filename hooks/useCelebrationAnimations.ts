@@ -0,0 +1,95 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { Animated, Easing } from 'react-native';
+
+/**
+ * Pulsing glow used on completed achievements and celebrations.
+ * Loops while `active` is true and stops when it turns false or the component unmounts,
+ * settling on the resting glow so reduced-motion users see a static state.
+ * @returns Interpolated opacity for the sparkle overlay
+ */
+export function useSparkleAnimation(active: boolean) {
+  const sparkleAnim = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!active) return;
+
+    const loop = Animated.loop(
+      Animated.sequence([
+        Animated.timing(sparkleAnim, {
+          toValue: 1,
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+        Animated.timing(sparkleAnim, {
+          toValue: 0.3, // Never fully fades out, to keep some glow
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+      ])
+    );
+    loop.start();
+    return () => {
+      loop.stop();
+      sparkleAnim.setValue(0);
+    };
+  }, [active, sparkleAnim]);
+
+  return useMemo(
+    () =>
+      sparkleAnim.interpolate({
+        inputRange: [0, 0.5, 1],
+        outputRange: [0.3, 0.9, 0.3],
+        extrapolate: 'clamp',
+      }),
+    [sparkleAnim]
+  );
+}
+
+/**
+ * Periodic hop used on completed achievement icons and celebrations.
+ * Loops while `active` is true and stops when it turns false or the component unmounts,
+ * settling back on the ground.
+ * @param height - Maximum upward offset in pixels
+ * @returns Interpolated vertical offset for the bouncing element
+ */
+export function useBounceAnimation(active: boolean, height = 6) {
+  const bounceAnim = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!active) return;
+
+    const loop = Animated.loop(
+      Animated.sequence([
+        Animated.timing(bounceAnim, {
+          toValue: 1,
+          duration: 800,
+          easing: Easing.bounce,
+          useNativeDriver: true,
+        }),
+        Animated.delay(1000),
+        Animated.timing(bounceAnim, {
+          toValue: 0,
+          duration: 800,
+          easing: Easing.bounce,
+          useNativeDriver: true,
+        }),
+        Animated.delay(2000),
+      ])
+    );
+    loop.start();
+    return () => {
+      loop.stop();
+      bounceAnim.setValue(0);
+    };
+  }, [active, bounceAnim]);
+
+  return useMemo(
+    () =>
+      bounceAnim.interpolate({
+        inputRange: [0, 0.5, 1],
+        outputRange: [0, -height * 0.85, -height],
+        extrapolate: 'clamp',
+      }),
+    [bounceAnim, height]
+  );
+}
@@ -0,0 +1,19 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getLegalAcceptanceSnapshot,
+  loadLegalAcceptance,
+  subscribeToLegalAcceptance,
+  type LegalAcceptanceSnapshot,
+} from '@/services/legalDocuments';
+
+/**
+ * Returns the version of each legal document the user accepted, and when.
+ */
+export function useLegalAcceptance(): LegalAcceptanceSnapshot {
+  useEffect(() => {
+    loadLegalAcceptance();
+  }, []);
+
+  return useSyncExternalStore(subscribeToLegalAcceptance, getLegalAcceptanceSnapshot);
+}
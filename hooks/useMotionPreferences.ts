@@ -0,0 +1,28 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getMotionPreferencesSnapshot,
+  loadMotionPreferences,
+  subscribeToMotionPreferences,
+  type MotionPreferencesSnapshot,
+} from '@/services/motionPreferences';
+
+/**
+ * Returns the motion preferences: the in-app animations toggle, the OS
+ * reduce-motion setting and whether the UI should reduce motion.
+ */
+export function useMotionPreferences(): MotionPreferencesSnapshot {
+  useEffect(() => {
+    loadMotionPreferences();
+  }, []);
+
+  return useSyncExternalStore(subscribeToMotionPreferences, getMotionPreferencesSnapshot);
+}
+
+/**
+ * Returns true when animations should be replaced by static states and instant
+ * transitions, either because of the OS setting or the in-app toggle.
+ */
+export function useReducedMotion(): boolean {
+  return useMotionPreferences().reduceMotion;
+}
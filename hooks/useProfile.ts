@@ -0,0 +1,33 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getProfileSnapshot,
+  loadProfile,
+  resetProfile,
+  subscribeToProfile,
+  updateProfile,
+  type Profile,
+} from '@/services/profile';
+
+export interface ProfileState {
+  /** Whether the stored profile has been read */
+  loaded: boolean;
+  profile: Profile;
+  /** Changes some fields; resolves to false if they could not be saved and were rolled back */
+  update: (changes: Partial<Profile>) => Promise<boolean>;
+  /** Deletes the stored profile and goes back to the defaults */
+  reset: () => Promise<void>;
+}
+
+/**
+ * Returns the user profile and the functions to change it. Every component
+ * using it re-renders when the profile changes, wherever the change was made.
+ */
+export function useProfile(): ProfileState {
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
+  const { loaded, profile } = useSyncExternalStore(subscribeToProfile, getProfileSnapshot);
+  return { loaded, profile, update: updateProfile, reset: resetProfile };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+
+import { useTranslation } from '@/hooks/useTranslation';
+import type { ProfileDetails } from '@/services/profile';
+import {
+  formatE164,
+  parsePhone,
+  validateProfileForm,
+  type ProfileFormErrors,
+  type ProfileFormValues,
+} from '@/services/profileValidation';
+
+export interface ProfileForm {
+  values: ProfileFormValues;
+  /** Errors of the invalid fields, recomputed on every change */
+  errors: ProfileFormErrors;
+  isValid: boolean;
+  /** Whether the values differ from the ones last loaded or saved */
+  isDirty: boolean;
+  setField: <K extends keyof ProfileFormValues>(field: K, value: ProfileFormValues[K]) => void;
+  /** Replaces the values and the saved baseline, e.g. after loading or saving */
+  reset: (details: ProfileDetails) => void;
+  /** Values as they should be stored, with trimmed text and the phone in E.164 */
+  toDetails: () => ProfileDetails;
+  /** Runs `onDiscard` right away, or after confirming if there are unsaved changes */
+  confirmDiscard: (onDiscard: () => void) => void;
+}
+
+const toValues = ({ name, email, phone }: ProfileDetails): ProfileFormValues => ({
+  name,
+  email,
+  ...parsePhone(phone),
+});
+
+/**
+ * Form state for the personal fields of the profile: validation, unsaved
+ * changes and the confirmation before discarding them.
+ */
+export function useProfileForm(initial: ProfileDetails): ProfileForm {
+  const { t } = useTranslation();
+  const [baseline, setBaseline] = useState(() => toValues(initial));
+  const [values, setValues] = useState(baseline);
+
+  const errors = useMemo(() => validateProfileForm(values), [values]);
+  const isValid = Object.keys(errors).length === 0;
+  const isDirty = (Object.keys(values) as (keyof ProfileFormValues)[]).some(
+    field => values[field] !== baseline[field]
+  );
+
+  const setField = useCallback(<K extends keyof ProfileFormValues>(field: K, value: ProfileFormValues[K]) => {
+    setValues(current => ({ ...current, [field]: value }));
+  }, []);
+
+  const reset = useCallback((details: ProfileDetails) => {
+    const next = toValues(details);
+    setBaseline(next);
+    setValues(next);
+  }, []);
+
+  const toDetails = () => ({
+    name: values.name.trim(),
+    email: values.email.trim(),
+    phone: formatE164(values.country, values.nationalNumber),
+  });
+
+  const confirmDiscard = (onDiscard: () => void) => {
+    if (!isDirty) {
+      onDiscard();
+      return;
+    }
+    Alert.alert(t('profileForm.unsavedTitle'), t('profileForm.unsavedMessage'), [
+      { text: t('profileForm.keepEditing'), style: 'cancel' },
+      { text: t('profileForm.discard'), style: 'destructive', onPress: onDiscard },
+    ]);
+  };
+
+  return { values, errors, isValid, isDirty, setField, reset, toDetails, confirmDiscard };
+}
@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { getSessionSnapshot, loadSession, subscribeToSession, type SessionSnapshot } from '@/services/session';
+
+/**
+ * Returns the signed-in user, whether the stored session has been read and
+ * whether a sign-in operation is in progress.
+ */
+export function useSession(): SessionSnapshot {
+  useEffect(() => {
+    loadSession();
+  }, []);
+
+  return useSyncExternalStore(subscribeToSession, getSessionSnapshot);
+}
@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getStreakSnapshot,
+  loadStreak,
+  subscribeToStreak,
+  type StreakSnapshot,
+} from '@/services/streakTracker';
+
+/**
+ * Returns the learning streak tracker state.
+ * Loads the stored streak on first use and re-renders whenever it changes.
+ */
+export function useStreak(): StreakSnapshot {
+  useEffect(() => {
+    loadStreak();
+  }, []);
+
+  return useSyncExternalStore(subscribeToStreak, getStreakSnapshot);
+}
@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import {
+  getSubscriptionSnapshot,
+  loadSubscription,
+  subscribeToSubscription,
+  type SubscriptionSnapshot,
+} from '@/services/subscription';
+
+/**
+ * Returns the current subscription, the entitlement it grants and whether a
+ * billing operation is in progress.
+ */
+export function useSubscription(): SubscriptionSnapshot {
+  useEffect(() => {
+    loadSubscription();
+  }, []);
+
+  return useSyncExternalStore(subscribeToSubscription, getSubscriptionSnapshot);
+}
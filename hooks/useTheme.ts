@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+/** Semantic color tokens of a theme */
+export type ThemeColors = typeof Colors.light;
+
+/**
+ * Returns the semantic color tokens for the current color scheme.
+ */
+export function useTheme(): ThemeColors {
+  const scheme = useColorScheme();
+  return Colors[scheme === 'dark' ? 'dark' : 'light'];
+}
+
+/**
+ * Builds a component's styles from the current theme, recreating them only
+ * when the color scheme changes.
+ * @param createStyles - Factory that returns the StyleSheet for a theme
+ */
+export function useThemedStyles<T>(createStyles: (theme: ThemeColors) => T): T {
+  const theme = useTheme();
+  return useMemo(() => createStyles(theme), [createStyles, theme]);
+}
@@ -0,0 +1,52 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+
+import {
+  formatDate,
+  formatNumber,
+  getI18nSnapshot,
+  loadLanguagePreference,
+  subscribeToI18n,
+  translate,
+  translateText,
+  type LanguagePreference,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from '@/services/i18n';
+
+export interface Translation {
+  /** Locale the UI is rendered in */
+  locale: Locale;
+  /** Language chosen in the profile, or 'system' */
+  preference: LanguagePreference;
+  /** Translates a catalog message */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /** Translates configuration text that may be a message key or a literal */
+  translateText: (text: string, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+/**
+ * Returns the translation helpers bound to the active locale. Components
+ * re-render when the language changes.
+ */
+export function useTranslation(): Translation {
+  useEffect(() => {
+    loadLanguagePreference();
+  }, []);
+
+  const { locale, preference } = useSyncExternalStore(subscribeToI18n, getI18nSnapshot);
+
+  return useMemo(
+    () => ({
+      locale,
+      preference,
+      t: (key, params) => translate(key, params, locale),
+      translateText: (text, params) => translateText(text, params, locale),
+      formatNumber: (value, options) => formatNumber(value, options, locale),
+      formatDate: (value, options) => formatDate(value, options, locale),
+    }),
+    [locale, preference]
+  );
+}
@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from 'react';
+
+import {
+  getUnlockNotificationsSnapshot,
+  subscribeToUnlockNotifications,
+  type UnlockNotificationsSnapshot,
+} from '@/services/unlockNotifications';
+
+/**
+ * Returns the queue of achievement unlock notifications.
+ */
+export function useUnlockNotifications(): UnlockNotificationsSnapshot {
+  return useSyncExternalStore(subscribeToUnlockNotifications, getUnlockNotificationsSnapshot);
+}
@@ -0,0 +1,32 @@
+// Mocks shared by every test: the native modules are replaced with in-memory versions
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => {
+  const items = new Map();
+  return {
+    isAvailableAsync: async () => true,
+    getItemAsync: async key => items.get(key) ?? null,
+    setItemAsync: async (key, value) => {
+      items.set(key, value);
+    },
+    deleteItemAsync: async key => {
+      items.delete(key);
+    },
+  };
+});
+
+jest.mock('expo-crypto', () => {
+  const { createHash, randomUUID } = require('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    randomUUID,
+    digestStringAsync: async (_algorithm, data) => createHash('sha256').update(data).digest('hex'),
+  };
+});
+
+jest.mock('expo-linking', () => ({
+  createURL: path => `aispeak://${path.replace(/^\//, '')}`,
+}));
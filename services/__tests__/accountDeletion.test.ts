@@ -0,0 +1,161 @@
+import type AsyncStorageModule from '@react-native-async-storage/async-storage';
+
+import type * as AccountDeletionModule from '../accountDeletion';
+import type * as AuthModule from '../auth';
+import type * as I18nModule from '../i18n';
+import type * as MockAuthServerModule from '../mockAuthServer';
+import type * as PersonalDataModule from '../personalData';
+import type * as SessionModule from '../session';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Clave del perfil guardado (PROFILE_STORAGE_KEY) */
+const PROFILE_KEY = 'userData';
+const PASSWORD = 'correct horse 1';
+
+let AsyncStorage: typeof AsyncStorageModule;
+let accountDeletion: typeof AccountDeletionModule;
+let auth: typeof AuthModule;
+let i18n: typeof I18nModule;
+let mockAuth: typeof MockAuthServerModule;
+let personalData: typeof PersonalDataModule;
+let session: typeof SessionModule;
+
+beforeEach(() => {
+  // Cada prueba empieza con la aplicación recién abierta y el almacenamiento vacío
+  jest.resetModules();
+  AsyncStorage = require('@react-native-async-storage/async-storage');
+  accountDeletion = require('../accountDeletion');
+  auth = require('../auth');
+  i18n = require('../i18n');
+  mockAuth = require('../mockAuthServer');
+  personalData = require('../personalData');
+  session = require('../session');
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/** Crea una cuenta con sesión iniciada y devuelve su identificador */
+const signUp = async (email: string) => {
+  expect(await session.signUp(email, PASSWORD)).toBeNull();
+  return session.getSessionSnapshot().user?.id ?? '';
+};
+
+const readStoredDeletions = async () =>
+  JSON.parse((await AsyncStorage.getItem(accountDeletion.ACCOUNT_DELETION_STORAGE_KEY)) ?? '{}');
+
+/** Espera a que terminen las lecturas que disparan los cambios de sesión */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('account deletion schedule', () => {
+  it('needs a signed-in user to schedule a deletion', async () => {
+    expect(await accountDeletion.scheduleAccountDeletion()).toBe(false);
+    expect(accountDeletion.getAccountDeletionSnapshot()).toEqual({ loaded: true, deleteAt: null });
+  });
+
+  it('stores the deletion under the user who scheduled it', async () => {
+    const userId = await signUp('ana@example.com');
+    const now = Date.now();
+
+    expect(await accountDeletion.scheduleAccountDeletion(now)).toBe(true);
+    const deleteAt = now + accountDeletion.DELETION_GRACE_DAYS * DAY_MS;
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBe(deleteAt);
+    expect(await readStoredDeletions()).toEqual({ [userId]: { requestedAt: now, deleteAt } });
+  });
+
+  it('only shows the deletion to its user', async () => {
+    await signUp('ana@example.com');
+    await accountDeletion.scheduleAccountDeletion();
+    const { deleteAt } = accountDeletion.getAccountDeletionSnapshot();
+
+    await session.signOut();
+    await flush();
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBeNull();
+
+    await signUp('bruno@example.com');
+    await flush();
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBeNull();
+
+    await session.signOut();
+    await session.signInWithPassword('ana@example.com', PASSWORD);
+    await flush();
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBe(deleteAt);
+  });
+
+  it('cancels only the deletion of the signed-in user', async () => {
+    const anaId = await signUp('ana@example.com');
+    await accountDeletion.scheduleAccountDeletion();
+    await session.signOut();
+    await signUp('bruno@example.com');
+    await accountDeletion.scheduleAccountDeletion();
+
+    expect(await accountDeletion.cancelAccountDeletion()).toBe(true);
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBeNull();
+    expect(Object.keys(await readStoredDeletions())).toEqual([anaId]);
+  });
+});
+
+describe('account deletion after the grace period', () => {
+  const now = Date.now();
+  const overdue = { requestedAt: now - 15 * DAY_MS, deleteAt: now - DAY_MS };
+
+  it('deletes the account and the personal data with the session of its user', async () => {
+    const { PERSONAL_DATA_KEYS } = personalData;
+    const userId = await signUp('ana@example.com');
+    await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify({ name: 'Ana' }));
+    await i18n.loadLanguagePreference();
+    await i18n.setLanguagePreference('en');
+    await AsyncStorage.setItem(accountDeletion.ACCOUNT_DELETION_STORAGE_KEY, JSON.stringify({ [userId]: overdue }));
+
+    await accountDeletion.loadAccountDeletion(now);
+
+    expect(accountDeletion.getAccountDeletionSnapshot()).toEqual({ loaded: true, deleteAt: null });
+    expect(session.getSessionSnapshot().user).toBeNull();
+    expect(i18n.getI18nSnapshot().preference).toBe('system');
+    expect(await AsyncStorage.multiGet([...PERSONAL_DATA_KEYS])).toEqual(PERSONAL_DATA_KEYS.map(key => [key, null]));
+    expect(await AsyncStorage.getItem(accountDeletion.ACCOUNT_DELETION_STORAGE_KEY)).toBeNull();
+    expect(await session.signInWithPassword('ana@example.com', PASSWORD)).toBe('invalidCredentials');
+  });
+
+  it('keeps the deletion pending without a session', async () => {
+    const userId = await signUp('ana@example.com');
+    await session.signOut();
+    await AsyncStorage.setItem(accountDeletion.ACCOUNT_DELETION_STORAGE_KEY, JSON.stringify({ [userId]: overdue }));
+
+    await accountDeletion.loadAccountDeletion(now);
+
+    expect(await readStoredDeletions()).toEqual({ [userId]: overdue });
+    expect(await session.signInWithPassword('ana@example.com', PASSWORD)).toBeNull();
+  });
+
+  it('does not delete another user who is signed in', async () => {
+    const anaId = await signUp('ana@example.com');
+    await session.signOut();
+    await signUp('bruno@example.com');
+    await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify({ name: 'Bruno' }));
+    await AsyncStorage.setItem(accountDeletion.ACCOUNT_DELETION_STORAGE_KEY, JSON.stringify({ [anaId]: overdue }));
+
+    await accountDeletion.loadAccountDeletion(now);
+
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBeNull();
+    expect(session.getSessionSnapshot().user?.email).toBe('bruno@example.com');
+    expect(await AsyncStorage.getItem(PROFILE_KEY)).not.toBeNull();
+    expect(await readStoredDeletions()).toEqual({ [anaId]: overdue });
+  });
+
+  it('keeps the data when the provider cannot delete the account', async () => {
+    const userId = await signUp('ana@example.com');
+    await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify({ name: 'Ana' }));
+    await AsyncStorage.setItem(accountDeletion.ACCOUNT_DELETION_STORAGE_KEY, JSON.stringify({ [userId]: overdue }));
+    jest.spyOn(mockAuth.mockAuthServer, 'deleteAccount').mockRejectedValue(new auth.AuthError('unavailable'));
+
+    await accountDeletion.loadAccountDeletion(now);
+
+    expect(accountDeletion.getAccountDeletionSnapshot().deleteAt).toBe(overdue.deleteAt);
+    expect(session.getSessionSnapshot().user?.id).toBe(userId);
+    expect(await AsyncStorage.getItem(PROFILE_KEY)).not.toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { ACHIEVEMENTS_SCHEMA_VERSION, migrateAchievementsState } from '../achievementStore';
+
+describe('migrateAchievementsState', () => {
+  it('turns a completed achievement that gained tiers into its first tier', () => {
+    const migrated = migrateAchievementsState({
+      version: 1,
+      events: [],
+      records: {
+        '1': { progress: 1, completedAt: 1000, pointsAwarded: 10 },
+        '3': { progress: 1, completedAt: 2000, pointsAwarded: 600 },
+      },
+    });
+
+    expect(migrated?.version).toBe(ACHIEVEMENTS_SCHEMA_VERSION);
+    expect(migrated?.records['1']).toEqual({ progress: 1, completedAt: 1000, pointsAwarded: 10, tiers: {} });
+    expect(migrated?.records['3']).toEqual({ progress: 1, completedAt: null, pointsAwarded: 100, tiers: { bronze: 2000 } });
+    expect(migrated?.celebratedLevel).toBe(1);
+    expect(migrated?.revealedSecrets).toEqual([]);
+  });
+
+  it('renames the Spanish skill of perfect scores', () => {
+    const migrated = migrateAchievementsState({
+      version: 2,
+      events: [{ type: 'lesson_completed', lessonId: 'l1', skill: 'gramática', score: 100, timestamp: 1 }],
+      records: {},
+    });
+
+    expect(migrated?.events).toEqual([
+      { type: 'lesson_completed', lessonId: 'l1', skill: 'grammar', score: 100, timestamp: 1 },
+    ]);
+  });
+
+  it('rejects documents it cannot read', () => {
+    expect(migrateAchievementsState(null)).toBeNull();
+    expect(migrateAchievementsState('{}')).toBeNull();
+    expect(migrateAchievementsState({ events: [] })).toBeNull();
+    expect(migrateAchievementsState({ version: ACHIEVEMENTS_SCHEMA_VERSION + 1 })).toBeNull();
+  });
+
+  it('rejects malformed events and records', () => {
+    const version = ACHIEVEMENTS_SCHEMA_VERSION;
+    expect(migrateAchievementsState({ version, events: [{ type: 'unknown', timestamp: 1 }] })).toBeNull();
+    expect(migrateAchievementsState({ version, events: [{ type: 'word_learned', timestamp: -1, wordId: 'w' }] })).toBeNull();
+    expect(migrateAchievementsState({ version, records: { '1': { progress: 'all' } } })).toBeNull();
+    expect(
+      migrateAchievementsState({
+        version,
+        records: { '3': { progress: 1, completedAt: null, pointsAwarded: 100, tiers: { platinum: 1 } } },
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import type AsyncStorageModule from '@react-native-async-storage/async-storage';
+
+import type * as I18nModule from '../i18n';
+
+let AsyncStorage: typeof AsyncStorageModule;
+let i18n: typeof I18nModule;
+
+beforeEach(() => {
+  // Cada prueba empieza con la aplicación recién abierta y el almacenamiento vacío
+  jest.resetModules();
+  AsyncStorage = require('@react-native-async-storage/async-storage');
+  i18n = require('../i18n');
+});
+
+describe('formatMessage', () => {
+  it('replaces arguments and keeps unknown ones', () => {
+    expect(i18n.formatMessage('Nivel {level}, {title}', { level: 3, title: 'Explorador' }, 'es')).toBe(
+      'Nivel 3, Explorador'
+    );
+    expect(i18n.formatMessage('Hola {name}', {}, 'es')).toBe('Hola {name}');
+  });
+
+  it('chooses the plural form and formats the count for the locale', () => {
+    const message = '{count, plural, one {# día} other {# días}}';
+    expect(i18n.formatMessage(message, { count: 1 }, 'es')).toBe('1 día');
+    expect(i18n.formatMessage(message, { count: 1500 }, 'es')).toBe('1500 días');
+    expect(i18n.formatMessage('{count, plural, one {# day} other {# days}}', { count: 1500 }, 'en')).toBe('1,500 days');
+  });
+
+  it('chooses the select branch or falls back to other', () => {
+    const message = '{tier, select, gold {oro} other {otro}}';
+    expect(i18n.formatMessage(message, { tier: 'gold' }, 'es')).toBe('oro');
+    expect(i18n.formatMessage(message, { tier: 'bronze' }, 'es')).toBe('otro');
+  });
+});
+
+describe('translate', () => {
+  it('uses the catalog of the requested locale', () => {
+    expect(i18n.translate('profile.availableAchievements', { count: 2 }, 'es')).toBe('2 disponibles');
+    expect(i18n.translate('profile.availableAchievements', { count: 1 }, 'en')).toBe('1 available');
+  });
+});
+
+describe('language preference', () => {
+  it('keeps a language chosen before the stored one finishes loading', async () => {
+    await AsyncStorage.setItem(i18n.LANGUAGE_PREFERENCE_STORAGE_KEY, 'es');
+
+    const loading = i18n.loadLanguagePreference();
+    await i18n.setLanguagePreference('en');
+    await loading;
+
+    expect(i18n.getI18nSnapshot()).toMatchObject({ loaded: true, preference: 'en', locale: 'en' });
+    expect(await AsyncStorage.getItem(i18n.LANGUAGE_PREFERENCE_STORAGE_KEY)).toBe('en');
+  });
+});
@@ -0,0 +1,59 @@
+import { PERSONAL_DATA_FORMAT, parsePersonalDataArchive } from '../personalData';
+
+/** Archivo válido de la versión 1, con los logros en una versión anterior del esquema */
+const createArchive = (): Record<string, any> => ({
+  format: PERSONAL_DATA_FORMAT,
+  version: 1,
+  exportedAt: '2025-03-03T10:00:00.000Z',
+  profile: { name: 'Ana', email: 'ana@example.com', phone: '+34600000000', avatar: { kind: 'preset', id: 'front' } },
+  achievements: {
+    version: 2,
+    events: [{ type: 'lesson_completed', lessonId: 'l1', skill: 'cultura', score: 100, timestamp: 1740996000000 }],
+    records: {},
+    celebratedLevel: 2,
+    revealedSecrets: [],
+  },
+  streak: { version: 1, activity: { '2025-03-02': 2 }, frozenDays: [], freezeTokens: 1 },
+  legalAcceptance: { terms: { version: '2.0', acceptedAt: 1740996000000 } },
+  settings: { language: 'en', animationsEnabled: false, achievementView: { filter: 'todos', sortMode: 'points' } },
+});
+
+const parse = (archive: unknown) => parsePersonalDataArchive(JSON.stringify(archive));
+
+describe('parsePersonalDataArchive', () => {
+  it('reads a valid archive and migrates its achievements and view preferences', () => {
+    const result = parse(createArchive());
+    if (!('archive' in result)) throw new Error(`Unexpected error: ${result.error}`);
+
+    expect(result.archive.achievements.events[0]).toMatchObject({ skill: 'culture' });
+    expect(result.archive.settings).toEqual({
+      language: 'en',
+      animationsEnabled: false,
+      achievementView: { filter: 'all', query: '', sortMode: 'points', grouped: false },
+    });
+  });
+
+  it('tells unreadable, foreign and newer files apart', () => {
+    expect(parsePersonalDataArchive('not json')).toEqual({ error: 'unreadable' });
+    expect(parse({ ...createArchive(), format: 'other-app' })).toEqual({ error: 'invalid' });
+    expect(parse({ ...createArchive(), version: 2 })).toEqual({ error: 'unsupportedVersion' });
+  });
+
+  it('rejects archives with malformed data', () => {
+    const withEvent = createArchive();
+    withEvent.achievements.events.push({ type: 'word_learned', timestamp: 'yesterday' });
+    expect(parse(withEvent)).toEqual({ error: 'invalid' });
+
+    const withStreak = createArchive();
+    withStreak.streak.activity = { yesterday: 1 };
+    expect(parse(withStreak)).toEqual({ error: 'invalid' });
+
+    const withProfile = createArchive();
+    withProfile.profile.avatar = { kind: 'preset', id: 'unknown' };
+    expect(parse(withProfile)).toEqual({ error: 'invalid' });
+
+    const withLanguage = createArchive();
+    withLanguage.settings.language = 'fr';
+    expect(parse(withLanguage)).toEqual({ error: 'invalid' });
+  });
+});
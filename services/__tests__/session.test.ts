@@ -0,0 +1,95 @@
+import type * as AuthModule from '../auth';
+import type * as MockAuthServerModule from '../mockAuthServer';
+import type * as SessionModule from '../session';
+
+const EMAIL = 'Ana@Example.com';
+const PASSWORD = 'correct horse 1';
+
+let auth: typeof AuthModule;
+let mockAuth: typeof MockAuthServerModule;
+let session: typeof SessionModule;
+
+beforeEach(() => {
+  // Cada prueba empieza con la aplicación recién abierta y el almacenamiento vacío
+  jest.resetModules();
+  auth = require('../auth');
+  mockAuth = require('../mockAuthServer');
+  session = require('../session');
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const tokenFromLink = (link: string | null) => new URL(link ?? '').searchParams.get('token') ?? '';
+
+describe('session with the mock auth server', () => {
+  it('starts without a session', async () => {
+    await session.loadSession();
+    expect(session.getSessionSnapshot()).toEqual({ loaded: true, user: null, busy: false });
+    expect(await session.getAccessToken()).toBeNull();
+  });
+
+  it('signs up, signs out and signs back in with the password', async () => {
+    expect(await session.signUp(EMAIL, PASSWORD)).toBeNull();
+    const { user } = session.getSessionSnapshot();
+    expect(user?.email).toBe('ana@example.com');
+
+    await session.signOut();
+    expect(session.getSessionSnapshot().user).toBeNull();
+
+    expect(await session.signInWithPassword(EMAIL, 'wrong password 1')).toBe('invalidCredentials');
+    expect(await session.signInWithPassword(' ana@example.com ', PASSWORD)).toBeNull();
+    expect(session.getSessionSnapshot().user).toEqual(user);
+  });
+
+  it('rejects a second account with the same email', async () => {
+    await session.signUp(EMAIL, PASSWORD);
+    await session.signOut();
+    expect(await session.signUp('ana@example.com', PASSWORD)).toBe('emailInUse');
+  });
+
+  it('signs in with a magic link only once', async () => {
+    expect(await session.requestMagicLink(EMAIL)).toBeNull();
+    const token = tokenFromLink(mockAuth.getLastMagicLink());
+
+    expect(await session.completeMagicLink(token)).toBeNull();
+    expect(session.getSessionSnapshot().user?.email).toBe('ana@example.com');
+
+    await session.signOut();
+    expect(await session.completeMagicLink(token)).toBe('invalidLink');
+  });
+
+  it('refreshes the access token once it is about to expire', async () => {
+    await session.signUp(EMAIL, PASSWORD);
+    const first = await session.getAccessToken();
+    expect(first).toEqual(expect.any(String));
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 15 * 60 * 1000);
+    const refreshed = await session.getAccessToken();
+    expect(refreshed).toEqual(expect.any(String));
+    expect(refreshed).not.toBe(first);
+  });
+
+  it('does not count a missing session as a deleted account', async () => {
+    expect(await session.deleteAccount()).toBe('sessionExpired');
+  });
+
+  it('deletes the account and signs out', async () => {
+    await session.signUp(EMAIL, PASSWORD);
+    expect(await session.deleteAccount()).toBeNull();
+    expect(session.getSessionSnapshot().user).toBeNull();
+    expect(await session.signInWithPassword(EMAIL, PASSWORD)).toBe('invalidCredentials');
+  });
+
+  it('keeps the session when the provider cannot delete the account', async () => {
+    await session.signUp(EMAIL, PASSWORD);
+    jest.spyOn(mockAuth.mockAuthServer, 'deleteAccount').mockRejectedValue(new auth.AuthError('unavailable'));
+
+    expect(await session.deleteAccount()).toBe('unavailable');
+    expect(session.getSessionSnapshot().user?.email).toBe('ana@example.com');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Borrado de la cuenta.
+ *
+ * Borrar la cuenta no es inmediato: se programa para dentro de un plazo de
+ * gracia durante el que se puede deshacer. Cada borrado programado pertenece
+ * al usuario que lo pidió. La primera vez que se abre la aplicación después
+ * del plazo con la sesión de ese usuario se borra la cuenta en el proveedor de
+ * autenticación, se cierra la sesión y se borran los datos personales
+ * (services/personalData) y la foto de perfil; el resto del almacenamiento no
+ * se toca. Si no hay sesión de ese usuario o el proveedor no responde, el
+ * borrado sigue pendiente y se reintenta la próxima vez.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DAY_MS } from './dayKeys';
+import { clearPersonalData } from './personalData';
+import { deleteAccount, getSessionSnapshot, loadSession, subscribeToSession } from './session';
+
+/** Clave de AsyncStorage bajo la que se guardan los borrados programados */
+export const ACCOUNT_DELETION_STORAGE_KEY = 'accountDeletion';
+
+/** Días durante los que se puede deshacer el borrado */
+export const DELETION_GRACE_DAYS = 14;
+
+/**
+ * @interface AccountDeletionSnapshot
+ * @description Vista inmutable del borrado programado del usuario con sesión
+ */
+export interface AccountDeletionSnapshot {
+  /** Indica si ya se ha leído y, si tocaba, ejecutado el borrado */
+  loaded: boolean;
+  /** Marca de tiempo a partir de la cual se borran los datos, o null si no hay borrado programado */
+  deleteAt: number | null;
+}
+
+/**
+ * @interface ScheduledDeletion
+ * @description Borrado guardado de un usuario
+ */
+interface ScheduledDeletion {
+  /** Momento en que se pidió */
+  requestedAt: number;
+  deleteAt: number;
+}
+
+/** Borrados guardados por identificador de usuario */
+type ScheduledDeletions = Record<string, ScheduledDeletion>;
+
+let snapshot: AccountDeletionSnapshot = { loaded: false, deleteAt: null };
+let loadPromise: Promise<void> | null = null;
+/** Usuario cuyo borrado muestra la vista */
+let snapshotUserId: string | null = null;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: AccountDeletionSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+/** Devuelve la vista actual del borrado programado */
+export function getAccountDeletionSnapshot(): AccountDeletionSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios del borrado programado
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToAccountDeletion(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isScheduledDeletion = (value: unknown): value is ScheduledDeletion =>
+  isRecord(value) && typeof value.requestedAt === 'number' && typeof value.deleteAt === 'number';
+
+/**
+ * Lee los borrados guardados y descarta las entradas que no tienen la forma esperada
+ */
+const readDeletions = async (): Promise<ScheduledDeletions> => {
+  const stored = await AsyncStorage.getItem(ACCOUNT_DELETION_STORAGE_KEY);
+  const raw: unknown = stored ? JSON.parse(stored) : null;
+  if (!isRecord(raw)) return {};
+  const deletions: ScheduledDeletions = {};
+  for (const [userId, deletion] of Object.entries(raw)) {
+    if (isScheduledDeletion(deletion)) deletions[userId] = deletion;
+  }
+  return deletions;
+};
+
+/**
+ * Guarda los borrados; si no queda ninguno se borra la clave
+ */
+const writeDeletions = async (deletions: ScheduledDeletions): Promise<void> => {
+  if (Object.keys(deletions).length === 0) {
+    await AsyncStorage.removeItem(ACCOUNT_DELETION_STORAGE_KEY);
+  } else {
+    await AsyncStorage.setItem(ACCOUNT_DELETION_STORAGE_KEY, JSON.stringify(deletions));
+  }
+};
+
+/** Usuario con sesión, o null si no la hay */
+const getCurrentUserId = (): string | null => getSessionSnapshot().user?.id ?? null;
+
+/**
+ * Borra la cuenta del usuario con sesión en el proveedor, cierra la sesión y
+ * borra los datos personales, también de los almacenes en memoria
+ * @param userId - Usuario que programó el borrado; debe ser el de la sesión
+ * @returns false si no hay sesión de ese usuario o el proveedor no ha podido
+ * borrar la cuenta; los datos y el borrado programado se conservan
+ */
+const wipeAccountData = async (userId: string): Promise<boolean> => {
+  if (getCurrentUserId() !== userId || (await deleteAccount())) return false;
+  await clearPersonalData();
+  const deletions = await readDeletions();
+  delete deletions[userId];
+  await writeDeletions(deletions);
+  return true;
+};
+
+/**
+ * Muestra el borrado del usuario que ha iniciado sesión, o ninguno al cerrarla.
+ * El borrado de un plazo vencido se ejecuta la próxima vez que se abra la aplicación.
+ */
+const handleSessionChange = async () => {
+  const userId = getCurrentUserId();
+  if (!snapshot.loaded || userId === snapshotUserId) return;
+  snapshotUserId = userId;
+  let deleteAt: number | null = null;
+  if (userId) {
+    try {
+      deleteAt = (await readDeletions())[userId]?.deleteAt ?? null;
+    } catch (error) {
+      console.error('Error loading account deletion:', error);
+    }
+  }
+  // Si la sesión ha vuelto a cambiar mientras se leía, la lectura más reciente es la que vale
+  if (snapshotUserId === userId) setSnapshot({ loaded: true, deleteAt });
+};
+
+/**
+ * Lee el borrado programado del usuario con sesión y, si el plazo ya ha
+ * pasado, borra los datos. Solo se hace la primera vez; las pantallas no deben
+ * leer otros datos personales hasta que termine.
+ * @param now - Instante actual
+ */
+export function loadAccountDeletion(now = Date.now()): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      await loadSession();
+      const userId = getCurrentUserId();
+      let deleteAt: number | null = null;
+      try {
+        if (userId) deleteAt = (await readDeletions())[userId]?.deleteAt ?? null;
+        if (userId && deleteAt !== null && deleteAt <= now && (await wipeAccountData(userId))) {
+          deleteAt = null;
+        }
+      } catch (error) {
+        console.error('Error loading account deletion:', error);
+      }
+      snapshotUserId = getCurrentUserId();
+      setSnapshot({ loaded: true, deleteAt: snapshotUserId === userId ? deleteAt : null });
+      subscribeToSession(handleSessionChange);
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Programa el borrado de la cuenta del usuario con sesión para dentro del plazo de gracia
+ * @param now - Instante de la solicitud
+ * @returns true si se ha guardado
+ */
+export async function scheduleAccountDeletion(now = Date.now()): Promise<boolean> {
+  await loadAccountDeletion();
+  const userId = getCurrentUserId();
+  if (!userId) return false;
+  const deleteAt = now + DELETION_GRACE_DAYS * DAY_MS;
+  try {
+    const deletions = await readDeletions();
+    await writeDeletions({ ...deletions, [userId]: { requestedAt: now, deleteAt } });
+  } catch (error) {
+    console.error('Error saving account deletion:', error);
+    return false;
+  }
+  if (getCurrentUserId() === userId) setSnapshot({ ...snapshot, deleteAt });
+  return true;
+}
+
+/**
+ * Deshace el borrado programado del usuario con sesión
+ * @returns true si se ha deshecho
+ */
+export async function cancelAccountDeletion(): Promise<boolean> {
+  await loadAccountDeletion();
+  const userId = getCurrentUserId();
+  if (!userId) return false;
+  try {
+    const deletions = await readDeletions();
+    delete deletions[userId];
+    await writeDeletions(deletions);
+  } catch (error) {
+    console.error('Error canceling account deletion:', error);
+    return false;
+  }
+  if (getCurrentUserId() === userId) setSnapshot({ ...snapshot, deleteAt: null });
+  return true;
+}
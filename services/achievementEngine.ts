@@ -0,0 +1,393 @@
+/**
+ * @fileoverview Motor de reglas de logros.
+ *
+ * Cada logro declara una regla (umbral de contador, longitud de racha, número de
+ * puntuaciones perfectas o completar un conjunto de lecciones) y su progreso se
+ * calcula a partir del flujo de eventos de aprendizaje del usuario. El motor es
+ * puro: no guarda estado, solo transforma eventos en logros evaluados.
+ */
+import { dayKeyToNumber, toDayKey } from './dayKeys';
+
+/** Tipos de eventos de aprendizaje que puede emitir la aplicación */
+export type LearningEventType = 'lesson_completed' | 'word_learned' | 'conversation_finished';
+
+/**
+ * @interface LessonCompletedEvent
+ * @description Se emite al terminar una lección
+ */
+export interface LessonCompletedEvent {
+  type: 'lesson_completed';
+  /** Momento en el que ocurrió el evento (ms desde epoch) */
+  timestamp: number;
+  /** Identificador de la lección */
+  lessonId: string;
+  /** Habilidad trabajada en la lección, con el identificador de su categoría (p. ej. 'grammar') */
+  skill?: string;
+  /** Puntuación obtenida entre 0 y 1 */
+  score?: number;
+}
+
+/**
+ * @interface WordLearnedEvent
+ * @description Se emite cuando el usuario aprende una palabra nueva
+ */
+export interface WordLearnedEvent {
+  type: 'word_learned';
+  timestamp: number;
+  /** Identificador de la palabra aprendida */
+  wordId: string;
+}
+
+/**
+ * @interface ConversationFinishedEvent
+ * @description Se emite al terminar una conversación práctica
+ */
+export interface ConversationFinishedEvent {
+  type: 'conversation_finished';
+  timestamp: number;
+  /** Identificador de la conversación, si la conversación es repetible */
+  conversationId?: string;
+}
+
+/** Evento de aprendizaje emitido por la aplicación */
+export type LearningEvent = LessonCompletedEvent | WordLearnedEvent | ConversationFinishedEvent;
+
+/**
+ * Regla que determina cuándo se completa un logro
+ * - counter: número de eventos distintos de un tipo
+ * - streak: días consecutivos con actividad
+ * - perfectScore: lecciones con puntuación perfecta (opcionalmente de una habilidad)
+ * - lessonSet: completar todas las lecciones de un conjunto
+ */
+export type AchievementRule =
+  | { type: 'counter'; event: LearningEventType; target: number }
+  | { type: 'streak'; days: number }
+  | { type: 'perfectScore'; count: number; skill?: string }
+  | { type: 'lessonSet'; lessonIds: string[] };
+
+/** Niveles de un logro escalonado, de menor a mayor */
+export type AchievementTierId = 'bronze' | 'silver' | 'gold';
+
+/**
+ * @interface AchievementTier
+ * @description Etapa de un logro escalonado (p. ej. bronce a las 100 palabras)
+ */
+export interface AchievementTier {
+  id: AchievementTierId;
+  /** Valor de la regla que hay que alcanzar para conseguir el nivel */
+  target: number;
+  /** Puntos que otorga conseguir el nivel */
+  points: number;
+}
+
+/**
+ * @interface TierProgress
+ * @description Estado de un nivel de un logro escalonado
+ */
+export interface TierProgress extends AchievementTier {
+  /** Progreso dentro del tramo del nivel, entre 0 y 1 */
+  progress: number;
+  /** Indica si el nivel ya se ha conseguido */
+  isCompleted: boolean;
+}
+
+/**
+ * Visibilidad de un logro en la lista
+ * - visible: se muestra siempre con su título y descripción
+ * - hidden: logro secreto, se muestra como "???" hasta desbloquearlo
+ */
+export type AchievementVisibility = 'visible' | 'hidden';
+
+/** Rareza de un logro, de más a menos frecuente */
+export type AchievementRarity = 'common' | 'rare' | 'epic' | 'legendary';
+
+/**
+ * @interface AchievementDefinition
+ * @description Declaración estática de un logro del catálogo
+ */
+export interface AchievementDefinition {
+  /** Identificador único del logro */
+  id: string;
+  /** Título descriptivo del logro */
+  title: string;
+  /** Descripción detallada del logro y cómo completarlo */
+  description: string;
+  /** Referencia al icono que representa visualmente el logro */
+  icon: any;
+  /** Categoría a la que pertenece el logro */
+  category: string;
+  /** Cantidad de puntos que otorga al completarse */
+  points: number;
+  /** Regla que se evalúa contra los eventos de aprendizaje */
+  rule: AchievementRule;
+  /** Rareza del logro */
+  rarity: AchievementRarity;
+  /** Identificadores de logros relacionados que se sugieren en el detalle */
+  related?: string[];
+  /** Visibilidad del logro; por defecto 'visible' */
+  visibility?: AchievementVisibility;
+  /**
+   * Indica si el logro solo se puede desbloquear con una suscripción de pago.
+   * Sin ella el progreso se sigue calculando, pero no se otorga.
+   */
+  premium?: boolean;
+  /**
+   * Niveles del logro, ordenados de menor a mayor. Si existen, sus objetivos
+   * sustituyen al de la regla y los puntos del logro son la suma de los niveles.
+   */
+  tiers?: AchievementTier[];
+}
+
+/**
+ * @interface Achievement
+ * @description Logro evaluado, listo para mostrarse en la interfaz
+ */
+export interface Achievement extends AchievementDefinition {
+  /** Valor numérico entre 0 y 1 que representa el progreso actual */
+  progress: number;
+  /** Indica si el logro ha sido completado */
+  isCompleted: boolean;
+  /** Valor actual de la regla (p. ej. 45 palabras) */
+  current: number;
+  /** Valor que hay que alcanzar para completar el logro (p. ej. 100 palabras) */
+  target: number;
+  /** Estado de cada nivel, solo en logros escalonados */
+  tierProgress?: TierProgress[];
+  /** Nivel más alto conseguido, o null si aún no se ha conseguido ninguno */
+  currentTier: AchievementTierId | null;
+}
+
+/**
+ * @interface LearningStats
+ * @description Agregados calculados una sola vez sobre el flujo de eventos
+ */
+export interface LearningStats {
+  /** Identificadores distintos vistos por cada tipo de evento */
+  distinctByType: Record<LearningEventType, Set<string>>;
+  /** Lecciones completadas con puntuación perfecta, indexadas por habilidad */
+  perfectScoresBySkill: Record<string, number>;
+  /** Total de lecciones con puntuación perfecta */
+  perfectScores: number;
+  /** Lecciones completadas al menos una vez */
+  completedLessons: Set<string>;
+  /** Racha más larga de días consecutivos con actividad */
+  longestStreak: number;
+}
+
+/**
+ * Devuelve el identificador del sujeto de un evento (palabra, lección, conversación).
+ * Los eventos sin identificador se cuentan individualmente.
+ */
+const subjectId = (event: LearningEvent, index: number): string => {
+  switch (event.type) {
+    case 'lesson_completed':
+      return event.lessonId;
+    case 'word_learned':
+      return event.wordId;
+    case 'conversation_finished':
+      return event.conversationId ?? `${event.timestamp}-${index}`;
+  }
+};
+
+/**
+ * Calcula la racha más larga de días consecutivos con al menos un evento
+ */
+const computeLongestStreak = (events: LearningEvent[]): number => {
+  const days = Array.from(new Set(events.map(event => dayKeyToNumber(toDayKey(event.timestamp))))).sort(
+    (a, b) => a - b
+  );
+
+  let longest = 0;
+  let current = 0;
+  for (let i = 0; i < days.length; i++) {
+    current = i > 0 && days[i] - days[i - 1] === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+};
+
+/**
+ * @interface EvaluationContext
+ * @description Datos externos al flujo de eventos que complementan la evaluación
+ */
+export interface EvaluationContext {
+  /**
+   * Racha más larga según el seguimiento de racha, que tiene en cuenta los
+   * congeladores. Se usa si es mayor que la calculada a partir de los eventos.
+   */
+  longestStreak?: number;
+}
+
+/**
+ * Recorre el flujo de eventos una vez y construye los agregados que necesitan las reglas
+ * @param events - Eventos de aprendizaje en cualquier orden
+ * @param context - Datos adicionales para la evaluación
+ */
+export function computeLearningStats(
+  events: LearningEvent[],
+  context: EvaluationContext = {}
+): LearningStats {
+  const stats: LearningStats = {
+    distinctByType: {
+      lesson_completed: new Set(),
+      word_learned: new Set(),
+      conversation_finished: new Set(),
+    },
+    perfectScoresBySkill: {},
+    perfectScores: 0,
+    completedLessons: new Set(),
+    longestStreak: Math.max(computeLongestStreak(events), context.longestStreak ?? 0),
+  };
+
+  events.forEach((event, index) => {
+    stats.distinctByType[event.type].add(subjectId(event, index));
+
+    if (event.type === 'lesson_completed') {
+      stats.completedLessons.add(event.lessonId);
+      if (event.score !== undefined && event.score >= 1) {
+        stats.perfectScores += 1;
+        if (event.skill) {
+          stats.perfectScoresBySkill[event.skill] = (stats.perfectScoresBySkill[event.skill] ?? 0) + 1;
+        }
+      }
+    }
+  });
+
+  return stats;
+}
+
+/**
+ * Evalúa una regla contra los agregados y devuelve el valor actual y el objetivo
+ * @param rule - Regla declarada por el logro
+ * @param stats - Agregados calculados con computeLearningStats
+ */
+export function evaluateRule(
+  rule: AchievementRule,
+  stats: LearningStats
+): { current: number; target: number } {
+  switch (rule.type) {
+    case 'counter':
+      return { current: stats.distinctByType[rule.event].size, target: rule.target };
+    case 'streak':
+      return { current: stats.longestStreak, target: rule.days };
+    case 'perfectScore':
+      return {
+        current: rule.skill ? stats.perfectScoresBySkill[rule.skill] ?? 0 : stats.perfectScores,
+        target: rule.count,
+      };
+    case 'lessonSet':
+      return {
+        current: rule.lessonIds.filter(id => stats.completedLessons.has(id)).length,
+        target: rule.lessonIds.length,
+      };
+  }
+}
+
+/**
+ * Calcula el estado de cada nivel de un logro escalonado.
+ * El progreso de cada nivel se mide dentro de su tramo (p. ej. de 100 a 500 palabras).
+ * @param tiers - Niveles del logro, de menor a mayor
+ * @param current - Valor actual de la regla
+ */
+export function evaluateTiers(tiers: AchievementTier[], current: number): TierProgress[] {
+  return tiers.map((tier, index) => {
+    const start = index > 0 ? tiers[index - 1].target : 0;
+    const span = tier.target - start;
+    const progress = span > 0 ? Math.min(Math.max((current - start) / span, 0), 1) : 1;
+    return { ...tier, progress, isCompleted: current >= tier.target };
+  });
+}
+
+/**
+ * Deriva el objetivo, el progreso y el nivel actual de un logro escalonado
+ * a partir del estado de sus niveles
+ * @param tierProgress - Estado de cada nivel
+ * @param current - Valor actual de la regla
+ */
+export function summarizeTiers(
+  tierProgress: TierProgress[],
+  current: number
+): Pick<Achievement, 'target' | 'current' | 'progress' | 'isCompleted' | 'currentTier'> {
+  const completed = tierProgress.filter(tier => tier.isCompleted);
+  const next = tierProgress.find(tier => !tier.isCompleted);
+  const target = (next ?? tierProgress[tierProgress.length - 1]).target;
+
+  return {
+    target,
+    current: Math.min(current, target),
+    progress: next ? Math.min(current / target, 1) : 1,
+    isCompleted: !next,
+    currentTier: completed.length > 0 ? completed[completed.length - 1].id : null,
+  };
+}
+
+/**
+ * Indica si el logro ya ha otorgado algo: está completado o tiene algún nivel conseguido
+ */
+export function hasUnlockedTier(achievement: Achievement): boolean {
+  return achievement.isCompleted || achievement.currentTier !== null;
+}
+
+/**
+ * Indica si se puede mostrar el contenido del logro: es visible o, si es secreto,
+ * ya se ha desbloqueado
+ */
+export function isRevealed(achievement: Achievement): boolean {
+  return achievement.visibility !== 'hidden' || hasUnlockedTier(achievement);
+}
+
+/**
+ * Cuenta los logros completados y el total para estadísticas del tipo "x/y"
+ * @param achievements - Logros evaluados
+ * @param options.includeHidden - Si es false, los logros secretos aún sin
+ * desbloquear no cuentan en el total
+ */
+export function countAchievements(
+  achievements: Achievement[],
+  { includeHidden = true }: { includeHidden?: boolean } = {}
+): { completed: number; total: number } {
+  const counted = includeHidden ? achievements : achievements.filter(isRevealed);
+  return {
+    completed: counted.filter(achievement => achievement.isCompleted).length,
+    total: counted.length,
+  };
+}
+
+/**
+ * Evalúa todo el catálogo de logros contra el flujo de eventos
+ * @param definitions - Catálogo de logros
+ * @param events - Eventos de aprendizaje registrados
+ * @param context - Datos adicionales para la evaluación
+ * @returns Logros con progreso y estado de completado calculados
+ */
+export function evaluateAchievements(
+  definitions: AchievementDefinition[],
+  events: LearningEvent[],
+  context: EvaluationContext = {}
+): Achievement[] {
+  const stats = computeLearningStats(events, context);
+
+  return definitions.map(definition => {
+    const { current, target } = evaluateRule(definition.rule, stats);
+
+    if (definition.tiers?.length) {
+      const tierProgress = evaluateTiers(definition.tiers, current);
+      return {
+        ...definition,
+        points: definition.tiers.reduce((total, tier) => total + tier.points, 0),
+        tierProgress,
+        ...summarizeTiers(tierProgress, current),
+      };
+    }
+
+    const progress = target > 0 ? Math.min(current / target, 1) : 1;
+    return {
+      ...definition,
+      current: Math.min(current, target),
+      target,
+      progress,
+      isCompleted: progress >= 1,
+      currentTier: null,
+    };
+  });
+}
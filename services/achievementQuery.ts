@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Búsqueda, ordenación y agrupación de logros.
+ *
+ * Funciones puras que usa el panel de logros para construir la lista visible a
+ * partir de los logros evaluados. Los logros secretos sin desbloquear nunca
+ * coinciden con una búsqueda y se colocan al final al ordenar, para no desvelarlos.
+ */
+import { countAchievements, isRevealed } from './achievementEngine';
+import type { UnlockedAchievement } from './achievementStore';
+import { getI18nSnapshot, type Locale } from './i18n';
+
+/**
+ * Modos de ordenación de la lista de logros
+ * - default: orden del catálogo
+ * - progress: los más cercanos a completarse primero
+ * - points: los que más puntos otorgan primero
+ * - recent: los desbloqueados más recientemente primero
+ * - alphabetical: por título
+ */
+export type AchievementSortMode = 'default' | 'progress' | 'points' | 'recent' | 'alphabetical';
+
+/**
+ * @interface AchievementSection
+ * @description Grupo de logros de una categoría para la vista agrupada
+ */
+export interface AchievementSection {
+  /** Identificador de la categoría */
+  id: string;
+  /** Nombre de la categoría */
+  title: string;
+  /** Fracción de logros completados en la categoría, entre 0 y 1 */
+  completion: number;
+  /** Logros de la categoría que se muestran */
+  data: UnlockedAchievement[];
+}
+
+/**
+ * Pasa un texto a minúsculas y sin tildes para comparar búsquedas
+ */
+const normalize = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Filtra los logros cuyo título o descripción contienen todas las palabras buscadas
+ * @param achievements - Logros a filtrar
+ * @param query - Texto de búsqueda; si está vacío se devuelven todos
+ */
+export function searchAchievements(achievements: UnlockedAchievement[], query: string): UnlockedAchievement[] {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return achievements;
+
+  return achievements.filter(achievement => {
+    if (!isRevealed(achievement)) return false;
+    const text = normalize(`${achievement.title} ${achievement.description}`);
+    return terms.every(term => text.includes(term));
+  });
+}
+
+/**
+ * Devuelve el último momento en que se desbloqueó el logro o alguno de sus niveles
+ */
+const lastUnlockedAt = (achievement: UnlockedAchievement): number =>
+  Math.max(achievement.completedAt ?? 0, ...Object.values(achievement.tierCompletedAt).map(time => time ?? 0));
+
+type Comparator = (a: UnlockedAchievement, b: UnlockedAchievement, locale: Locale) => number;
+
+const comparators: Record<Exclude<AchievementSortMode, 'default'>, Comparator> = {
+  progress: (a, b) => Number(a.isCompleted) - Number(b.isCompleted) || b.progress - a.progress,
+  points: (a, b) => b.points - a.points,
+  recent: (a, b) => lastUnlockedAt(b) - lastUnlockedAt(a),
+  alphabetical: (a, b, locale) => a.title.localeCompare(b.title, locale),
+};
+
+/**
+ * Ordena los logros según el modo indicado. La ordenación es estable, de modo
+ * que los empates conservan el orden del catálogo.
+ * @param achievements - Logros a ordenar
+ * @param mode - Modo de ordenación
+ * @param locale - Idioma con cuyas reglas se ordenan los títulos; por defecto, el activo
+ */
+export function sortAchievements(
+  achievements: UnlockedAchievement[],
+  mode: AchievementSortMode,
+  locale: Locale = getI18nSnapshot().locale
+): UnlockedAchievement[] {
+  if (mode === 'default') return achievements;
+
+  const compare = comparators[mode];
+  return [...achievements].sort(
+    (a, b) => Number(!isRevealed(a)) - Number(!isRevealed(b)) || compare(a, b, locale)
+  );
+}
+
+/**
+ * Agrupa los logros por categoría en el orden de las categorías indicadas.
+ * El porcentaje de cada categoría se calcula sobre todos sus logros, no solo los mostrados.
+ * @param achievements - Logros que se muestran
+ * @param categories - Categorías en el orden en que se presentan
+ * @param allAchievements - Catálogo completo evaluado, para el porcentaje de cada categoría
+ * @param includeHidden - Si los logros secretos sin desbloquear cuentan en el porcentaje
+ * @returns Secciones con al menos un logro
+ */
+export function groupAchievementsByCategory(
+  achievements: UnlockedAchievement[],
+  categories: { id: string; name: string }[],
+  allAchievements: UnlockedAchievement[],
+  includeHidden = false
+): AchievementSection[] {
+  return categories
+    .map(category => {
+      const { completed, total } = countAchievements(
+        allAchievements.filter(achievement => achievement.category === category.id),
+        { includeHidden }
+      );
+      return {
+        id: category.id,
+        title: category.name,
+        completion: total > 0 ? completed / total : 0,
+        data: achievements.filter(achievement => achievement.category === category.id),
+      };
+    })
+    .filter(section => section.data.length > 0);
+}
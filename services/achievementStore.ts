@@ -0,0 +1,610 @@
+/**
+ * @fileoverview Almacén persistente de logros.
+ *
+ * Guarda en AsyncStorage los eventos de aprendizaje y el historial de desbloqueos
+ * (progreso por logro, fecha de completado y puntos otorgados). El estado se
+ * versiona y se migra al cargarlo, de modo que los datos de versiones anteriores
+ * de la aplicación siguen siendo válidos.
+ *
+ * Este módulo de perfil no incluye las pantallas de lecciones, vocabulario y
+ * conversación: son ellas las que deben llamar a recordLearningEvent al
+ * terminar cada actividad. Mientras no estén integradas, los únicos eventos
+ * son los que llegan en una importación de datos (services/personalData).
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ACHIEVEMENTS, LEGACY_CATEGORY_IDS, TIERS } from '../constants/Achievements';
+import {
+  evaluateAchievements,
+  summarizeTiers,
+  type Achievement,
+  type AchievementDefinition,
+  type AchievementTierId,
+  type LearningEvent,
+} from './achievementEngine';
+import { getI18nSnapshot, subscribeToI18n, translateText, type Locale } from './i18n';
+import { getStreakSnapshot, loadStreak, recordActivity, subscribeToStreak } from './streakTracker';
+import { hasPremiumFeature, subscribeToSubscription } from './subscription';
+import { enqueueUnlockNotifications, type UnlockNotification } from './unlockNotifications';
+
+/** Clave de AsyncStorage bajo la que se guarda el estado de logros */
+export const ACHIEVEMENTS_STORAGE_KEY = 'achievements';
+
+/** Versión actual del esquema persistido */
+export const ACHIEVEMENTS_SCHEMA_VERSION = 3;
+
+/**
+ * @interface AchievementRecord
+ * @description Historial persistido de un logro
+ */
+export interface AchievementRecord {
+  /** Último progreso conocido entre 0 y 1 */
+  progress: number;
+  /** Momento en que se desbloqueó el logro, o null si sigue pendiente */
+  completedAt: number | null;
+  /** Puntos otorgados al desbloquearlo (en logros escalonados, la suma de los niveles conseguidos) */
+  pointsAwarded: number;
+  /** Momento en que se consiguió cada nivel de un logro escalonado */
+  tiers: Partial<Record<AchievementTierId, number>>;
+}
+
+/**
+ * @interface AchievementsState
+ * @description Forma del documento guardado en AsyncStorage
+ */
+export interface AchievementsState {
+  version: number;
+  /** Eventos de aprendizaje registrados, en orden de llegada */
+  events: LearningEvent[];
+  /** Historial por identificador de logro */
+  records: Record<string, AchievementRecord>;
+  /** Último nivel cuya subida ya se ha celebrado en la interfaz */
+  celebratedLevel: number;
+  /** Logros secretos cuya animación de revelado ya se ha mostrado */
+  revealedSecrets: string[];
+}
+
+/**
+ * @interface UnlockedAchievement
+ * @description Logro evaluado enriquecido con su historial de desbloqueo
+ */
+export interface UnlockedAchievement extends Achievement {
+  completedAt: number | null;
+  pointsAwarded: number;
+  /** Momento en que se consiguió cada nivel de un logro escalonado */
+  tierCompletedAt: Partial<Record<AchievementTierId, number>>;
+}
+
+/**
+ * @interface AchievementsSnapshot
+ * @description Vista inmutable del almacén que consumen los componentes
+ */
+export interface AchievementsSnapshot {
+  /** Indica si el estado persistido ya se ha cargado */
+  loaded: boolean;
+  state: AchievementsState;
+  achievements: UnlockedAchievement[];
+}
+
+type WithOptionalTimestamp<E> = E extends LearningEvent
+  ? Omit<E, 'timestamp'> & { timestamp?: number }
+  : never;
+
+/** Evento sin marca de tiempo obligatoria; se asigna al registrarlo si no se indica */
+export type NewLearningEvent = WithOptionalTimestamp<LearningEvent>;
+
+/** Documento persistido en una versión cualquiera del esquema, aún sin validar */
+type PersistedAchievementsState = Record<string, unknown> & { version: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+/**
+ * Comprueba un evento de aprendizaje: el motor de logros da por hecho que el
+ * tipo es uno de los conocidos y que la fecha y los identificadores son válidos
+ */
+const isLearningEvent = (value: unknown): value is LearningEvent => {
+  if (!isRecord(value) || !isCount(value.timestamp)) return false;
+  switch (value.type) {
+    case 'lesson_completed':
+      return isString(value.lessonId) && isOptional(value.skill, isString) && isOptional(value.score, isCount);
+    case 'word_learned':
+      return isString(value.wordId);
+    case 'conversation_finished':
+      return isOptional(value.conversationId, isString);
+    default:
+      return false;
+  }
+};
+
+const isAchievementRecord = (value: unknown): value is AchievementRecord =>
+  isRecord(value) &&
+  isCount(value.progress) &&
+  (value.completedAt === null || isCount(value.completedAt)) &&
+  isCount(value.pointsAwarded) &&
+  isRecord(value.tiers) &&
+  Object.entries(value.tiers).every(([tier, completedAt]) => tier in TIERS && isCount(completedAt));
+
+const isArrayOf = <T>(value: unknown, check: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(check);
+
+const isRecordOf = <T>(value: unknown, check: (item: unknown) => item is T): value is Record<string, T> =>
+  isRecord(value) && Object.values(value).every(check);
+
+/**
+ * Migraciones indexadas por la versión de origen.
+ * Cada función recibe el documento en la versión N y devuelve la versión N + 1.
+ */
+const migrations: Record<number, (state: PersistedAchievementsState) => Record<string, unknown>> = {
+  // v2: logros escalonados. Un logro que pasa a tener niveles conserva su
+  // desbloqueo anterior como primer nivel conseguido.
+  1: state => {
+    const records = isRecord(state.records) ? state.records : {};
+    return {
+      ...state,
+      records: Object.fromEntries(
+        Object.entries(records).map(([id, value]) => {
+          const record = isRecord(value) ? value : {};
+          const firstTier = ACHIEVEMENTS.find(definition => definition.id === id)?.tiers?.[0];
+          if (!firstTier || !record.completedAt) return [id, { ...record, tiers: {} }];
+          return [
+            id,
+            {
+              ...record,
+              completedAt: null,
+              pointsAwarded: firstTier.points,
+              tiers: { [firstTier.id]: record.completedAt },
+            },
+          ];
+        })
+      ),
+    };
+  },
+  // v3: las categorías tienen identificadores independientes del idioma. Las
+  // puntuaciones perfectas guardaban la habilidad con el nombre en español.
+  2: state => ({
+    ...state,
+    events: Array.isArray(state.events)
+      ? state.events.map((event: unknown) =>
+          isRecord(event) && isString(event.skill) && LEGACY_CATEGORY_IDS[event.skill]
+            ? { ...event, skill: LEGACY_CATEGORY_IDS[event.skill] }
+            : event
+        )
+      : [],
+  }),
+};
+
+const createEmptyState = (): AchievementsState => ({
+  version: ACHIEVEMENTS_SCHEMA_VERSION,
+  events: [],
+  records: {},
+  celebratedLevel: 1,
+  revealedSecrets: [],
+});
+
+/**
+ * Lleva un documento persistido hasta la versión actual del esquema
+ * @returns El estado migrado, o null si el documento no se puede interpretar
+ * (incluido un evento o un historial de logro con una forma no válida)
+ */
+export function migrateAchievementsState(raw: unknown): AchievementsState | null {
+  if (!isRecord(raw) || typeof raw.version !== 'number') return null;
+  // Un documento de una versión más nueva no se puede interpretar con seguridad
+  if (raw.version > ACHIEVEMENTS_SCHEMA_VERSION) return null;
+
+  let state: PersistedAchievementsState = { ...raw, version: raw.version };
+  while (state.version < ACHIEVEMENTS_SCHEMA_VERSION) {
+    const migrate = migrations[state.version];
+    if (!migrate) return null;
+    state = { ...migrate(state), version: state.version + 1 };
+  }
+
+  const events = state.events ?? [];
+  const records = state.records ?? {};
+  const revealedSecrets = state.revealedSecrets ?? [];
+  if (
+    !isArrayOf(events, isLearningEvent) ||
+    !isRecordOf(records, isAchievementRecord) ||
+    !isArrayOf(revealedSecrets, isString)
+  ) {
+    return null;
+  }
+
+  return {
+    version: ACHIEVEMENTS_SCHEMA_VERSION,
+    events,
+    records,
+    celebratedLevel: isCount(state.celebratedLevel) ? state.celebratedLevel : 1,
+    revealedSecrets,
+  };
+}
+
+let localizedCatalog: { locale: Locale; definitions: AchievementDefinition[] } | null = null;
+
+/**
+ * Catálogo con el título y la descripción traducidos al idioma activo.
+ * Se reutiliza mientras no cambie el idioma.
+ */
+const getLocalizedCatalog = (): AchievementDefinition[] => {
+  const { locale } = getI18nSnapshot();
+  if (localizedCatalog?.locale !== locale) {
+    localizedCatalog = {
+      locale,
+      definitions: ACHIEVEMENTS.map(definition => ({
+        ...definition,
+        title: translateText(definition.title, undefined, locale),
+        description: translateText(definition.description, undefined, locale),
+      })),
+    };
+  }
+  return localizedCatalog.definitions;
+};
+
+/**
+ * Evalúa el catálogo usando la racha del seguimiento de racha, que incluye los congeladores
+ * @param longestStreak - Racha más larga; por defecto, la del seguimiento de racha
+ */
+const evaluate = (
+  events: LearningEvent[],
+  longestStreak = getStreakSnapshot().summary.longestStreak
+): Achievement[] => evaluateAchievements(getLocalizedCatalog(), events, { longestStreak });
+
+/**
+ * Marca como conseguidos los niveles que ya constan en el historial
+ */
+const applyTierRecords = (achievement: Achievement, record: AchievementRecord | undefined): Achievement => {
+  if (!achievement.tierProgress) return achievement;
+
+  const tierProgress = achievement.tierProgress.map(tier =>
+    record?.tiers?.[tier.id] ? { ...tier, progress: 1, isCompleted: true } : tier
+  );
+  return { ...achievement, tierProgress, ...summarizeTiers(tierProgress, achievement.current) };
+};
+
+/** Progreso máximo de un logro de pago cumplido sin la suscripción que lo otorga */
+const LOCKED_PROGRESS_CAP = 0.99;
+
+/**
+ * Estado de un logro de pago sin acceso a los logros de pago: como no se
+ * otorga, solo cuenta como conseguido lo que ya consta en el historial, y el
+ * progreso se queda por debajo de completarlo aunque la regla se cumpla
+ */
+const applyLockedRecord = (achievement: Achievement, record: AchievementRecord | undefined): Achievement => {
+  if (!achievement.tierProgress) {
+    return {
+      ...achievement,
+      isCompleted: false,
+      currentTier: null,
+      progress: Math.min(achievement.progress, LOCKED_PROGRESS_CAP),
+    };
+  }
+
+  const tierProgress = achievement.tierProgress.map(tier =>
+    record?.tiers?.[tier.id]
+      ? { ...tier, progress: 1, isCompleted: true }
+      : { ...tier, progress: Math.min(tier.progress, LOCKED_PROGRESS_CAP), isCompleted: false }
+  );
+  const summary = summarizeTiers(tierProgress, achievement.current);
+  return {
+    ...achievement,
+    tierProgress,
+    ...summary,
+    progress: summary.isCompleted ? 1 : Math.min(summary.progress, LOCKED_PROGRESS_CAP),
+  };
+};
+
+/**
+ * Combina la evaluación del motor con el historial.
+ * Un logro o nivel desbloqueado se mantiene desbloqueado aunque cambie el catálogo.
+ */
+const applyRecords = (
+  achievements: Achievement[],
+  records: Record<string, AchievementRecord>
+): UnlockedAchievement[] =>
+  achievements.map(achievement => {
+    const record = records[achievement.id];
+    const unlocked = achievement.premium && !hasPremiumFeature('premiumAchievements')
+      ? applyLockedRecord(achievement, record)
+      : applyTierRecords(achievement, record);
+    const tierCompletedAt = record?.tiers ?? {};
+    if (record?.completedAt) {
+      return {
+        ...unlocked,
+        progress: 1,
+        isCompleted: true,
+        completedAt: record.completedAt,
+        pointsAwarded: record.pointsAwarded,
+        tierCompletedAt,
+      };
+    }
+    return { ...unlocked, completedAt: null, pointsAwarded: record?.pointsAwarded ?? 0, tierCompletedAt };
+  });
+
+/**
+ * Indica si un logro está bloqueado por falta de suscripción: es de pago, no se
+ * tiene acceso a los logros de pago y el historial no registra que haya otorgado nada
+ * @param achievement - Logro del almacén
+ * @param hasPremium - Si la suscripción da acceso a los logros de pago
+ */
+export function isPremiumLocked(achievement: UnlockedAchievement, hasPremium: boolean): boolean {
+  return (
+    !!achievement.premium &&
+    !hasPremium &&
+    !achievement.completedAt &&
+    Object.keys(achievement.tierCompletedAt).length === 0
+  );
+}
+
+/**
+ * Actualiza el historial con el resultado de evaluar los eventos.
+ * Los logros y niveles que se completan por primera vez reciben la fecha indicada.
+ * Los logros de pago solo se registran con una suscripción que los incluya.
+ */
+const updateRecords = (
+  achievements: Achievement[],
+  records: Record<string, AchievementRecord>,
+  now: number
+): Record<string, AchievementRecord> => {
+  const next = { ...records };
+  achievements.forEach(achievement => {
+    const previous = next[achievement.id];
+    if (previous?.completedAt) return;
+    if (achievement.premium && !hasPremiumFeature('premiumAchievements')) return;
+
+    if (achievement.tierProgress) {
+      const tiers = { ...previous?.tiers };
+      achievement.tierProgress.forEach(tier => {
+        if (tier.isCompleted && !tiers[tier.id]) tiers[tier.id] = now;
+      });
+      const earned = achievement.tierProgress.filter(tier => tiers[tier.id]);
+      const isCompleted = earned.length === achievement.tierProgress.length;
+
+      next[achievement.id] = {
+        progress: achievement.progress,
+        completedAt: isCompleted ? now : null,
+        pointsAwarded: earned.reduce((total, tier) => total + tier.points, 0),
+        tiers,
+      };
+      return;
+    }
+
+    next[achievement.id] = {
+      progress: achievement.progress,
+      completedAt: achievement.isCompleted ? now : null,
+      pointsAwarded: achievement.isCompleted ? achievement.points : 0,
+      tiers: {},
+    };
+  });
+  return next;
+};
+
+/**
+ * Encola un aviso por cada logro o nivel que el historial registra por primera vez
+ */
+const notifyUnlocks = (
+  achievements: Achievement[],
+  previous: Record<string, AchievementRecord>,
+  next: Record<string, AchievementRecord>
+) => {
+  enqueueUnlockNotifications(
+    achievements.flatMap<Omit<UnlockNotification, 'key'>>(achievement => {
+      const before = previous[achievement.id];
+      const after = next[achievement.id];
+      if (!after) return [];
+
+      const base = { achievementId: achievement.id, title: achievement.title, icon: achievement.icon };
+      if (achievement.tierProgress) {
+        return achievement.tierProgress
+          .filter(tier => after.tiers[tier.id] && !before?.tiers?.[tier.id])
+          .map(tier => ({ ...base, tier: tier.id, points: tier.points }));
+      }
+      return after.completedAt && !before?.completedAt
+        ? [{ ...base, tier: null, points: after.pointsAwarded }]
+        : [];
+    })
+  );
+};
+
+const buildSnapshot = (state: AchievementsState, loaded: boolean): AchievementsSnapshot => ({
+  loaded,
+  state,
+  achievements: applyRecords(evaluate(state.events), state.records),
+});
+
+let snapshot: AchievementsSnapshot = buildSnapshot(createEmptyState(), false);
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (state: AchievementsState, loaded = snapshot.loaded) => {
+  snapshot = buildSnapshot(state, loaded);
+  listeners.forEach(listener => listener());
+};
+
+const persist = async (state: AchievementsState): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(ACHIEVEMENTS_STORAGE_KEY, JSON.stringify(state));
+    return true;
+  } catch (error) {
+    console.error('Error saving achievements:', error);
+    return false;
+  }
+};
+
+/** Devuelve la vista actual del almacén */
+export function getAchievementsSnapshot(): AchievementsSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios del almacén
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToAchievements(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Carga el estado persistido, aplicando las migraciones necesarias.
+ * Solo lee AsyncStorage la primera vez; las llamadas siguientes reutilizan la carga.
+ */
+export function loadAchievements(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      await loadStreak();
+
+      let state = createEmptyState();
+      let needsPersist = false;
+      try {
+        const stored = await AsyncStorage.getItem(ACHIEVEMENTS_STORAGE_KEY);
+        if (stored) {
+          const raw = JSON.parse(stored);
+          const migrated = migrateAchievementsState(raw);
+          if (migrated) {
+            state = migrated;
+            needsPersist = raw.version !== ACHIEVEMENTS_SCHEMA_VERSION;
+          } else {
+            console.warn('Discarding unreadable achievements data');
+          }
+        }
+      } catch (error) {
+        console.error('Error loading achievements:', error);
+      }
+
+      // Los eventos registrados antes de terminar la carga se conservan
+      const pending = snapshot.state.events;
+      const events = [...state.events, ...pending];
+      const evaluated = evaluate(events);
+      const records = updateRecords(evaluated, state.records, Date.now());
+      notifyUnlocks(evaluated, state.records, records);
+      needsPersist ||= pending.length > 0 || JSON.stringify(records) !== JSON.stringify(state.records);
+      state = { ...state, events, records };
+
+      setState(state, true);
+      if (needsPersist) {
+        await persist(state);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Registra un evento de aprendizaje, actualiza el historial de logros y lo persiste.
+ * Es el punto de entrada para las pantallas de actividades de la aplicación principal.
+ * @param event - Evento a registrar; si no trae timestamp se usa la hora actual
+ */
+export async function recordLearningEvent(event: NewLearningEvent): Promise<void> {
+  const now = Date.now();
+  const timestamp = event.timestamp ?? now;
+  // La racha se actualiza antes de evaluar para que las reglas de racha vean el día nuevo
+  const streakUpdate = recordActivity(timestamp);
+
+  const events = [...snapshot.state.events, { ...event, timestamp } as LearningEvent];
+  let records = snapshot.state.records;
+  if (snapshot.loaded) {
+    const evaluated = evaluate(events);
+    records = updateRecords(evaluated, snapshot.state.records, now);
+    notifyUnlocks(evaluated, snapshot.state.records, records);
+  }
+  const state = { ...snapshot.state, events, records };
+
+  setState(state);
+  // Hasta que termine la carga no se escribe, para no pisar los datos guardados
+  await Promise.all([streakUpdate, snapshot.loaded ? persist(state) : undefined]);
+}
+
+/**
+ * Guarda que ya se ha mostrado la celebración de un nivel, para no repetirla
+ * @param level - Nivel celebrado
+ */
+export async function markLevelCelebrated(level: number): Promise<void> {
+  if (level <= snapshot.state.celebratedLevel) return;
+
+  const state = { ...snapshot.state, celebratedLevel: level };
+  setState(state);
+  if (snapshot.loaded) await persist(state);
+}
+
+/**
+ * Guarda que ya se ha mostrado el revelado de un logro secreto, para no repetirlo
+ * @param id - Identificador del logro revelado
+ */
+export async function markAchievementRevealed(id: string): Promise<void> {
+  if (snapshot.state.revealedSecrets.includes(id)) return;
+
+  const state = { ...snapshot.state, revealedSecrets: [...snapshot.state.revealedSecrets, id] };
+  setState(state);
+  if (snapshot.loaded) await persist(state);
+}
+
+/**
+ * Estado con el que se sustituiría el guardado, por ejemplo al importar una
+ * copia de los datos: los logros se vuelven a evaluar con los eventos
+ * importados. No guarda nada, para poder calcularlo antes de empezar a escribir.
+ * @param imported - Estado ya migrado a la versión actual
+ * @param longestStreak - Racha más larga con la que se evalúan las reglas de racha
+ */
+export function prepareAchievementsState(imported: AchievementsState, longestStreak: number): AchievementsState {
+  const records = updateRecords(evaluate(imported.events, longestStreak), imported.records, Date.now());
+  return { ...imported, records };
+}
+
+/**
+ * Sustituye el estado guardado. Los desbloqueos que contenga no se anuncian.
+ * Primero se guarda, para que la vista no cambie si no se puede guardar.
+ * @param state - Estado completo, p. ej. el de prepareAchievementsState
+ * @returns true si se ha guardado
+ */
+export async function replaceAchievementsState(state: AchievementsState): Promise<boolean> {
+  await loadAchievements();
+  if (!(await persist(state))) return false;
+  setState(state);
+  return true;
+}
+
+/**
+ * Vacía los logros y borra los guardados, por ejemplo al borrar la cuenta
+ */
+export async function resetAchievements(): Promise<void> {
+  await loadAchievements();
+  setState(createEmptyState());
+  try {
+    await AsyncStorage.removeItem(ACHIEVEMENTS_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting achievements:', error);
+  }
+}
+
+/**
+ * Vuelve a evaluar los logros sin eventos nuevos y guarda los desbloqueos que resulten
+ */
+const reevaluate = () => {
+  if (!snapshot.loaded) return;
+
+  const evaluated = evaluate(snapshot.state.events);
+  const records = updateRecords(evaluated, snapshot.state.records, Date.now());
+  notifyUnlocks(evaluated, snapshot.state.records, records);
+  const changed = JSON.stringify(records) !== JSON.stringify(snapshot.state.records);
+  const state = changed ? { ...snapshot.state, records } : snapshot.state;
+  setState(state);
+  if (changed) persist(state);
+};
+
+// Los congeladores pueden alargar la racha sin eventos nuevos, así que se reevalúa al cambiar
+subscribeToStreak(reevaluate);
+
+// Al contratar un plan de pago se otorgan los logros de pago que ya se habían cumplido
+subscribeToSubscription(reevaluate);
+
+// Al cambiar de idioma se reconstruye la vista con los textos traducidos
+subscribeToI18n(() => setState(snapshot.state));
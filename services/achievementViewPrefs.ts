@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Preferencias de visualización del panel de logros.
+ *
+ * Guarda el filtro, la búsqueda, el modo de ordenación y la vista agrupada para
+ * que el panel se abra tal y como el usuario lo dejó.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { LEGACY_CATEGORY_IDS } from '../constants/Achievements';
+import type { AchievementSortMode } from './achievementQuery';
+
+/** Clave de AsyncStorage bajo la que se guardan las preferencias */
+export const ACHIEVEMENT_VIEW_PREFS_STORAGE_KEY = 'achievementViewPrefs';
+
+/** Modos de ordenación válidos, en el orden en que se recorren en el panel */
+export const SORT_MODES: AchievementSortMode[] = ['default', 'progress', 'points', 'recent', 'alphabetical'];
+
+/** Filtros especiales del panel, además de uno por categoría */
+export const SPECIAL_FILTERS = ['all', 'completed', 'pending'] as const;
+
+/** Identificadores de filtro de versiones anteriores, que eran los nombres en español */
+const LEGACY_FILTER_IDS: Record<string, string> = {
+  todos: 'all',
+  completados: 'completed',
+  pendientes: 'pending',
+  ...LEGACY_CATEGORY_IDS,
+};
+
+/**
+ * @interface AchievementViewPrefs
+ * @description Estado de la vista del panel de logros
+ */
+export interface AchievementViewPrefs {
+  /** Filtro activo: 'all', 'completed', 'pending' o un identificador de categoría */
+  filter: string;
+  /** Texto de búsqueda */
+  query: string;
+  sortMode: AchievementSortMode;
+  /** Indica si los logros se agrupan por categoría */
+  grouped: boolean;
+}
+
+/**
+ * @interface AchievementViewPrefsSnapshot
+ * @description Vista inmutable de las preferencias
+ */
+export interface AchievementViewPrefsSnapshot {
+  loaded: boolean;
+  prefs: AchievementViewPrefs;
+}
+
+const DEFAULT_PREFS: AchievementViewPrefs = {
+  filter: 'all',
+  query: '',
+  sortMode: 'default',
+  grouped: false,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSortMode = (value: unknown): value is AchievementSortMode =>
+  SORT_MODES.includes(value as AchievementSortMode);
+
+/**
+ * Valida un documento persistido campo a campo; los campos no válidos toman su valor por defecto.
+ * Los filtros guardados con su identificador anterior se traducen al actual.
+ */
+export function parseAchievementViewPrefs(raw: unknown): AchievementViewPrefs {
+  const { filter, query, sortMode, grouped } = isRecord(raw) ? raw : {};
+  return {
+    filter: typeof filter === 'string' ? LEGACY_FILTER_IDS[filter] ?? filter : DEFAULT_PREFS.filter,
+    query: typeof query === 'string' ? query : DEFAULT_PREFS.query,
+    sortMode: isSortMode(sortMode) ? sortMode : DEFAULT_PREFS.sortMode,
+    grouped: typeof grouped === 'boolean' ? grouped : DEFAULT_PREFS.grouped,
+  };
+}
+
+let snapshot: AchievementViewPrefsSnapshot = { loaded: false, prefs: DEFAULT_PREFS };
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setPrefs = (prefs: AchievementViewPrefs, loaded = snapshot.loaded) => {
+  snapshot = { loaded, prefs };
+  listeners.forEach(listener => listener());
+};
+
+const persist = async (prefs: AchievementViewPrefs): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(ACHIEVEMENT_VIEW_PREFS_STORAGE_KEY, JSON.stringify(prefs));
+    return true;
+  } catch (error) {
+    console.error('Error saving achievement view preferences:', error);
+    return false;
+  }
+};
+
+/** Devuelve la vista actual de las preferencias */
+export function getAchievementViewPrefsSnapshot(): AchievementViewPrefsSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de las preferencias
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToAchievementViewPrefs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Carga las preferencias guardadas. Solo lee AsyncStorage la primera vez.
+ * Los cambios hechos antes de terminar la carga prevalecen sobre los guardados.
+ */
+export function loadAchievementViewPrefs(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let prefs = DEFAULT_PREFS;
+      try {
+        const stored = await AsyncStorage.getItem(ACHIEVEMENT_VIEW_PREFS_STORAGE_KEY);
+        if (stored) prefs = parseAchievementViewPrefs(JSON.parse(stored));
+      } catch (error) {
+        console.error('Error loading achievement view preferences:', error);
+      }
+
+      const changed = snapshot.prefs !== DEFAULT_PREFS;
+      setPrefs(changed ? snapshot.prefs : prefs, true);
+      if (changed) await persist(snapshot.prefs);
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Actualiza parte de las preferencias y las persiste
+ * @param changes - Campos a cambiar
+ * @returns false si no se han podido guardar
+ */
+export async function updateAchievementViewPrefs(changes: Partial<AchievementViewPrefs>): Promise<boolean> {
+  const prefs = { ...snapshot.prefs, ...changes };
+  setPrefs(prefs);
+  // Antes de terminar la carga no se escribe: la carga guarda los cambios pendientes
+  return snapshot.loaded ? persist(prefs) : true;
+}
+
+/**
+ * Vuelve a las preferencias por defecto y borra las guardadas, por ejemplo al borrar la cuenta
+ */
+export async function resetAchievementViewPrefs(): Promise<void> {
+  await loadAchievementViewPrefs();
+  setPrefs(DEFAULT_PREFS);
+  try {
+    await AsyncStorage.removeItem(ACHIEVEMENT_VIEW_PREFS_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting achievement view preferences:', error);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Interfaz con el proveedor de autenticación.
+ *
+ * La aplicación no guarda contraseñas: delega en un proveedor de
+ * autenticación que comprueba las credenciales, envía los enlaces de acceso
+ * ("magic links") y emite los tokens de sesión. Este módulo define la interfaz
+ * que debe cumplir cualquier proveedor; services/mockAuthServer implementa un
+ * servidor local para desarrollo y pruebas.
+ */
+import type { ValidationError } from './profileValidation';
+
+/** Longitud mínima de las contraseñas nuevas */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * @interface AuthUser
+ * @description Usuario autenticado
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * @interface AuthTokens
+ * @description Tokens de una sesión. El de acceso caduca pronto y se renueva
+ * con el de refresco, que dura hasta que se cierra la sesión o caduca.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Marca de tiempo en que caduca el token de acceso */
+  expiresAt: number;
+}
+
+/**
+ * @interface AuthSession
+ * @description Sesión iniciada
+ */
+export interface AuthSession {
+  user: AuthUser;
+  tokens: AuthTokens;
+}
+
+/**
+ * Motivos por los que el proveedor rechaza una operación. El mensaje para el
+ * usuario es `authError.<código>` de los catálogos de traducción.
+ */
+export type AuthErrorCode = 'invalidCredentials' | 'emailInUse' | 'invalidLink' | 'sessionExpired' | 'unavailable';
+
+/**
+ * Error con el que el proveedor rechaza una operación
+ */
+export class AuthError extends Error {
+  constructor(readonly code: AuthErrorCode) {
+    super(`Auth error: ${code}`);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Código de un error cualquiera; los que no vienen del proveedor (sin
+ * conexión, por ejemplo) se tratan como proveedor no disponible
+ */
+export function getAuthErrorCode(error: unknown): AuthErrorCode {
+  return error instanceof AuthError ? error.code : 'unavailable';
+}
+
+/**
+ * @interface AuthProvider
+ * @description Operaciones que debe ofrecer un proveedor de autenticación.
+ * Rechazan la promesa con un AuthError si no se pueden completar.
+ */
+export interface AuthProvider {
+  /** Inicia sesión con correo y contraseña */
+  signIn(email: string, password: string): Promise<AuthSession>;
+  /** Crea una cuenta con correo y contraseña e inicia sesión con ella */
+  signUp(email: string, password: string): Promise<AuthSession>;
+  /**
+   * Envía al correo un enlace de acceso de un solo uso. El enlace abre
+   * `redirectUrl` con el parámetro `token`; si el correo no tiene cuenta, se
+   * crea al usarlo.
+   */
+  requestMagicLink(email: string, redirectUrl: string): Promise<void>;
+  /** Inicia sesión con el token de un enlace de acceso */
+  verifyMagicLink(token: string): Promise<AuthSession>;
+  /** Emite tokens nuevos; rechaza con 'sessionExpired' si el de refresco ya no vale */
+  refresh(refreshToken: string): Promise<AuthTokens>;
+  /** Invalida el token de refresco */
+  signOut(refreshToken: string): Promise<void>;
+  /**
+   * Borra la cuenta a la que pertenece el token de refresco e invalida todos
+   * sus tokens; rechaza con 'sessionExpired' si el token ya no vale
+   */
+  deleteAccount(refreshToken: string): Promise<void>;
+}
+
+/**
+ * Valida una contraseña nueva
+ * @param password - Contraseña escrita
+ * @returns El error, o null si es válida
+ */
+export function validatePassword(password: string): ValidationError | null {
+  if (!password) return { key: 'auth.passwordRequired' };
+  if (password.length < PASSWORD_MIN_LENGTH) return { key: 'auth.passwordTooShort', params: { min: PASSWORD_MIN_LENGTH } };
+  return null;
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Avatares del perfil.
+ *
+ * Un avatar es una de las imágenes de capibara de la aplicación, identificada
+ * por una clave estable, una capibara compuesta por capas con las prendas del
+ * armario (services/wardrobe) o una foto del usuario guardada como fichero local.
+ * Las fotos se recortan a un cuadrado centrado y se muestran en un círculo.
+ * Este módulo también convierte las referencias a recursos de Metro que
+ * guardaban las versiones anteriores en su clave.
+ */
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import type { ImageSourcePropType } from 'react-native';
+
+import { AVATARS, AVATAR_ORDER } from '../constants/Avatars';
+import { getWardrobeItem, isAvatarLayers, type AvatarLayers } from './wardrobe';
+
+/** Claves de las imágenes de capibara */
+export type AvatarId = 'front' | 'glasses' | 'beanie' | 'hat' | 'summer';
+
+/** Avatar del perfil: una imagen de la aplicación, una capibara compuesta o una foto del usuario */
+export type Avatar =
+  | { kind: 'preset'; id: AvatarId }
+  | { kind: 'composed'; layers: AvatarLayers }
+  | { kind: 'photo'; uri: string };
+
+const DEFAULT_AVATAR_ID: AvatarId = 'front';
+
+/** Avatar de quien no ha elegido ninguno */
+export const DEFAULT_AVATAR: Avatar = { kind: 'preset', id: DEFAULT_AVATAR_ID };
+
+/** Lado en píxeles de las fotos guardadas */
+export const AVATAR_PHOTO_SIZE = 512;
+
+// Carpeta de la aplicación donde se guardan las fotos de perfil; en la web no hay sistema de ficheros
+const PHOTO_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}avatars/` : null;
+
+/**
+ * Comprueba que un valor guardado sea un avatar válido
+ * @param value - JSON ya interpretado
+ */
+export function isAvatar(value: unknown): value is Avatar {
+  if (typeof value !== 'object' || value === null) return false;
+  const avatar = value as Record<string, unknown>;
+  if (avatar.kind === 'preset') return AVATAR_ORDER.includes(avatar.id as AvatarId);
+  if (avatar.kind === 'composed') return isAvatarLayers(avatar.layers);
+  if (avatar.kind === 'photo') return typeof avatar.uri === 'string' && avatar.uri.length > 0;
+  return false;
+}
+
+/**
+ * Indica si dos avatares son el mismo
+ */
+export function isSameAvatar(a: Avatar, b: Avatar): boolean {
+  if (a.kind === 'preset' && b.kind === 'preset') return a.id === b.id;
+  if (a.kind === 'photo' && b.kind === 'photo') return a.uri === b.uri;
+  if (a.kind === 'composed' && b.kind === 'composed') {
+    return (Object.keys(a.layers) as (keyof AvatarLayers)[]).every(slot => a.layers[slot] === b.layers[slot]);
+  }
+  return false;
+}
+
+/**
+ * Imagen que se muestra para un avatar. De un avatar compuesto solo devuelve
+ * la capibara base; components/ui/AvatarView dibuja todas sus capas.
+ * @param avatar - Avatar del perfil
+ */
+export function getAvatarSource(avatar: Avatar): ImageSourcePropType {
+  if (avatar.kind === 'photo') return { uri: avatar.uri };
+  if (avatar.kind === 'composed') {
+    const base = getWardrobeItem(avatar.layers.base);
+    if (base?.kind === 'image') return base.source;
+    return AVATARS[DEFAULT_AVATAR_ID].source;
+  }
+  return AVATARS[avatar.id].source;
+}
+
+/**
+ * Convierte la imagen que guardaban las versiones anteriores (la referencia
+ * de Metro al recurso) en un avatar. En el móvil la referencia es un número
+ * que se compara con los de esta versión; en la web, un objeto cuya URI
+ * contiene el nombre del fichero. Si no se reconoce se usa el avatar por defecto.
+ * @param value - Valor guardado en `profileImage`
+ */
+export function migrateProfileImage(value: unknown): Avatar {
+  const uri =
+    typeof value === 'string' ? value :
+    typeof value === 'object' && value !== null && typeof (value as { uri?: unknown }).uri === 'string'
+      ? (value as { uri: string }).uri
+      : null;
+
+  const id = AVATAR_ORDER.find(avatarId =>
+    typeof value === 'number'
+      ? AVATARS[avatarId].source === value
+      : uri !== null && uri.includes(AVATARS[avatarId].file)
+  );
+  return id ? { kind: 'preset', id } : DEFAULT_AVATAR;
+}
+
+/**
+ * Pide una foto de la galería, la recorta a un cuadrado centrado y la guarda
+ * en la carpeta de la aplicación, para que no dependa de la caché del selector
+ * @returns El avatar con la foto guardada, o null si se cancela o no hay permiso
+ */
+export async function pickAvatarPhoto(): Promise<Avatar | null> {
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) return null;
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsEditing: true,
+    aspect: [1, 1],
+    quality: 1,
+  });
+  if (result.canceled || !result.assets[0]) return null;
+  const { uri, width, height } = result.assets[0];
+
+  // El editor del sistema no siempre respeta la proporción, así que se recorta aquí también
+  const side = Math.min(width, height);
+  const context = ImageManipulator.manipulate(uri)
+    .crop({ originX: (width - side) / 2, originY: (height - side) / 2, width: side, height: side })
+    .resize({ width: Math.min(side, AVATAR_PHOTO_SIZE) });
+  const image = await context.renderAsync();
+  const saved = await image.saveAsync({ compress: 0.8, format: SaveFormat.JPEG });
+
+  if (!PHOTO_DIRECTORY) return { kind: 'photo', uri: saved.uri };
+  await FileSystem.makeDirectoryAsync(PHOTO_DIRECTORY, { intermediates: true });
+  const photoUri = `${PHOTO_DIRECTORY}${Date.now()}.jpg`;
+  await FileSystem.moveAsync({ from: saved.uri, to: photoUri });
+  return { kind: 'photo', uri: photoUri };
+}
+
+/**
+ * Borra el fichero de una foto de perfil que ya no se usa. No hace nada con
+ * las imágenes de la aplicación ni con ficheros de fuera de su carpeta.
+ * @param avatar - Avatar sustituido
+ */
+export async function deleteAvatarPhoto(avatar: Avatar): Promise<void> {
+  if (avatar.kind !== 'photo' || !PHOTO_DIRECTORY || !avatar.uri.startsWith(PHOTO_DIRECTORY)) return;
+  try {
+    await FileSystem.deleteAsync(avatar.uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting avatar photo:', error);
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Interfaz con el proveedor de pagos.
+ *
+ * La aplicación no cobra directamente: delega en un proveedor de pagos (la
+ * tienda de aplicaciones o una pasarela) que es quien conoce el estado real de
+ * la suscripción. Este módulo define los planes y la interfaz que debe cumplir
+ * cualquier proveedor; services/fakeBillingProvider implementa uno local para
+ * desarrollo.
+ */
+
+/** Planes disponibles */
+export type PlanId = 'free' | 'monthly' | 'annual';
+
+/** Planes de pago */
+export type PaidPlanId = Exclude<PlanId, 'free'>;
+
+/** Periodo de facturación de un plan de pago */
+export type BillingPeriod = 'month' | 'year';
+
+/**
+ * @interface Subscription
+ * @description Estado de la suscripción según el proveedor de pagos
+ */
+export interface Subscription {
+  plan: PlanId;
+  /**
+   * Fin del periodo pagado: la suscripción se renueva en esa fecha o, si está
+   * cancelada, pasa al plan gratuito. Es null en el plan gratuito.
+   */
+  renewsAt: number | null;
+  /** Indica si la suscripción no se renovará al terminar el periodo */
+  canceled: boolean;
+  /** Plan al que se cambiará en la próxima renovación (bajadas de plan), o null */
+  scheduledPlan: PaidPlanId | null;
+}
+
+/** Suscripción de quien no ha contratado ningún plan */
+export const FREE_SUBSCRIPTION: Subscription = {
+  plan: 'free',
+  renewsAt: null,
+  canceled: false,
+  scheduledPlan: null,
+};
+
+/**
+ * @interface BillingProvider
+ * @description Operaciones que debe ofrecer un proveedor de pagos. Todas
+ * devuelven el estado de la suscripción tras la operación y rechazan la
+ * promesa si el proveedor no puede completarla.
+ */
+export interface BillingProvider {
+  /** Estado actual de la suscripción, con los periodos vencidos ya aplicados */
+  getSubscription(): Promise<Subscription>;
+  /**
+   * Contrata un plan de pago o cambia a otro. Subir de plan (o contratar desde
+   * el gratuito) se aplica al momento; bajar de plan, en la próxima renovación.
+   */
+  changePlan(plan: PaidPlanId): Promise<Subscription>;
+  /** Cancela la renovación; el plan sigue activo hasta el fin del periodo pagado */
+  cancel(): Promise<Subscription>;
+  /** Deshace una cancelación o un cambio de plan programado */
+  resume(): Promise<Subscription>;
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Utilidades de fechas de calendario.
+ *
+ * Los días se identifican con claves 'YYYY-MM-DD' calculadas en la zona horaria
+ * del dispositivo en el momento de la actividad. Para contar la distancia entre
+ * días se convierten a números de día con Date.UTC, así los cambios de horario
+ * de verano (días de 23 o 25 horas) no alteran el resultado.
+ */
+
+/** Milisegundos de un día */
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Devuelve la clave del día local al que pertenece un instante
+ * @param timestamp - Instante en milisegundos desde epoch
+ */
+export function toDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Convierte una clave de día en un número de día consecutivo
+ * @param key - Clave 'YYYY-MM-DD'
+ */
+export function dayKeyToNumber(key: string): number {
+  const [year, month, day] = key.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * Convierte un número de día en su clave 'YYYY-MM-DD'
+ * @param dayNumber - Número de día obtenido con dayKeyToNumber
+ */
+export function dayNumberToKey(dayNumber: number): string {
+  const date = new Date(dayNumber * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Suma un número de días a una clave de día
+ * @param key - Clave 'YYYY-MM-DD'
+ * @param days - Días a sumar (puede ser negativo)
+ */
+export function addDays(key: string, days: number): string {
+  return dayNumberToKey(dayKeyToNumber(key) + days);
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Proveedor de pagos local para desarrollo.
+ *
+ * Simula las operaciones de un proveedor real sin cobrar nada: guarda la
+ * suscripción en AsyncStorage y, al consultarla, aplica las renovaciones,
+ * cambios de plan programados y cancelaciones cuyo periodo ya ha vencido.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { PLANS, PLAN_ORDER } from '../constants/Plans';
+import { FREE_SUBSCRIPTION, type BillingProvider, type PaidPlanId, type Subscription } from './billing';
+
+/** Clave de AsyncStorage bajo la que se guarda la suscripción simulada */
+export const FAKE_BILLING_STORAGE_KEY = 'fakeBilling';
+
+/** Retraso de cada operación, para que la interfaz muestre su estado de espera */
+const LATENCY_MS = 400;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+/**
+ * Suma un periodo de facturación a una fecha
+ * @param timestamp - Inicio del periodo
+ * @param plan - Plan cuyo periodo se suma
+ */
+const addPeriod = (timestamp: number, plan: PaidPlanId): number => {
+  const date = new Date(timestamp);
+  if (PLANS[plan].period === 'year') date.setFullYear(date.getFullYear() + 1);
+  else date.setMonth(date.getMonth() + 1);
+  return date.getTime();
+};
+
+/**
+ * Aplica los periodos vencidos: renueva, cambia al plan programado o pasa al
+ * plan gratuito si la suscripción estaba cancelada
+ */
+const applyElapsedPeriods = (subscription: Subscription, now: number): Subscription => {
+  let next = subscription;
+  while (next.plan !== 'free' && next.renewsAt !== null && next.renewsAt <= now) {
+    if (next.canceled) return FREE_SUBSCRIPTION;
+    const plan = next.scheduledPlan ?? next.plan;
+    next = { ...next, plan, scheduledPlan: null, renewsAt: addPeriod(next.renewsAt, plan) };
+  }
+  return next;
+};
+
+const read = async (): Promise<Subscription> => {
+  const stored = await AsyncStorage.getItem(FAKE_BILLING_STORAGE_KEY);
+  const subscription = stored ? { ...FREE_SUBSCRIPTION, ...JSON.parse(stored) } : FREE_SUBSCRIPTION;
+  return applyElapsedPeriods(subscription, Date.now());
+};
+
+const write = async (subscription: Subscription): Promise<Subscription> => {
+  await AsyncStorage.setItem(FAKE_BILLING_STORAGE_KEY, JSON.stringify(subscription));
+  return subscription;
+};
+
+/** Proveedor de pagos simulado */
+export const fakeBillingProvider: BillingProvider = {
+  async getSubscription() {
+    await delay();
+    return read();
+  },
+
+  async changePlan(plan) {
+    await delay();
+    const current = await read();
+    const now = Date.now();
+
+    if (current.plan === plan) {
+      // Volver al plan actual deshace el cambio programado y la cancelación
+      return write({ ...current, canceled: false, scheduledPlan: null });
+    }
+    if (current.plan === 'free' || PLAN_ORDER.indexOf(plan) > PLAN_ORDER.indexOf(current.plan)) {
+      // Contratar o subir de plan empieza un periodo nuevo al momento
+      return write({ plan, renewsAt: addPeriod(now, plan), canceled: false, scheduledPlan: null });
+    }
+    // Bajar de plan se aplica al terminar el periodo ya pagado
+    return write({ ...current, canceled: false, scheduledPlan: plan });
+  },
+
+  async cancel() {
+    await delay();
+    const current = await read();
+    if (current.plan === 'free') return current;
+    return write({ ...current, canceled: true, scheduledPlan: null });
+  },
+
+  async resume() {
+    await delay();
+    const current = await read();
+    return write({ ...current, canceled: false, scheduledPlan: null });
+  },
+};
@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Internacionalización de la interfaz.
+ *
+ * Detecta el idioma del dispositivo, guarda el idioma elegido en el perfil y
+ * traduce los mensajes de los catálogos de constants/translations. Los mensajes
+ * admiten la sintaxis ICU básica: argumentos ("{name}"), plurales
+ * ("{count, plural, one {# punto} other {# puntos}}") y selección
+ * ("{tier, select, gold {...} other {...}}"). Los argumentos numéricos se
+ * formatean según el idioma activo.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLocales } from 'expo-localization';
+
+import { en } from '../constants/translations/en';
+import { es, type MessageKey } from '../constants/translations/es';
+
+export type { MessageKey };
+
+/** Clave de AsyncStorage bajo la que se guarda el idioma elegido */
+export const LANGUAGE_PREFERENCE_STORAGE_KEY = 'languagePreference';
+
+/** Idiomas con catálogo de mensajes */
+export const SUPPORTED_LOCALES = ['es', 'en'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+/** Idioma elegido por el usuario; 'system' sigue al idioma del dispositivo */
+export type LanguagePreference = Locale | 'system';
+
+/** Idioma que se usa si el del dispositivo no tiene catálogo */
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/** Nombre de cada idioma en su propio idioma, para el selector */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { es, en };
+
+/** Valores que se sustituyen en un mensaje */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * @interface I18nSnapshot
+ * @description Vista inmutable del idioma activo
+ */
+export interface I18nSnapshot {
+  loaded: boolean;
+  /** Idioma elegido en el perfil */
+  preference: LanguagePreference;
+  /** Idioma con el que se muestran los textos */
+  locale: Locale;
+}
+
+const isSupportedLocale = (value: unknown): value is Locale =>
+  SUPPORTED_LOCALES.includes(value as Locale);
+
+/**
+ * Primer idioma preferido del dispositivo que tiene catálogo
+ */
+export function detectLocale(): Locale {
+  try {
+    const match = getLocales().find(({ languageCode }) => isSupportedLocale(languageCode));
+    if (match) return match.languageCode as Locale;
+  } catch (error) {
+    console.error('Error detecting device locale:', error);
+  }
+  return DEFAULT_LOCALE;
+}
+
+const resolveLocale = (preference: LanguagePreference): Locale =>
+  preference === 'system' ? detectLocale() : preference;
+
+let snapshot: I18nSnapshot = { loaded: false, preference: 'system', locale: resolveLocale('system') };
+let loadPromise: Promise<void> | null = null;
+/** Idioma elegido antes de terminar la carga, que prevalece sobre el guardado */
+let pendingPreference: LanguagePreference | null = null;
+const listeners = new Set<() => void>();
+
+const setPreference = (preference: LanguagePreference, loaded = snapshot.loaded) => {
+  snapshot = { loaded, preference, locale: resolveLocale(preference) };
+  listeners.forEach(listener => listener());
+};
+
+/** Devuelve la vista actual del idioma */
+export function getI18nSnapshot(): I18nSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de idioma
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToI18n(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const persist = async (preference: LanguagePreference): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(LANGUAGE_PREFERENCE_STORAGE_KEY, preference);
+    return true;
+  } catch (error) {
+    console.error('Error saving language preference:', error);
+    return false;
+  }
+};
+
+/**
+ * Carga el idioma guardado. Solo lee AsyncStorage la primera vez.
+ * Un idioma elegido antes de terminar la carga prevalece sobre el guardado.
+ */
+export function loadLanguagePreference(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let preference = snapshot.preference;
+      try {
+        const stored = await AsyncStorage.getItem(LANGUAGE_PREFERENCE_STORAGE_KEY);
+        if (stored === 'system' || isSupportedLocale(stored)) preference = stored;
+      } catch (error) {
+        console.error('Error loading language preference:', error);
+      }
+      const pending = pendingPreference;
+      pendingPreference = null;
+      setPreference(pending ?? preference, true);
+      if (pending !== null) await persist(pending);
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Cambia el idioma de la interfaz y guarda la elección
+ * @param preference - Idioma elegido, o 'system' para seguir al dispositivo
+ * @returns false si no se ha podido guardar
+ */
+export async function setLanguagePreference(preference: LanguagePreference): Promise<boolean> {
+  setPreference(preference);
+  // Hasta que termine la carga no se escribe, para que la lectura no pise el cambio
+  if (!snapshot.loaded) {
+    pendingPreference = preference;
+    return true;
+  }
+  return persist(preference);
+}
+
+/**
+ * Vuelve a seguir el idioma del dispositivo y borra la elección guardada, por
+ * ejemplo al borrar la cuenta
+ */
+export async function resetLanguagePreference(): Promise<void> {
+  await loadLanguagePreference();
+  setPreference('system');
+  try {
+    await AsyncStorage.removeItem(LANGUAGE_PREFERENCE_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting language preference:', error);
+  }
+}
+
+/**
+ * Formatea un número con los separadores del idioma
+ * @param value - Número a formatear
+ * @param options - Opciones de Intl.NumberFormat, p. ej. { style: 'percent' }
+ * @param locale - Idioma; por defecto el activo
+ */
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions, locale = snapshot.locale): string {
+  return new Intl.NumberFormat(locale, options).format(value);
+}
+
+/**
+ * Formatea una fecha según el idioma
+ * @param value - Fecha o marca de tiempo
+ * @param options - Opciones de Intl.DateTimeFormat
+ * @param locale - Idioma; por defecto el activo
+ */
+export function formatDate(
+  value: Date | number,
+  options?: Intl.DateTimeFormatOptions,
+  locale = snapshot.locale
+): string {
+  return new Intl.DateTimeFormat(locale, options).format(value);
+}
+
+/**
+ * Categoría plural de un número. Si el motor JavaScript no trae
+ * Intl.PluralRules se usa la regla de español e inglés.
+ */
+const pluralCategory = (count: number, locale: Locale): string => {
+  if (typeof Intl.PluralRules === 'function') return new Intl.PluralRules(locale).select(count);
+  return count === 1 ? 'one' : 'other';
+};
+
+/**
+ * Posición de la llave que cierra la que se abre en `start`
+ */
+const findClosingBrace = (text: string, start: number): number => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+/**
+ * Lee las opciones de un plural o una selección: "=0 {...} one {...} other {...}"
+ */
+const parseOptions = (text: string): Record<string, string> => {
+  const options: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(text, open);
+    if (close === -1) break;
+    options[text.slice(i, open).trim()] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+  return options;
+};
+
+/**
+ * Resuelve un argumento ICU ("name", "name, plural, ..." o "name, select, ...")
+ */
+const formatArgument = (argument: string, params: MessageParams, locale: Locale): string => {
+  const [name, type, ...rest] = argument.split(',');
+  const value = params[name.trim()];
+  const kind = type?.trim();
+
+  if (kind === 'plural' || kind === 'select') {
+    const options = parseOptions(rest.join(','));
+    let selected: string | undefined;
+    if (kind === 'plural') {
+      const count = Number(value);
+      selected = options[`=${count}`] ?? options[pluralCategory(count, locale)] ?? options.other;
+      selected = selected?.replace(/#/g, formatNumber(count, undefined, locale));
+    } else {
+      selected = options[String(value)] ?? options.other;
+    }
+    return selected === undefined ? '' : formatMessage(selected, params, locale);
+  }
+
+  if (value === undefined) return `{${argument}}`;
+  return typeof value === 'number' ? formatNumber(value, undefined, locale) : value;
+};
+
+/**
+ * Sustituye los argumentos ICU de un mensaje
+ * @param message - Mensaje con argumentos entre llaves
+ * @param params - Valores de los argumentos
+ * @param locale - Idioma para plurales y números
+ */
+export function formatMessage(message: string, params: MessageParams = {}, locale = snapshot.locale): string {
+  let result = '';
+  let i = 0;
+  while (i < message.length) {
+    const open = message.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(message, open);
+    if (close === -1) break;
+    result += message.slice(i, open) + formatArgument(message.slice(open + 1, close), params, locale);
+    i = close + 1;
+  }
+  return result + message.slice(i);
+}
+
+/**
+ * Traduce un mensaje del catálogo
+ * @param key - Clave del mensaje
+ * @param params - Valores de los argumentos del mensaje
+ * @param locale - Idioma; por defecto el activo
+ */
+export function translate(key: MessageKey, params?: MessageParams, locale = snapshot.locale): string {
+  const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+  return formatMessage(message, params, locale);
+}
+
+/** Indica si un texto es una clave de los catálogos de mensajes */
+export function isMessageKey(text: string): text is MessageKey {
+  return Object.prototype.hasOwnProperty.call(es, text);
+}
+
+/**
+ * Traduce un texto de configuración (títulos de logros, de niveles o recompensas)
+ * que puede ser una clave de mensaje o un texto literal, que se devuelve tal cual
+ */
+export function translateText(text: string, params?: MessageParams, locale = snapshot.locale): string {
+  return isMessageKey(text) ? translate(text, params, locale) : text;
+}
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Documentos legales y su aceptación.
+ *
+ * Los documentos (términos y condiciones, política de privacidad) se incluyen
+ * en la aplicación en Markdown, con una versión y una fecha de entrada en
+ * vigor. Aquí se guarda qué versión de cada documento aceptó el usuario y
+ * cuándo; si un documento cambia de versión vuelve a quedar pendiente de
+ * aceptar.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { LEGAL_DOCUMENTS } from '../constants/LegalDocuments';
+import type { Locale, MessageKey } from './i18n';
+
+/** Clave de AsyncStorage bajo la que se guardan las aceptaciones */
+export const LEGAL_ACCEPTANCE_STORAGE_KEY = 'legalAcceptance';
+
+/** Identificadores de los documentos legales; coinciden con sus rutas (/terms, /privacy) */
+export type LegalDocumentId = 'terms' | 'privacy';
+
+/**
+ * @interface LegalDocument
+ * @description Documento legal incluido en la aplicación
+ */
+export interface LegalDocument {
+  id: LegalDocumentId;
+  /** Mensaje con el título del documento */
+  title: MessageKey;
+  /** Versión del texto; al cambiarla se pide aceptarlo de nuevo */
+  version: string;
+  /** Fecha de entrada en vigor (AAAA-MM-DD) */
+  effectiveDate: string;
+  /** Texto Markdown en cada idioma */
+  content: Record<Locale, string>;
+}
+
+/**
+ * @interface LegalAcceptance
+ * @description Versión de un documento aceptada por el usuario
+ */
+export interface LegalAcceptance {
+  version: string;
+  /** Marca de tiempo de la aceptación */
+  acceptedAt: number;
+}
+
+/**
+ * @interface LegalAcceptanceSnapshot
+ * @description Vista inmutable de las aceptaciones
+ */
+export interface LegalAcceptanceSnapshot {
+  loaded: boolean;
+  /** Última versión aceptada de cada documento */
+  acceptances: Partial<Record<LegalDocumentId, LegalAcceptance>>;
+}
+
+let snapshot: LegalAcceptanceSnapshot = { loaded: false, acceptances: {} };
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: LegalAcceptanceSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+/** Devuelve un documento legal por su identificador */
+export function getLegalDocument(id: LegalDocumentId): LegalDocument {
+  return LEGAL_DOCUMENTS.find(document => document.id === id) as LegalDocument;
+}
+
+/** Indica si la versión vigente de un documento está aceptada */
+export function isLegalDocumentAccepted(
+  document: LegalDocument,
+  acceptances: LegalAcceptanceSnapshot['acceptances']
+): boolean {
+  return acceptances[document.id]?.version === document.version;
+}
+
+/** Documentos cuya versión vigente no ha aceptado el usuario */
+export function getPendingLegalDocuments(acceptances: LegalAcceptanceSnapshot['acceptances']): LegalDocument[] {
+  return LEGAL_DOCUMENTS.filter(document => !isLegalDocumentAccepted(document, acceptances));
+}
+
+/** Devuelve la vista actual de las aceptaciones */
+export function getLegalAcceptanceSnapshot(): LegalAcceptanceSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de las aceptaciones
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToLegalAcceptance(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Descarta las entradas guardadas que no tienen la forma esperada
+ */
+const parseAcceptances = (raw: unknown): LegalAcceptanceSnapshot['acceptances'] => {
+  const acceptances: LegalAcceptanceSnapshot['acceptances'] = {};
+  if (!raw || typeof raw !== 'object') return acceptances;
+  for (const document of LEGAL_DOCUMENTS) {
+    const entry = (raw as Record<string, any>)[document.id];
+    if (typeof entry?.version === 'string' && typeof entry?.acceptedAt === 'number') {
+      acceptances[document.id] = { version: entry.version, acceptedAt: entry.acceptedAt };
+    }
+  }
+  return acceptances;
+};
+
+/**
+ * Carga las aceptaciones guardadas. Solo lee AsyncStorage la primera vez.
+ */
+export function loadLegalAcceptance(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let acceptances = snapshot.acceptances;
+      try {
+        const stored = await AsyncStorage.getItem(LEGAL_ACCEPTANCE_STORAGE_KEY);
+        if (stored) acceptances = parseAcceptances(JSON.parse(stored));
+      } catch (error) {
+        console.error('Error loading legal acceptance:', error);
+      }
+      setSnapshot({ loaded: true, acceptances });
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Registra que el usuario acepta la versión vigente de un documento
+ * @param id - Documento aceptado
+ */
+export async function acceptLegalDocument(id: LegalDocumentId): Promise<void> {
+  const { version } = getLegalDocument(id);
+  const acceptances = { ...snapshot.acceptances, [id]: { version, acceptedAt: Date.now() } };
+  setSnapshot({ ...snapshot, acceptances });
+  try {
+    await AsyncStorage.setItem(LEGAL_ACCEPTANCE_STORAGE_KEY, JSON.stringify(acceptances));
+  } catch (error) {
+    console.error('Error saving legal acceptance:', error);
+  }
+}
+
+/**
+ * Olvida las aceptaciones y borra las guardadas, por ejemplo al borrar la cuenta
+ */
+export async function resetLegalAcceptance(): Promise<void> {
+  await loadLegalAcceptance();
+  setSnapshot({ loaded: true, acceptances: {} });
+  try {
+    await AsyncStorage.removeItem(LEGAL_ACCEPTANCE_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting legal acceptance:', error);
+  }
+}
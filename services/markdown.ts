@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Intérprete de Markdown para los documentos legales.
+ *
+ * Entiende el subconjunto que usan los documentos incluidos en la aplicación:
+ * encabezados de nivel 1 a 3, párrafos, listas con "-" o "*", negrita ("**") y
+ * enlaces ("[texto](#ancla)" o a una URL). Cada encabezado tiene un ancla; se
+ * puede fijar con "{#ancla}" al final del encabezado para que sea la misma en
+ * todos los idiomas, y si no se genera a partir del texto.
+ */
+
+/** Fragmento de texto dentro de un párrafo o un elemento de lista */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+/** Bloque de un documento */
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string; anchor: string }
+  | { type: 'paragraph'; inlines: MarkdownInline[] }
+  | { type: 'list'; items: MarkdownInline[][] };
+
+const HEADING = /^(#{1,3})\s+(.*?)(?:\s+\{#([\w-]+)\})?\s*$/;
+const LIST_ITEM = /^[-*]\s+(.*)$/;
+const INLINE = /\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Convierte el texto de un encabezado en un ancla: minúsculas, sin acentos y
+ * con guiones en lugar de espacios
+ * @param text - Texto del encabezado
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Separa la negrita y los enlaces del texto de una línea
+ * @param text - Texto de un párrafo o de un elemento de lista
+ */
+export function parseInlines(text: string): MarkdownInline[] {
+  const inlines: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) inlines.push({ type: 'text', text: text.slice(last, index) });
+    if (match[1] !== undefined) inlines.push({ type: 'strong', text: match[1] });
+    else inlines.push({ type: 'link', text: match[2], href: match[3] });
+    last = index + match[0].length;
+  }
+  if (last < text.length) inlines.push({ type: 'text', text: text.slice(last) });
+  return inlines;
+}
+
+/**
+ * Divide un documento Markdown en bloques
+ * @param source - Texto Markdown
+ * @returns Bloques en orden; las anclas repetidas reciben un sufijo ("-1", "-2"...)
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const usedAnchors = new Map<string, number>();
+  let paragraph: string[] = [];
+  let list: MarkdownInline[][] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', inlines: parseInlines(paragraph.join(' ')) });
+    if (list.length > 0) blocks.push({ type: 'list', items: list });
+    paragraph = [];
+    list = [];
+  };
+
+  const uniqueAnchor = (anchor: string) => {
+    const count = usedAnchors.get(anchor) ?? 0;
+    usedAnchors.set(anchor, count + 1);
+    return count === 0 ? anchor : `${anchor}-${count}`;
+  };
+
+  for (const rawLine of source.split('\n')) {
+    const line = rawLine.trim();
+    const heading = HEADING.exec(line);
+    const item = LIST_ITEM.exec(line);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      const [, hashes, text, anchor] = heading;
+      blocks.push({
+        type: 'heading',
+        level: hashes.length as 1 | 2 | 3,
+        text,
+        anchor: uniqueAnchor(anchor ?? slugify(text)),
+      });
+    } else if (item) {
+      if (paragraph.length > 0) flush();
+      list.push(parseInlines(item[1]));
+    } else if (list.length > 0) {
+      // Continuación de un elemento de lista
+      const current = list[list.length - 1];
+      current.push({ type: 'text', text: ' ' }, ...parseInlines(line));
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Servidor de autenticación local para desarrollo y pruebas.
+ *
+ * Simula un proveedor real sin salir del dispositivo: guarda las cuentas, los
+ * tokens de refresco y los enlaces de acceso pendientes en AsyncStorage. Las
+ * contraseñas se guardan como hash SHA-256 con sal. No envía correos: el
+ * último enlace de acceso se escribe en la consola y se puede consultar con
+ * getLastMagicLink.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+
+import { AuthError, type AuthProvider, type AuthSession, type AuthTokens } from './auth';
+import { DAY_MS } from './dayKeys';
+
+/** Clave de AsyncStorage bajo la que se guarda el estado del servidor simulado */
+export const MOCK_AUTH_STORAGE_KEY = 'mockAuthServer';
+
+/** Duración de los tokens de acceso */
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+/** Duración de los tokens de refresco */
+const REFRESH_TOKEN_TTL_MS = 30 * DAY_MS;
+
+/** Duración de los enlaces de acceso */
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+/** Retraso de cada operación, para que la interfaz muestre su estado de espera */
+const LATENCY_MS = 400;
+
+interface MockAccount {
+  id: string;
+  salt: string;
+  /** Hash de la contraseña, o null en las cuentas creadas con un enlace de acceso */
+  passwordHash: string | null;
+}
+
+interface MockAuthState {
+  /** Cuentas por correo */
+  accounts: Record<string, MockAccount>;
+  /** Tokens de refresco válidos */
+  refreshTokens: Record<string, { email: string; expiresAt: number }>;
+  /** Enlaces de acceso sin usar */
+  magicLinks: Record<string, { email: string; expiresAt: number }>;
+}
+
+const EMPTY_STATE: MockAuthState = { accounts: {}, refreshTokens: {}, magicLinks: {} };
+
+let lastMagicLink: string | null = null;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const hashPassword = (salt: string, password: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${password}`);
+
+/**
+ * Quita los tokens y enlaces caducados
+ */
+const dropExpired = (state: MockAuthState, now: number): MockAuthState => {
+  const valid = <T extends { expiresAt: number }>(entries: Record<string, T>) =>
+    Object.fromEntries(Object.entries(entries).filter(([, entry]) => entry.expiresAt > now));
+  return { ...state, refreshTokens: valid(state.refreshTokens), magicLinks: valid(state.magicLinks) };
+};
+
+const read = async (): Promise<MockAuthState> => {
+  const stored = await AsyncStorage.getItem(MOCK_AUTH_STORAGE_KEY);
+  const state = stored ? { ...EMPTY_STATE, ...JSON.parse(stored) } : EMPTY_STATE;
+  return dropExpired(state, Date.now());
+};
+
+const write = (state: MockAuthState) => AsyncStorage.setItem(MOCK_AUTH_STORAGE_KEY, JSON.stringify(state));
+
+/**
+ * Emite tokens nuevos para una cuenta y registra el de refresco
+ */
+const issueTokens = (state: MockAuthState, email: string, now: number): [MockAuthState, AuthTokens] => {
+  const tokens: AuthTokens = {
+    accessToken: Crypto.randomUUID(),
+    refreshToken: Crypto.randomUUID(),
+    expiresAt: now + ACCESS_TOKEN_TTL_MS,
+  };
+  const refreshTokens = { ...state.refreshTokens, [tokens.refreshToken]: { email, expiresAt: now + REFRESH_TOKEN_TTL_MS } };
+  return [{ ...state, refreshTokens }, tokens];
+};
+
+/**
+ * Inicia sesión en una cuenta existente y guarda el estado
+ */
+const startSession = async (state: MockAuthState, email: string): Promise<AuthSession> => {
+  const [next, tokens] = issueTokens(state, email, Date.now());
+  await write(next);
+  return { user: { id: next.accounts[email].id, email }, tokens };
+};
+
+/**
+ * Último enlace de acceso "enviado", para abrirlo a mano durante el desarrollo o en pruebas
+ */
+export function getLastMagicLink(): string | null {
+  return lastMagicLink;
+}
+
+/** Servidor de autenticación simulado */
+export const mockAuthServer: AuthProvider = {
+  async signIn(rawEmail, password) {
+    await delay();
+    const state = await read();
+    const email = normalizeEmail(rawEmail);
+    const account = state.accounts[email];
+    if (!account?.passwordHash || (await hashPassword(account.salt, password)) !== account.passwordHash) {
+      throw new AuthError('invalidCredentials');
+    }
+    return startSession(state, email);
+  },
+
+  async signUp(rawEmail, password) {
+    await delay();
+    const state = await read();
+    const email = normalizeEmail(rawEmail);
+    if (state.accounts[email]) throw new AuthError('emailInUse');
+    const salt = Crypto.randomUUID();
+    const account: MockAccount = { id: Crypto.randomUUID(), salt, passwordHash: await hashPassword(salt, password) };
+    return startSession({ ...state, accounts: { ...state.accounts, [email]: account } }, email);
+  },
+
+  async requestMagicLink(rawEmail, redirectUrl) {
+    await delay();
+    const state = await read();
+    const token = Crypto.randomUUID();
+    const magicLinks = { ...state.magicLinks, [token]: { email: normalizeEmail(rawEmail), expiresAt: Date.now() + MAGIC_LINK_TTL_MS } };
+    await write({ ...state, magicLinks });
+    lastMagicLink = `${redirectUrl}${redirectUrl.includes('?') ? '&' : '?'}token=${token}`;
+    // El enlace da acceso a la cuenta: solo se muestra en el registro de desarrollo
+    if (__DEV__) console.info('Mock auth server magic link:', lastMagicLink);
+  },
+
+  async verifyMagicLink(token) {
+    await delay();
+    const state = await read();
+    const link = state.magicLinks[token];
+    if (!link) throw new AuthError('invalidLink');
+
+    // El enlace es de un solo uso
+    const { [token]: _used, ...magicLinks } = state.magicLinks;
+    const accounts = state.accounts[link.email]
+      ? state.accounts
+      : { ...state.accounts, [link.email]: { id: Crypto.randomUUID(), salt: Crypto.randomUUID(), passwordHash: null } };
+    return startSession({ ...state, accounts, magicLinks }, link.email);
+  },
+
+  async refresh(refreshToken) {
+    await delay();
+    const state = await read();
+    const entry = state.refreshTokens[refreshToken];
+    if (!entry) throw new AuthError('sessionExpired');
+
+    // Cada refresco sustituye el token de refresco usado por uno nuevo
+    const { [refreshToken]: _used, ...refreshTokens } = state.refreshTokens;
+    const [next, tokens] = issueTokens({ ...state, refreshTokens }, entry.email, Date.now());
+    await write(next);
+    return tokens;
+  },
+
+  async signOut(refreshToken) {
+    await delay();
+    const state = await read();
+    const { [refreshToken]: _revoked, ...refreshTokens } = state.refreshTokens;
+    await write({ ...state, refreshTokens });
+  },
+
+  async deleteAccount(refreshToken) {
+    await delay();
+    const state = await read();
+    const entry = state.refreshTokens[refreshToken];
+    if (!entry) throw new AuthError('sessionExpired');
+
+    const { [entry.email]: _deleted, ...accounts } = state.accounts;
+    const ofOtherAccounts = <T extends { email: string }>(entries: Record<string, T>) =>
+      Object.fromEntries(Object.entries(entries).filter(([, value]) => value.email !== entry.email));
+    await write({
+      accounts,
+      refreshTokens: ofOtherAccounts(state.refreshTokens),
+      magicLinks: ofOtherAccounts(state.magicLinks),
+    });
+  },
+};
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Preferencias de movimiento de la interfaz.
+ *
+ * Combina el ajuste de accesibilidad del sistema "reducir movimiento" con el
+ * interruptor "Animaciones" de la aplicación. Si cualquiera de los dos pide
+ * menos movimiento, los componentes sustituyen las animaciones en bucle por
+ * estados estáticos y las transiciones por cambios instantáneos.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AccessibilityInfo } from 'react-native';
+
+/** Clave de AsyncStorage bajo la que se guarda el interruptor de animaciones */
+export const MOTION_PREFERENCES_STORAGE_KEY = 'motionPreferences';
+
+/**
+ * @interface MotionPreferencesSnapshot
+ * @description Vista inmutable de las preferencias de movimiento
+ */
+export interface MotionPreferencesSnapshot {
+  loaded: boolean;
+  /** Interruptor "Animaciones" de la aplicación */
+  animationsEnabled: boolean;
+  /** Ajuste "reducir movimiento" del sistema operativo */
+  systemReduceMotion: boolean;
+  /** Indica si la interfaz debe reducir el movimiento */
+  reduceMotion: boolean;
+}
+
+const buildSnapshot = (
+  loaded: boolean,
+  animationsEnabled: boolean,
+  systemReduceMotion: boolean
+): MotionPreferencesSnapshot => ({
+  loaded,
+  animationsEnabled,
+  systemReduceMotion,
+  reduceMotion: systemReduceMotion || !animationsEnabled,
+});
+
+let snapshot: MotionPreferencesSnapshot = buildSnapshot(false, true, false);
+let loadPromise: Promise<void> | null = null;
+/** Valor elegido antes de terminar la carga, que prevalece sobre el guardado */
+let pendingAnimationsEnabled: boolean | null = null;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: MotionPreferencesSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+/** Devuelve la vista actual de las preferencias de movimiento */
+export function getMotionPreferencesSnapshot(): MotionPreferencesSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de las preferencias de movimiento
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToMotionPreferences(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const persist = async (animationsEnabled: boolean): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(MOTION_PREFERENCES_STORAGE_KEY, JSON.stringify({ animationsEnabled }));
+    return true;
+  } catch (error) {
+    console.error('Error saving motion preferences:', error);
+    return false;
+  }
+};
+
+/**
+ * Lee el interruptor guardado y el ajuste del sistema, y empieza a escuchar
+ * los cambios del sistema. Solo se hace la primera vez.
+ * Un cambio del interruptor hecho antes de terminar la carga prevalece sobre el guardado.
+ */
+export function loadMotionPreferences(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      AccessibilityInfo.addEventListener('reduceMotionChanged', enabled => {
+        setSnapshot(buildSnapshot(snapshot.loaded, snapshot.animationsEnabled, enabled));
+      });
+
+      let animationsEnabled = snapshot.animationsEnabled;
+      let systemReduceMotion = snapshot.systemReduceMotion;
+      try {
+        const [stored, reduceMotion] = await Promise.all([
+          AsyncStorage.getItem(MOTION_PREFERENCES_STORAGE_KEY),
+          AccessibilityInfo.isReduceMotionEnabled(),
+        ]);
+        const parsed = stored ? JSON.parse(stored) : null;
+        if (typeof parsed?.animationsEnabled === 'boolean') animationsEnabled = parsed.animationsEnabled;
+        systemReduceMotion = reduceMotion;
+      } catch (error) {
+        console.error('Error loading motion preferences:', error);
+      }
+
+      const pending = pendingAnimationsEnabled;
+      pendingAnimationsEnabled = null;
+      setSnapshot(buildSnapshot(true, pending ?? animationsEnabled, systemReduceMotion));
+      if (pending !== null) await persist(pending);
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Activa o desactiva las animaciones de la aplicación y guarda la elección
+ * @param enabled - Nuevo valor del interruptor "Animaciones"
+ * @returns false si no se ha podido guardar
+ */
+export async function setAnimationsEnabled(enabled: boolean): Promise<boolean> {
+  setSnapshot(buildSnapshot(snapshot.loaded, enabled, snapshot.systemReduceMotion));
+  // Hasta que termine la carga no se escribe, para que la lectura no pise el cambio
+  if (!snapshot.loaded) {
+    pendingAnimationsEnabled = enabled;
+    return true;
+  }
+  return persist(enabled);
+}
+
+/**
+ * Vuelve a activar las animaciones y borra la elección guardada, por ejemplo al
+ * borrar la cuenta. El ajuste del sistema se conserva.
+ */
+export async function resetMotionPreferences(): Promise<void> {
+  await loadMotionPreferences();
+  setSnapshot(buildSnapshot(true, true, snapshot.systemReduceMotion));
+  try {
+    await AsyncStorage.removeItem(MOTION_PREFERENCES_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting motion preferences:', error);
+  }
+}
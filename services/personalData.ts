@@ -0,0 +1,552 @@
+/**
+ * @fileoverview Datos personales guardados por la aplicación.
+ *
+ * Reúne las claves de AsyncStorage que pertenecen a la aplicación, para
+ * borrarlas sin tocar las de otras librerías que compartan el almacenamiento,
+ * y permite llevarse una copia de los datos: la exportación es un archivo
+ * JSON versionado (PersonalDataArchive) que se comparte con la hoja de
+ * compartir del sistema, y la importación lo valida, calcula los cambios que
+ * haría y los aplica combinándolos con los datos locales o sustituyéndolos.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import {
+  ACHIEVEMENTS_STORAGE_KEY,
+  getAchievementsSnapshot,
+  loadAchievements,
+  migrateAchievementsState,
+  prepareAchievementsState,
+  replaceAchievementsState,
+  resetAchievements,
+  type AchievementRecord,
+  type AchievementsState,
+} from './achievementStore';
+import {
+  ACHIEVEMENT_VIEW_PREFS_STORAGE_KEY,
+  getAchievementViewPrefsSnapshot,
+  loadAchievementViewPrefs,
+  parseAchievementViewPrefs,
+  resetAchievementViewPrefs,
+  updateAchievementViewPrefs,
+  type AchievementViewPrefs,
+} from './achievementViewPrefs';
+import { isAvatar, isSameAvatar } from './avatars';
+import { toDayKey } from './dayKeys';
+import {
+  LANGUAGE_PREFERENCE_STORAGE_KEY,
+  SUPPORTED_LOCALES,
+  getI18nSnapshot,
+  loadLanguagePreference,
+  resetLanguagePreference,
+  setLanguagePreference,
+  type LanguagePreference,
+  type MessageKey,
+} from './i18n';
+import {
+  LEGAL_ACCEPTANCE_STORAGE_KEY,
+  getLegalAcceptanceSnapshot,
+  loadLegalAcceptance,
+  resetLegalAcceptance,
+  type LegalAcceptanceSnapshot,
+} from './legalDocuments';
+import {
+  MOTION_PREFERENCES_STORAGE_KEY,
+  getMotionPreferencesSnapshot,
+  loadMotionPreferences,
+  resetMotionPreferences,
+  setAnimationsEnabled,
+} from './motionPreferences';
+import {
+  DEFAULT_PROFILE,
+  PROFILE_STORAGE_KEY,
+  getProfileSnapshot,
+  loadProfile,
+  resetProfile,
+  updateProfile,
+  type Profile,
+} from './profile';
+import {
+  STREAK_SCHEMA_VERSION,
+  STREAK_STORAGE_KEY,
+  applyFreezes,
+  computeStreaks,
+  getStreakSnapshot,
+  loadStreak,
+  replaceStreakState,
+  resetStreak,
+  type StreakState,
+} from './streakTracker';
+import { resetSubscription } from './subscription';
+
+/**
+ * Claves de AsyncStorage con los datos del usuario. No incluye la suscripción:
+ * pertenece a la cuenta de la tienda y se gestiona desde ella.
+ */
+export const PERSONAL_DATA_KEYS = [
+  PROFILE_STORAGE_KEY,
+  ACHIEVEMENTS_STORAGE_KEY,
+  STREAK_STORAGE_KEY,
+  LEGAL_ACCEPTANCE_STORAGE_KEY,
+  ACHIEVEMENT_VIEW_PREFS_STORAGE_KEY,
+  MOTION_PREFERENCES_STORAGE_KEY,
+  LANGUAGE_PREFERENCE_STORAGE_KEY,
+] as const;
+
+/** Identificador del formato del archivo, para reconocerlo al importarlo */
+export const PERSONAL_DATA_FORMAT = 'aispeak-personal-data';
+
+/** Versión actual del formato del archivo */
+export const PERSONAL_DATA_ARCHIVE_VERSION = 1;
+
+/**
+ * @interface PersonalDataSettings
+ * @description Ajustes de la aplicación que se llevan en el archivo
+ */
+export interface PersonalDataSettings {
+  language: LanguagePreference;
+  animationsEnabled: boolean;
+  /** Filtro, búsqueda, orden y agrupación del panel de logros */
+  achievementView: AchievementViewPrefs;
+}
+
+/**
+ * @interface PersonalDataArchive
+ * @description Archivo de datos personales. Versión 1:
+ *
+ * ```json
+ * {
+ *   "format": "aispeak-personal-data",
+ *   "version": 1,
+ *   "exportedAt": "2025-03-03T10:00:00.000Z",
+ *   "profile": { "name": "…", "email": "…", "phone": "+34…", "avatar": { "kind": "preset", "id": "front" } },
+ *   "achievements": { "version": 3, "events": [], "records": {}, "celebratedLevel": 1, "revealedSecrets": [] },
+ *   "streak": { "version": 1, "activity": { "2025-03-02": 2 }, "frozenDays": [], "freezeTokens": 0 },
+ *   "legalAcceptance": { "terms": { "version": "1.0", "acceptedAt": 1740996000000 } },
+ *   "settings": { "language": "system", "animationsEnabled": true, "achievementView": { … } }
+ * }
+ * ```
+ *
+ * Las fechas de los datos son marcas de tiempo en milisegundos. Los logros
+ * incluyen los eventos de aprendizaje y el historial de puntos por logro.
+ * Las fotos de perfil no se incluyen: el avatar de foto solo guarda su ruta
+ * en el dispositivo de origen. Las aceptaciones de documentos legales se
+ * exportan pero no se importan, porque cada dispositivo debe aceptarlos.
+ */
+export interface PersonalDataArchive {
+  format: typeof PERSONAL_DATA_FORMAT;
+  version: number;
+  /** Fecha de la exportación en ISO 8601 */
+  exportedAt: string;
+  profile: Profile;
+  achievements: AchievementsState;
+  streak: StreakState;
+  legalAcceptance: LegalAcceptanceSnapshot['acceptances'];
+  settings: PersonalDataSettings;
+}
+
+/** Datos que se pueden importar */
+export type PersonalData = Pick<PersonalDataArchive, 'profile' | 'achievements' | 'streak' | 'settings'>;
+
+/**
+ * Motivos por los que no se puede importar un archivo. El mensaje para el
+ * usuario es `dataImport.error.<código>` de los catálogos de traducción.
+ */
+export type ArchiveErrorCode = 'unreadable' | 'invalid' | 'unsupportedVersion';
+
+/** Resultado de leer un archivo */
+export type ArchiveParseResult = { archive: PersonalDataArchive } | { error: ArchiveErrorCode };
+
+/**
+ * Cómo se importa: 'merge' conserva los datos locales y añade los del
+ * archivo; 'replace' deja los datos tal y como están en el archivo
+ */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * @interface PersonalDataChange
+ * @description Cambio que haría una importación, para la vista previa
+ */
+export interface PersonalDataChange {
+  /** Mensaje con el nombre del dato */
+  label: MessageKey;
+  /** Valores antes y después; no se indican en los cambios que no se resumen en un valor */
+  from?: string | number | boolean;
+  to?: string | number | boolean;
+}
+
+/**
+ * Lee los datos locales tal y como los ven las pantallas, ya migrados
+ */
+const readLocalData = async (): Promise<PersonalData & Pick<PersonalDataArchive, 'legalAcceptance'>> => {
+  await Promise.all([
+    loadProfile(),
+    loadAchievements(),
+    loadStreak(),
+    loadLegalAcceptance(),
+    loadLanguagePreference(),
+    loadMotionPreferences(),
+    loadAchievementViewPrefs(),
+  ]);
+  return {
+    profile: getProfileSnapshot().profile,
+    achievements: getAchievementsSnapshot().state,
+    streak: getStreakSnapshot().state,
+    legalAcceptance: getLegalAcceptanceSnapshot().acceptances,
+    settings: {
+      language: getI18nSnapshot().preference,
+      animationsEnabled: getMotionPreferencesSnapshot().animationsEnabled,
+      achievementView: getAchievementViewPrefsSnapshot().prefs,
+    },
+  };
+};
+
+/**
+ * Reúne los datos personales en un archivo
+ * @param now - Momento de la exportación
+ */
+export async function collectPersonalData(now = Date.now()): Promise<PersonalDataArchive> {
+  return {
+    format: PERSONAL_DATA_FORMAT,
+    version: PERSONAL_DATA_ARCHIVE_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    ...(await readLocalData()),
+  };
+}
+
+/**
+ * Guarda los datos personales en un archivo JSON y abre la hoja de compartir
+ * @returns false si no se han podido exportar o el dispositivo no permite compartir ficheros
+ */
+export async function exportPersonalData(): Promise<boolean> {
+  try {
+    if (!FileSystem.cacheDirectory || !(await Sharing.isAvailableAsync())) return false;
+    const archive = await collectPersonalData();
+    const uri = `${FileSystem.cacheDirectory}aispeak-data-${archive.exportedAt.slice(0, 10)}.json`;
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(archive, null, 2));
+    await Sharing.shareAsync(uri, { mimeType: 'application/json', UTI: 'public.json' });
+    return true;
+  } catch (error) {
+    console.error('Error exporting personal data:', error);
+    return false;
+  }
+}
+
+/**
+ * Borra los datos personales guardados y vacía los almacenes en memoria que
+ * los muestran, incluida la suscripción consultada, por ejemplo al cerrar la
+ * sesión o al borrar la cuenta
+ */
+export async function clearPersonalData(): Promise<void> {
+  await resetProfile();
+  // Los logros antes que la racha, que al cambiar los vuelve a evaluar
+  await resetAchievements();
+  await resetStreak();
+  await Promise.all([
+    resetLegalAcceptance(),
+    resetAchievementViewPrefs(),
+    resetMotionPreferences(),
+    resetLanguagePreference(),
+    resetSubscription(),
+  ]);
+  try {
+    await AsyncStorage.multiRemove([...PERSONAL_DATA_KEYS]);
+  } catch (error) {
+    console.error('Error clearing personal data:', error);
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isProfile = (value: unknown): value is Profile =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  typeof value.email === 'string' &&
+  typeof value.phone === 'string' &&
+  isAvatar(value.avatar);
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isDayKey = (value: unknown): value is string => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isStreakState = (value: unknown): value is StreakState =>
+  isRecord(value) &&
+  value.version === STREAK_SCHEMA_VERSION &&
+  isRecord(value.activity) &&
+  Object.entries(value.activity).every(([day, count]) => isDayKey(day) && isCount(count)) &&
+  Array.isArray(value.frozenDays) &&
+  value.frozenDays.every(isDayKey) &&
+  isCount(value.freezeTokens);
+
+const isLanguagePreference = (value: unknown): value is LanguagePreference =>
+  value === 'system' || SUPPORTED_LOCALES.includes(value as never);
+
+/**
+ * Comprueba el contenido de un archivo exportado
+ * @param text - Contenido del archivo
+ */
+export function parsePersonalDataArchive(text: string): ArchiveParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { error: 'unreadable' };
+  }
+  if (!isRecord(raw) || raw.format !== PERSONAL_DATA_FORMAT || typeof raw.version !== 'number') {
+    return { error: 'invalid' };
+  }
+  // Un archivo de una versión más nueva no se puede interpretar con seguridad
+  if (raw.version > PERSONAL_DATA_ARCHIVE_VERSION) return { error: 'unsupportedVersion' };
+
+  const achievements = migrateAchievementsState(raw.achievements);
+  const { settings } = raw;
+  if (
+    !isProfile(raw.profile) ||
+    !achievements ||
+    !isStreakState(raw.streak) ||
+    !isRecord(settings) ||
+    !isLanguagePreference(settings.language) ||
+    typeof settings.animationsEnabled !== 'boolean'
+  ) {
+    return { error: 'invalid' };
+  }
+
+  return {
+    archive: {
+      format: PERSONAL_DATA_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      profile: raw.profile,
+      achievements,
+      streak: raw.streak,
+      legalAcceptance: isRecord(raw.legalAcceptance) ? raw.legalAcceptance : {},
+      settings: {
+        language: settings.language,
+        animationsEnabled: settings.animationsEnabled,
+        achievementView: parseAchievementViewPrefs(settings.achievementView),
+      },
+    },
+  };
+}
+
+/**
+ * Pide un archivo exportado y lo comprueba
+ * @returns El archivo o el motivo por el que no se puede importar, o null si se cancela
+ */
+export async function pickPersonalDataArchive(): Promise<ArchiveParseResult | null> {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets[0]) return null;
+    const asset = result.assets[0];
+    // En la web el archivo llega como File; en el móvil, como fichero en la caché
+    const text = asset.file ? await asset.file.text() : await FileSystem.readAsStringAsync(asset.uri);
+    return parsePersonalDataArchive(text);
+  } catch (error) {
+    console.error('Error reading personal data archive:', error);
+    return { error: 'unreadable' };
+  }
+}
+
+/** Fecha más antigua de dos que pueden faltar */
+const earliest = (a: number | null | undefined, b: number | null | undefined): number | null =>
+  a && b ? Math.min(a, b) : a || b || null;
+
+/**
+ * Combina el historial de un logro: se conserva el desbloqueo más antiguo de
+ * cada nivel y el mayor progreso y puntuación
+ */
+const mergeRecord = (local: AchievementRecord | undefined, imported: AchievementRecord): AchievementRecord => {
+  if (!local) return imported;
+  const tiers = { ...local.tiers };
+  (Object.keys(imported.tiers ?? {}) as (keyof AchievementRecord['tiers'])[]).forEach(tier => {
+    tiers[tier] = earliest(tiers[tier], imported.tiers[tier]) ?? undefined;
+  });
+  return {
+    progress: Math.max(local.progress, imported.progress),
+    completedAt: earliest(local.completedAt, imported.completedAt),
+    pointsAwarded: Math.max(local.pointsAwarded, imported.pointsAwarded),
+    tiers,
+  };
+};
+
+/**
+ * Combina dos estados de logros: los eventos de ambos sin repetir, en orden
+ * cronológico, y el historial de cada logro combinado
+ */
+const mergeAchievements = (local: AchievementsState, imported: AchievementsState): AchievementsState => {
+  const seen = new Set(local.events.map(event => JSON.stringify(event)));
+  const events = [...local.events, ...imported.events.filter(event => !seen.has(JSON.stringify(event)))]
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const records = { ...local.records };
+  Object.entries(imported.records).forEach(([id, record]) => {
+    records[id] = mergeRecord(records[id], record);
+  });
+  return {
+    ...local,
+    events,
+    records,
+    celebratedLevel: Math.max(local.celebratedLevel, imported.celebratedLevel),
+    revealedSecrets: [...new Set([...local.revealedSecrets, ...imported.revealedSecrets])],
+  };
+};
+
+/**
+ * Combina dos rachas. Un día que aparece en las dos se cuenta una vez, con
+ * su mayor número de actividades.
+ */
+const mergeStreak = (local: StreakState, imported: StreakState): StreakState => {
+  const activity = { ...local.activity };
+  Object.entries(imported.activity).forEach(([day, count]) => {
+    activity[day] = Math.max(activity[day] ?? 0, count);
+  });
+  return {
+    ...local,
+    activity,
+    frozenDays: [...new Set([...local.frozenDays, ...imported.frozenDays])].filter(day => !activity[day]).sort(),
+    freezeTokens: Math.max(local.freezeTokens, imported.freezeTokens),
+  };
+};
+
+/**
+ * Datos que quedarían tras importar un archivo. Al combinar, los campos del
+ * perfil solo se toman del archivo si en local siguen con su valor por
+ * defecto, y los ajustes locales se conservan. El avatar de foto del archivo
+ * no se importa, porque la foto no viaja en él.
+ * @param local - Datos locales
+ * @param archive - Archivo comprobado
+ * @param mode - Combinar o sustituir
+ */
+export function planImport(local: PersonalData, archive: PersonalDataArchive, mode: ImportMode): PersonalData {
+  const importedProfile: Profile = archive.profile.avatar.kind === 'photo'
+    ? { ...archive.profile, avatar: local.profile.avatar }
+    : archive.profile;
+
+  if (mode === 'replace') {
+    return {
+      profile: importedProfile,
+      achievements: archive.achievements,
+      streak: archive.streak,
+      settings: archive.settings,
+    };
+  }
+
+  const keepLocal = <K extends keyof Profile>(field: K): Profile[K] =>
+    local.profile[field] === DEFAULT_PROFILE[field] ? importedProfile[field] : local.profile[field];
+  return {
+    profile: {
+      name: keepLocal('name'),
+      email: keepLocal('email'),
+      phone: keepLocal('phone'),
+      avatar: isSameAvatar(local.profile.avatar, DEFAULT_PROFILE.avatar) ? importedProfile.avatar : local.profile.avatar,
+    },
+    achievements: mergeAchievements(local.achievements, archive.achievements),
+    streak: mergeStreak(local.streak, archive.streak),
+    settings: local.settings,
+  };
+}
+
+const countUnlocked = (state: AchievementsState) =>
+  Object.values(state.records).filter(record => record.completedAt).length;
+
+const sumPoints = (state: AchievementsState) =>
+  Object.values(state.records).reduce((total, record) => total + record.pointsAwarded, 0);
+
+const countActiveDays = (state: StreakState) =>
+  Object.values(state.activity).filter(count => count > 0).length;
+
+/**
+ * Cambios entre los datos locales y los que quedarían tras importar
+ * @param local - Datos locales
+ * @param next - Resultado de planImport
+ */
+export function diffPersonalData(local: PersonalData, next: PersonalData): PersonalDataChange[] {
+  const changes: PersonalDataChange[] = [];
+  const compare = (label: MessageKey, from: string | number | boolean, to: string | number | boolean) => {
+    if (from !== to) changes.push({ label, from, to });
+  };
+
+  compare('profile.name', local.profile.name, next.profile.name);
+  compare('profile.email', local.profile.email, next.profile.email);
+  compare('profile.phone', local.profile.phone, next.profile.phone);
+  if (!isSameAvatar(local.profile.avatar, next.profile.avatar)) changes.push({ label: 'dataImport.avatar' });
+
+  compare('dataImport.events', local.achievements.events.length, next.achievements.events.length);
+  compare('dataImport.unlocked', countUnlocked(local.achievements), countUnlocked(next.achievements));
+  compare('dataImport.points', sumPoints(local.achievements), sumPoints(next.achievements));
+  compare('dataImport.activeDays', countActiveDays(local.streak), countActiveDays(next.streak));
+
+  compare('profile.language', local.settings.language, next.settings.language);
+  compare('profile.animations', local.settings.animationsEnabled, next.settings.animationsEnabled);
+  if (JSON.stringify(local.settings.achievementView) !== JSON.stringify(next.settings.achievementView)) {
+    changes.push({ label: 'dataImport.achievementView' });
+  }
+  return changes;
+}
+
+/**
+ * Datos locales que se pueden importar, para calcular el plan y la vista previa
+ */
+export async function readImportableData(): Promise<PersonalData> {
+  const { profile, achievements, streak, settings } = await readLocalData();
+  return { profile, achievements, streak, settings };
+}
+
+/** Pasos con los que se guardan los datos, cada uno en su almacén; resuelven a false si no se guarda */
+const SAVE_STEPS: ((data: PersonalData) => Promise<boolean>)[] = [
+  data => updateProfile(data.profile),
+  // Los logros antes que la racha: al cambiar la racha se vuelven a evaluar con los eventos ya guardados
+  data => replaceAchievementsState(data.achievements),
+  data => replaceStreakState(data.streak),
+  data => setLanguagePreference(data.settings.language),
+  data => setAnimationsEnabled(data.settings.animationsEnabled),
+  data => updateAchievementViewPrefs(data.settings.achievementView),
+];
+
+const runStep = async (step: (data: PersonalData) => Promise<boolean>, data: PersonalData) => {
+  try {
+    return await step(data);
+  } catch (error) {
+    console.error('Error saving imported data:', error);
+    return false;
+  }
+};
+
+/**
+ * Guarda los datos resultantes de una importación en todos los almacenes,
+ * que avisan a las pantallas. Todo se calcula antes de escribir nada, y si un
+ * almacén no se puede guardar se vuelven a guardar los datos anteriores en
+ * los que ya se habían guardado, para no dejar una importación a medias.
+ * @param next - Resultado de planImport
+ * @param previous - Datos locales con los que se calculó el plan
+ * @returns false si no se ha podido importar
+ */
+export async function applyPersonalData(next: PersonalData, previous: PersonalData): Promise<boolean> {
+  let prepared: PersonalData;
+  try {
+    const today = toDayKey(Date.now());
+    const streak = applyFreezes(next.streak, today);
+    const { longestStreak } = computeStreaks(streak, today);
+    prepared = { ...next, streak, achievements: prepareAchievementsState(next.achievements, longestStreak) };
+  } catch (error) {
+    console.error('Error preparing imported data:', error);
+    return false;
+  }
+
+  for (let index = 0; index < SAVE_STEPS.length; index++) {
+    if (await runStep(SAVE_STEPS[index], prepared)) continue;
+    // Se deshacen los pasos ya guardados, del último al primero
+    for (let undo = index - 1; undo >= 0; undo--) {
+      await runStep(SAVE_STEPS[undo], previous);
+    }
+    return false;
+  }
+  return true;
+}
+
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Perfil del usuario.
+ *
+ * Única fuente de los datos personales del perfil: los lee de AsyncStorage
+ * comprobando su forma, los expone como vista inmutable a la que se suscriben
+ * las pantallas y los guarda con actualizaciones optimistas: la vista cambia
+ * al momento y vuelve al valor anterior si no se puede guardar.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DEFAULT_AVATAR, deleteAvatarPhoto, isAvatar, migrateProfileImage, type Avatar } from './avatars';
+
+/** Clave de AsyncStorage bajo la que se guarda el perfil */
+export const PROFILE_STORAGE_KEY = 'userData';
+
+/**
+ * @interface ProfileDetails
+ * @description Datos personales que se editan en el formulario del perfil
+ */
+export interface ProfileDetails {
+  name: string;
+  email: string;
+  /** Teléfono en formato E.164, o una cadena vacía */
+  phone: string;
+}
+
+/**
+ * @interface Profile
+ * @description Perfil guardado del usuario
+ */
+export interface Profile extends ProfileDetails {
+  avatar: Avatar;
+}
+
+/**
+ * @interface ProfileSnapshot
+ * @description Vista inmutable del perfil
+ */
+export interface ProfileSnapshot {
+  loaded: boolean;
+  profile: Profile;
+}
+
+/** Perfil de quien todavía no ha guardado sus datos */
+export const DEFAULT_PROFILE: Profile = {
+  name: 'Capybara Capybara',
+  email: 'capybara@example.com',
+  phone: '+12345678900',
+  avatar: DEFAULT_AVATAR,
+};
+
+let snapshot: ProfileSnapshot = { loaded: false, profile: DEFAULT_PROFILE };
+let loadPromise: Promise<void> | null = null;
+// Escrituras encadenadas, para que se guarden en el mismo orden en que se hacen
+let writeQueue: Promise<void> = Promise.resolve();
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: ProfileSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Comprueba la forma del perfil guardado. Los campos que faltan o no tienen
+ * el tipo esperado toman el valor por defecto, para que un dato corrupto no
+ * impida abrir el perfil. La imagen de las versiones anteriores
+ * (`profileImage`) se convierte en avatar.
+ * @param value - JSON ya interpretado
+ */
+export function parseStoredProfile(value: unknown): Profile {
+  if (typeof value !== 'object' || value === null) return DEFAULT_PROFILE;
+  const stored = value as Record<string, unknown>;
+  const text = (field: keyof ProfileDetails) =>
+    typeof stored[field] === 'string' ? (stored[field] as string) : DEFAULT_PROFILE[field];
+
+  return {
+    name: text('name'),
+    email: text('email'),
+    phone: text('phone'),
+    avatar: isAvatar(stored.avatar)
+      ? stored.avatar
+      : 'profileImage' in stored ? migrateProfileImage(stored.profileImage) : DEFAULT_PROFILE.avatar,
+  };
+}
+
+const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => {});
+  return result;
+};
+
+/** Devuelve la vista actual del perfil */
+export function getProfileSnapshot(): ProfileSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios del perfil
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToProfile(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Lee el perfil guardado. Solo se hace la primera vez.
+ */
+export function loadProfile(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let profile = snapshot.profile;
+      let migrated = false;
+      try {
+        const stored = await AsyncStorage.getItem(PROFILE_STORAGE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          profile = parseStoredProfile(parsed);
+          migrated = typeof parsed === 'object' && parsed !== null && 'profileImage' in parsed;
+        }
+      } catch (error) {
+        console.error('Error loading profile:', error);
+      }
+      setSnapshot({ loaded: true, profile });
+
+      // El perfil de una versión anterior se guarda ya convertido, sin la referencia de Metro
+      if (migrated) {
+        enqueueWrite(() => AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile)))
+          .catch(error => console.error('Error migrating profile:', error));
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Cambia campos del perfil. La vista se actualiza antes de guardar y vuelve
+ * al perfil anterior si no se puede guardar.
+ * @param changes - Campos que cambian
+ * @returns true si el perfil se ha guardado
+ */
+export async function updateProfile(changes: Partial<Profile>): Promise<boolean> {
+  await loadProfile();
+  const previous = snapshot.profile;
+  const profile = { ...previous, ...changes };
+  setSnapshot({ ...snapshot, profile });
+
+  try {
+    await enqueueWrite(() => AsyncStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile)));
+    return true;
+  } catch (error) {
+    console.error('Error saving profile:', error);
+    // Solo se deshace si ningún cambio posterior ha sustituido a este
+    if (snapshot.profile === profile) setSnapshot({ ...snapshot, profile: previous });
+    return false;
+  }
+}
+
+/**
+ * Borra el perfil guardado, con su foto si la tiene, y vuelve a los datos por defecto
+ */
+export async function resetProfile(): Promise<void> {
+  await loadProfile();
+  deleteAvatarPhoto(snapshot.profile.avatar);
+  setSnapshot({ loaded: true, profile: DEFAULT_PROFILE });
+  try {
+    await enqueueWrite(() => AsyncStorage.removeItem(PROFILE_STORAGE_KEY));
+  } catch (error) {
+    console.error('Error resetting profile:', error);
+  }
+}
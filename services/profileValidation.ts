@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Validación de los datos personales del perfil.
+ *
+ * Comprueba el nombre (obligatorio y con longitud acotada), el correo
+ * electrónico (sintaxis de dirección de RFC 5321/5322, sin comentarios ni
+ * espacios plegados) y el teléfono, que se guarda en formato E.164
+ * (`+<prefijo><número>`) a partir del prefijo de país elegido y el número
+ * nacional. Los errores se devuelven como mensajes del catálogo de traducción
+ * para que la interfaz los muestre bajo cada campo.
+ */
+import { COUNTRY_CODES, DEFAULT_COUNTRY } from '../constants/CountryCodes';
+import type { MessageKey, MessageParams } from './i18n';
+
+/** Longitud mínima del nombre, sin contar espacios al principio y al final */
+export const NAME_MIN_LENGTH = 2;
+
+/** Longitud máxima del nombre */
+export const NAME_MAX_LENGTH = 50;
+
+/** Número máximo de cifras de un teléfono E.164, prefijo de país incluido */
+export const E164_MAX_DIGITS = 15;
+
+/** Países con prefijo telefónico en el selector del perfil */
+export type CountryIso = 'ES' | 'MX' | 'AR' | 'CO' | 'CL' | 'PE' | 'US' | 'CA' | 'GB' | 'FR' | 'DE' | 'IT' | 'PT' | 'BR';
+
+/**
+ * @interface CountryCode
+ * @description Prefijo telefónico de un país. El nombre visible es el mensaje
+ * `country.<iso>` de los catálogos de traducción.
+ */
+export interface CountryCode {
+  /** Código ISO 3166-1 alfa-2 del país */
+  iso: CountryIso;
+  /** Prefijo internacional, sin el signo + */
+  dialCode: string;
+  /** Cifras mínimas y máximas del número nacional */
+  nationalLength: [number, number];
+  /** Prefijo de marcación nacional que se omite al llamar desde fuera, p. ej. el 0 en Reino Unido */
+  trunkPrefix?: string;
+}
+
+/**
+ * @interface ValidationError
+ * @description Error de un campo, como mensaje del catálogo y sus parámetros
+ */
+export interface ValidationError {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/**
+ * @interface ProfileFormValues
+ * @description Valores del formulario de perfil tal como se escriben
+ */
+export interface ProfileFormValues {
+  name: string;
+  email: string;
+  /** Código ISO del país del prefijo telefónico */
+  country: CountryIso;
+  /** Número nacional, con o sin separadores */
+  nationalNumber: string;
+}
+
+/** Campos del formulario de perfil que pueden tener error */
+export type ProfileField = 'name' | 'email' | 'phone';
+
+/** Errores de cada campo; los campos válidos no aparecen */
+export type ProfileFormErrors = Partial<Record<ProfileField, ValidationError>>;
+
+// Caracteres permitidos en un átomo de la parte local (atext de RFC 5322)
+const ATEXT = "[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]";
+const DOT_ATOM = new RegExp(`^${ATEXT}+(\\.${ATEXT}+)*$`);
+// Cadena entre comillas: ASCII imprimible, con \ y " escapados
+const QUOTED_STRING = /^"([\x20\x21\x23-\x5b\x5d-\x7e]|\\[\x20-\x7e])*"$/;
+// Etiqueta de dominio (RFC 1035): letras, cifras y guiones, sin guion en los extremos
+const DOMAIN_LABEL = /^[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/;
+// Dirección IPv4 literal entre corchetes
+const ADDRESS_LITERAL = /^\[((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\]$/;
+// Separadores que se aceptan al escribir un teléfono
+const PHONE_SEPARATORS = /[\s().-]/g;
+
+/**
+ * Comprueba el nombre del perfil
+ * @param name - Nombre tal como se ha escrito
+ * @returns El error del campo, o null si es válido
+ */
+export function validateName(name: string): ValidationError | null {
+  const trimmed = name.trim();
+  if (!trimmed) return { key: 'profileForm.nameRequired' };
+  if (trimmed.length < NAME_MIN_LENGTH) return { key: 'profileForm.nameTooShort', params: { min: NAME_MIN_LENGTH } };
+  if (trimmed.length > NAME_MAX_LENGTH) return { key: 'profileForm.nameTooLong', params: { max: NAME_MAX_LENGTH } };
+  return null;
+}
+
+/**
+ * Indica si una cadena es una dirección de correo válida: parte local como
+ * dot-atom o cadena entre comillas de hasta 64 caracteres, y dominio con al
+ * menos dos etiquetas o una IPv4 literal, hasta 254 caracteres en total.
+ * @param email - Dirección sin espacios alrededor
+ */
+export function isValidEmail(email: string): boolean {
+  if (email.length > 254) return false;
+
+  const at = email.lastIndexOf('@');
+  if (at <= 0 || at === email.length - 1) return false;
+  const local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+
+  if (local.length > 64) return false;
+  if (!DOT_ATOM.test(local) && !QUOTED_STRING.test(local)) return false;
+
+  if (ADDRESS_LITERAL.test(domain)) return true;
+  if (domain.length > 253) return false;
+  const labels = domain.split('.');
+  // Un dominio sin punto solo es válido en redes locales; el dominio de nivel superior no es numérico
+  if (labels.length < 2 || /^\d+$/.test(labels[labels.length - 1])) return false;
+  return labels.every(label => DOMAIN_LABEL.test(label));
+}
+
+/**
+ * Comprueba el correo electrónico del perfil
+ * @param email - Correo tal como se ha escrito
+ * @returns El error del campo, o null si es válido
+ */
+export function validateEmail(email: string): ValidationError | null {
+  const trimmed = email.trim();
+  if (!trimmed) return { key: 'profileForm.emailRequired' };
+  if (!isValidEmail(trimmed)) return { key: 'profileForm.emailInvalid' };
+  return null;
+}
+
+/**
+ * Busca el prefijo de un país por su código ISO; con un código desconocido,
+ * como uno guardado por una versión anterior, devuelve el primero de la lista
+ * @param iso - Código ISO del país
+ */
+export function getCountryCode(iso: CountryIso): CountryCode {
+  return COUNTRY_CODES.find(country => country.iso === iso) ?? COUNTRY_CODES[0];
+}
+
+/**
+ * Cifras del número nacional, sin separadores ni prefijo de marcación nacional
+ * @returns Las cifras, o null si el número tiene caracteres no permitidos
+ */
+const nationalDigits = (country: CountryCode, nationalNumber: string): string | null => {
+  const digits = nationalNumber.replace(PHONE_SEPARATORS, '');
+  if (!/^\d*$/.test(digits)) return null;
+  if (country.trunkPrefix && digits.startsWith(country.trunkPrefix)) {
+    return digits.slice(country.trunkPrefix.length);
+  }
+  return digits;
+};
+
+/**
+ * Comprueba el teléfono del perfil, que es opcional
+ * @param iso - Código ISO del país elegido
+ * @param nationalNumber - Número nacional tal como se ha escrito
+ * @returns El error del campo, o null si es válido o está vacío
+ */
+export function validatePhone(iso: CountryIso, nationalNumber: string): ValidationError | null {
+  const country = getCountryCode(iso);
+  const digits = nationalDigits(country, nationalNumber.trim());
+  if (digits === null) return { key: 'profileForm.phoneInvalid' };
+  if (!digits && !nationalNumber.trim()) return null;
+
+  const [min, max] = country.nationalLength;
+  if (digits.length < min || digits.length > max || country.dialCode.length + digits.length > E164_MAX_DIGITS) {
+    return min === max
+      ? { key: 'profileForm.phoneDigits', params: { count: min } }
+      : { key: 'profileForm.phoneDigitsRange', params: { min, max } };
+  }
+  return null;
+}
+
+/**
+ * Une el prefijo del país y el número nacional en formato E.164
+ * @param iso - Código ISO del país elegido
+ * @param nationalNumber - Número nacional ya validado
+ * @returns El teléfono, p. ej. "+34612345678", o una cadena vacía si no hay número
+ */
+export function formatE164(iso: CountryIso, nationalNumber: string): string {
+  const country = getCountryCode(iso);
+  const digits = nationalDigits(country, nationalNumber) ?? '';
+  return digits ? `+${country.dialCode}${digits}` : '';
+}
+
+/**
+ * Separa un teléfono guardado en país y número nacional. Acepta E.164, el
+ * prefijo internacional 00 y separadores; sin prefijo se supone el país por
+ * defecto. Si varios países comparten prefijo se elige el primero de la lista.
+ * @param phone - Teléfono guardado, p. ej. "+1 234 567 890"
+ */
+export function parsePhone(phone: string): { country: CountryIso; nationalNumber: string } {
+  const compact = phone.trim().replace(PHONE_SEPARATORS, '').replace(/^00/, '+');
+  if (!compact.startsWith('+')) return { country: DEFAULT_COUNTRY, nationalNumber: compact };
+
+  const digits = compact.slice(1);
+  const match = COUNTRY_CODES
+    .filter(country => digits.startsWith(country.dialCode))
+    .reduce<CountryCode | null>(
+      (best, country) => (!best || country.dialCode.length > best.dialCode.length ? country : best),
+      null
+    );
+  if (!match) return { country: DEFAULT_COUNTRY, nationalNumber: digits };
+  return { country: match.iso, nationalNumber: digits.slice(match.dialCode.length) };
+}
+
+/**
+ * Comprueba todos los campos del formulario de perfil
+ * @param values - Valores tal como se han escrito
+ * @returns Los errores de los campos no válidos; vacío si el formulario es válido
+ */
+export function validateProfileForm(values: ProfileFormValues): ProfileFormErrors {
+  const errors: ProfileFormErrors = {};
+  const name = validateName(values.name);
+  const email = validateEmail(values.email);
+  const phone = validatePhone(values.country, values.nationalNumber);
+  if (name) errors.name = name;
+  if (email) errors.email = email;
+  if (phone) errors.phone = phone;
+  return errors;
+}
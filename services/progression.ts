@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Progresión de niveles a partir de la experiencia acumulada.
+ *
+ * Funciones puras que, dada una configuración de curva, traducen la XP total
+ * en nivel, título, XP dentro del nivel y XP necesaria para el siguiente.
+ */
+
+/**
+ * @interface LevelDefinition
+ * @description Título (y recompensa opcional) que se obtiene al llegar a un nivel
+ */
+export interface LevelDefinition {
+  /** Nivel a partir del cual se aplica el título */
+  level: number;
+  /** Nombre del nivel o su clave de traducción, p. ej. "progression.novice" */
+  title: string;
+  /** Descripción (o clave de traducción) de la recompensa que se entrega al alcanzar el nivel */
+  reward?: string;
+}
+
+/**
+ * @interface ProgressionConfig
+ * @description Parámetros de la curva de progresión
+ */
+export interface ProgressionConfig {
+  /** XP necesaria para pasar del nivel 1 al 2 */
+  baseXp: number;
+  /** Exponente de la curva; mayor que 1 hace que cada nivel cueste más */
+  exponent: number;
+  /** Nivel máximo alcanzable */
+  maxLevel: number;
+  /** Títulos y recompensas por nivel, ordenados por nivel ascendente */
+  levels: LevelDefinition[];
+}
+
+/**
+ * @interface LevelProgress
+ * @description Estado de progresión para una cantidad de XP
+ */
+export interface LevelProgress {
+  /** Nivel actual (empieza en 1) */
+  level: number;
+  /** Título del nivel actual */
+  title: string;
+  /** XP acumulada total */
+  totalXp: number;
+  /** XP conseguida dentro del nivel actual */
+  xpIntoLevel: number;
+  /** XP que separa el nivel actual del siguiente */
+  xpForLevel: number;
+  /** XP que falta para subir de nivel */
+  xpToNextLevel: number;
+  /** Progreso dentro del nivel, entre 0 y 1 */
+  progress: number;
+  /** Indica si se ha alcanzado el nivel máximo */
+  isMaxLevel: boolean;
+}
+
+/**
+ * XP total necesaria para alcanzar un nivel
+ * @param level - Nivel (1 = sin XP)
+ * @param config - Configuración de la curva
+ */
+export function xpForLevel(level: number, config: ProgressionConfig): number {
+  if (level <= 1) return 0;
+  return Math.round(config.baseXp * Math.pow(level - 1, config.exponent));
+}
+
+/**
+ * Devuelve el título y la recompensa que corresponden a un nivel
+ * @param level - Nivel a consultar
+ * @param config - Configuración de la curva
+ */
+export function getLevelDefinition(level: number, config: ProgressionConfig): LevelDefinition {
+  let definition = config.levels[0];
+  for (const candidate of config.levels) {
+    if (candidate.level > level) break;
+    definition = candidate;
+  }
+  return definition;
+}
+
+/**
+ * Recompensas que se obtienen al pasar de un nivel a otro (sin incluir el de origen)
+ * @param fromLevel - Nivel anterior
+ * @param toLevel - Nivel alcanzado
+ * @param config - Configuración de la curva
+ */
+export function getRewardsBetween(
+  fromLevel: number,
+  toLevel: number,
+  config: ProgressionConfig
+): LevelDefinition[] {
+  return config.levels.filter(
+    definition => definition.level > fromLevel && definition.level <= toLevel && definition.reward
+  );
+}
+
+/**
+ * Calcula el nivel y el progreso dentro del nivel para una cantidad de XP
+ * @param totalXp - XP acumulada
+ * @param config - Configuración de la curva
+ */
+export function getLevelProgress(totalXp: number, config: ProgressionConfig): LevelProgress {
+  let level = 1;
+  while (level < config.maxLevel && totalXp >= xpForLevel(level + 1, config)) {
+    level += 1;
+  }
+
+  const isMaxLevel = level >= config.maxLevel;
+  const levelStart = xpForLevel(level, config);
+  const xpForThisLevel = isMaxLevel ? 0 : xpForLevel(level + 1, config) - levelStart;
+  const xpIntoLevel = totalXp - levelStart;
+
+  return {
+    level,
+    title: getLevelDefinition(level, config).title,
+    totalXp,
+    xpIntoLevel,
+    xpForLevel: xpForThisLevel,
+    xpToNextLevel: isMaxLevel ? 0 : xpForThisLevel - xpIntoLevel,
+    progress: isMaxLevel ? 1 : xpIntoLevel / xpForThisLevel,
+    isMaxLevel,
+  };
+}
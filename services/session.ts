@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Sesión del usuario.
+ *
+ * Guarda los tokens de la sesión en el almacenamiento seguro del sistema
+ * (Keychain en iOS, Keystore en Android), renueva el token de acceso antes de
+ * que caduque y expone quién ha iniciado sesión como vista inmutable. Las
+ * operaciones de inicio de sesión delegan en el proveedor de autenticación
+ * (services/auth); por ahora siempre el servidor simulado.
+ *
+ * En la web no hay almacenamiento seguro: la sesión solo dura mientras la
+ * página está abierta.
+ */
+import * as Linking from 'expo-linking';
+import * as SecureStore from 'expo-secure-store';
+
+import { getAuthErrorCode, type AuthErrorCode, type AuthProvider, type AuthSession, type AuthUser } from './auth';
+import { mockAuthServer } from './mockAuthServer';
+
+/** Clave del almacenamiento seguro bajo la que se guarda la sesión */
+export const SESSION_STORAGE_KEY = 'authSession';
+
+/** Margen con el que se renueva el token de acceso antes de que caduque */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/** Ruta de la aplicación que abren los enlaces de acceso */
+const MAGIC_LINK_PATH = '/magic-link';
+
+/**
+ * @interface SessionSnapshot
+ * @description Vista inmutable de la sesión. Los tokens no forman parte de
+ * ella: se piden con getAccessToken.
+ */
+export interface SessionSnapshot {
+  /** Indica si ya se ha leído la sesión guardada */
+  loaded: boolean;
+  /** Usuario con sesión iniciada, o null */
+  user: AuthUser | null;
+  /** Indica si hay una operación en curso con el proveedor */
+  busy: boolean;
+}
+
+/** Proveedor de autenticación en uso */
+let provider: AuthProvider = mockAuthServer;
+
+let session: AuthSession | null = null;
+let snapshot: SessionSnapshot = { loaded: false, user: null, busy: false };
+let loadPromise: Promise<void> | null = null;
+// Renovación en curso, compartida por quien pida el token mientras tanto
+let refreshPromise: Promise<AuthSession | null> | null = null;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: Partial<SessionSnapshot>) => {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Cambia la sesión en memoria y en el almacenamiento seguro
+ */
+const setSession = async (next: AuthSession | null) => {
+  session = next;
+  setSnapshot({ user: next?.user ?? null });
+  try {
+    if (!(await SecureStore.isAvailableAsync())) return;
+    if (next) await SecureStore.setItemAsync(SESSION_STORAGE_KEY, JSON.stringify(next));
+    else await SecureStore.deleteItemAsync(SESSION_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Comprueba que una sesión guardada tenga la forma esperada
+ */
+const isAuthSession = (value: unknown): value is AuthSession =>
+  isRecord(value) &&
+  isRecord(value.user) &&
+  typeof value.user.id === 'string' &&
+  typeof value.user.email === 'string' &&
+  isRecord(value.tokens) &&
+  typeof value.tokens.accessToken === 'string' &&
+  typeof value.tokens.refreshToken === 'string' &&
+  typeof value.tokens.expiresAt === 'number';
+
+/** Devuelve la vista actual de la sesión */
+export function getSessionSnapshot(): SessionSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de la sesión
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Sustituye el proveedor de autenticación. La sesión actual se cierra, porque
+ * sus tokens son del proveedor anterior.
+ * @param next - Proveedor que cumple la interfaz AuthProvider
+ */
+export async function setAuthProvider(next: AuthProvider): Promise<void> {
+  await loadSession();
+  await setSession(null);
+  provider = next;
+}
+
+/**
+ * Renueva los tokens de la sesión. Si el proveedor ya no acepta el token de
+ * refresco la sesión se cierra; si no responde, se conserva la sesión para
+ * volver a intentarlo más tarde.
+ * @returns La sesión renovada, o null si se ha cerrado
+ */
+const refreshSession = (): Promise<AuthSession | null> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const current = session;
+      if (!current) return null;
+      try {
+        const tokens = await provider.refresh(current.tokens.refreshToken);
+        // Si la sesión ha cambiado mientras tanto, los tokens nuevos ya no sirven
+        if (session !== current) return session;
+        const next = { ...current, tokens };
+        await setSession(next);
+        return next;
+      } catch (error) {
+        if (getAuthErrorCode(error) !== 'sessionExpired') {
+          console.error('Error refreshing session:', error);
+          return current;
+        }
+        if (session === current) await setSession(null);
+        return null;
+      } finally {
+        refreshPromise = null;
+      }
+    })();
+  }
+  return refreshPromise;
+};
+
+/**
+ * Lee la sesión guardada y la renueva si su token de acceso ha caducado.
+ * Solo se hace la primera vez.
+ */
+export function loadSession(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        if (await SecureStore.isAvailableAsync()) {
+          const stored = await SecureStore.getItemAsync(SESSION_STORAGE_KEY);
+          const parsed = stored ? JSON.parse(stored) : null;
+          if (isAuthSession(parsed)) {
+            session = parsed;
+            if (parsed.tokens.expiresAt - REFRESH_MARGIN_MS <= Date.now()) await refreshSession();
+          }
+        }
+      } catch (error) {
+        console.error('Error loading session:', error);
+      }
+      setSnapshot({ loaded: true, user: session?.user ?? null });
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Token de acceso válido para llamar a la API, renovado si está a punto de caducar
+ * @returns El token, o null si no hay sesión
+ */
+export async function getAccessToken(): Promise<string | null> {
+  await loadSession();
+  if (!session) return null;
+  if (session.tokens.expiresAt - REFRESH_MARGIN_MS > Date.now()) return session.tokens.accessToken;
+  return (await refreshSession())?.tokens.accessToken ?? null;
+}
+
+/**
+ * Ejecuta una operación del proveedor que inicia sesión
+ * @returns null si se ha iniciado sesión, o el motivo del error
+ */
+const run = async (operation: () => Promise<AuthSession>, label: string): Promise<AuthErrorCode | null> => {
+  await loadSession();
+  setSnapshot({ busy: true });
+  try {
+    await setSession(await operation());
+    return null;
+  } catch (error) {
+    console.error(`Error ${label}:`, error);
+    return getAuthErrorCode(error);
+  } finally {
+    setSnapshot({ busy: false });
+  }
+};
+
+/**
+ * Inicia sesión con correo y contraseña
+ * @returns null si se ha iniciado sesión, o el motivo del error
+ */
+export function signInWithPassword(email: string, password: string): Promise<AuthErrorCode | null> {
+  return run(() => provider.signIn(email, password), 'signing in');
+}
+
+/**
+ * Crea una cuenta e inicia sesión con ella
+ * @returns null si se ha creado, o el motivo del error
+ */
+export function signUp(email: string, password: string): Promise<AuthErrorCode | null> {
+  return run(() => provider.signUp(email, password), 'signing up');
+}
+
+/**
+ * Inicia sesión con el token de un enlace de acceso
+ * @returns null si se ha iniciado sesión, o el motivo del error
+ */
+export function completeMagicLink(token: string): Promise<AuthErrorCode | null> {
+  return run(() => provider.verifyMagicLink(token), 'verifying magic link');
+}
+
+/**
+ * Pide un enlace de acceso que abre la aplicación en la ruta /magic-link
+ * @returns null si se ha enviado, o el motivo del error
+ */
+export async function requestMagicLink(email: string): Promise<AuthErrorCode | null> {
+  setSnapshot({ busy: true });
+  try {
+    await provider.requestMagicLink(email, Linking.createURL(MAGIC_LINK_PATH));
+    return null;
+  } catch (error) {
+    console.error('Error requesting magic link:', error);
+    return getAuthErrorCode(error);
+  } finally {
+    setSnapshot({ busy: false });
+  }
+}
+
+/**
+ * Cierra la sesión. Se cierra en el dispositivo aunque el proveedor no
+ * responda; en ese caso el token de refresco caducará por sí solo.
+ */
+export async function signOut(): Promise<void> {
+  await loadSession();
+  const current = session;
+  if (!current) return;
+  await setSession(null);
+  try {
+    await provider.signOut(current.tokens.refreshToken);
+  } catch (error) {
+    console.error('Error signing out:', error);
+  }
+}
+
+/**
+ * Borra la cuenta en el proveedor y cierra la sesión. Sin sesión, o si el
+ * token de refresco ya no vale, la cuenta no se puede borrar desde el
+ * dispositivo: se devuelve 'sessionExpired' y, si la había, se cierra la sesión.
+ * @returns null si se ha borrado, o el motivo del error
+ */
+export async function deleteAccount(): Promise<AuthErrorCode | null> {
+  await loadSession();
+  const current = session;
+  if (!current) return 'sessionExpired';
+  try {
+    await provider.deleteAccount(current.tokens.refreshToken);
+  } catch (error) {
+    const code = getAuthErrorCode(error);
+    if (code === 'sessionExpired') await setSession(null);
+    else console.error('Error deleting account:', error);
+    return code;
+  }
+  await setSession(null);
+  return null;
+}
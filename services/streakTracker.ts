@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Seguimiento de la racha de aprendizaje.
+ *
+ * Registra los días con actividad (en la zona horaria del dispositivo), calcula
+ * la racha actual y la más larga, y gestiona los "congeladores de racha": fichas
+ * que se ganan manteniendo la racha y que cubren automáticamente los días sin
+ * actividad para que la racha no se pierda.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { dayKeyToNumber, dayNumberToKey, toDayKey } from './dayKeys';
+import { hasPremiumFeature } from './subscription';
+
+/** Clave de AsyncStorage bajo la que se guarda la racha */
+export const STREAK_STORAGE_KEY = 'streak';
+
+/** Versión actual del esquema persistido */
+export const STREAK_SCHEMA_VERSION = 1;
+
+/** Cada cuántos días de racha se gana un congelador */
+export const FREEZE_EARN_INTERVAL = 7;
+
+/** Número máximo de congeladores que se pueden acumular */
+export const MAX_FREEZE_TOKENS = 2;
+
+/** Número máximo de congeladores con la función de pago "extraStreakFreezes" */
+export const PREMIUM_MAX_FREEZE_TOKENS = 5;
+
+/**
+ * @interface StreakState
+ * @description Forma del documento guardado en AsyncStorage
+ */
+export interface StreakState {
+  version: number;
+  /** Número de actividades registradas por día ('YYYY-MM-DD') */
+  activity: Record<string, number>;
+  /** Días sin actividad cubiertos por un congelador */
+  frozenDays: string[];
+  /** Congeladores disponibles */
+  freezeTokens: number;
+}
+
+/**
+ * @interface StreakSummary
+ * @description Valores derivados que muestra la interfaz
+ */
+export interface StreakSummary {
+  /** Días de la racha en curso (incluye ayer si hoy aún no hay actividad) */
+  currentStreak: number;
+  /** Racha más larga alcanzada */
+  longestStreak: number;
+  /** Congeladores disponibles */
+  freezeTokens: number;
+  /** Indica si ya hay actividad registrada hoy */
+  activeToday: boolean;
+}
+
+/**
+ * @interface StreakSnapshot
+ * @description Vista inmutable del seguimiento de racha
+ */
+export interface StreakSnapshot {
+  loaded: boolean;
+  state: StreakState;
+  summary: StreakSummary;
+}
+
+const createEmptyState = (): StreakState => ({
+  version: STREAK_SCHEMA_VERSION,
+  activity: {},
+  frozenDays: [],
+  freezeTokens: 0,
+});
+
+/**
+ * Calcula la racha actual y la más larga.
+ * Los días congelados mantienen la racha unida pero no suman días.
+ * @param state - Estado de la racha
+ * @param today - Clave del día actual
+ */
+export function computeStreaks(
+  state: StreakState,
+  today: string
+): { currentStreak: number; longestStreak: number } {
+  const active = new Set(Object.keys(state.activity).filter(day => state.activity[day] > 0));
+  const covered = Array.from(new Set([...active, ...state.frozenDays]))
+    .map(dayKeyToNumber)
+    .sort((a, b) => a - b);
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const day of covered) {
+    if (previous === null || day - previous !== 1) run = 0;
+    if (active.has(dayNumberToKey(day))) run += 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = day;
+  }
+
+  // La racha sigue viva si el último día cubierto es hoy o ayer
+  const currentStreak = previous !== null && dayKeyToNumber(today) - previous <= 1 ? run : 0;
+  return { currentStreak, longestStreak };
+}
+
+/**
+ * Cubre con congeladores los días sin actividad entre el último día cubierto y hoy.
+ * Si no hay fichas suficientes para cubrir todo el hueco, la racha se rompe y no se gasta ninguna.
+ * @param state - Estado de la racha
+ * @param today - Clave del día actual
+ */
+export function applyFreezes(state: StreakState, today: string): StreakState {
+  const covered = [
+    ...Object.keys(state.activity).filter(day => state.activity[day] > 0),
+    ...state.frozenDays,
+  ].map(dayKeyToNumber);
+  if (covered.length === 0 || state.freezeTokens === 0) return state;
+
+  const lastCovered = Math.max(...covered);
+  const missed = dayKeyToNumber(today) - lastCovered - 1;
+  if (missed <= 0 || missed > state.freezeTokens) return state;
+
+  const frozen = Array.from({ length: missed }, (_, i) => dayNumberToKey(lastCovered + i + 1));
+  return {
+    ...state,
+    frozenDays: [...state.frozenDays, ...frozen],
+    freezeTokens: state.freezeTokens - missed,
+  };
+}
+
+/**
+ * Añade una actividad al estado y otorga un congelador cada FREEZE_EARN_INTERVAL días de racha
+ * @param state - Estado de la racha
+ * @param timestamp - Momento de la actividad
+ * @param maxFreezeTokens - Congeladores que se pueden acumular
+ */
+export function addActivity(
+  state: StreakState,
+  timestamp: number,
+  maxFreezeTokens: number = MAX_FREEZE_TOKENS
+): StreakState {
+  const day = toDayKey(timestamp);
+  const isNewDay = !state.activity[day];
+  let next = applyFreezes(state, day);
+  next = { ...next, activity: { ...next.activity, [day]: (next.activity[day] ?? 0) + 1 } };
+
+  if (isNewDay) {
+    const { currentStreak } = computeStreaks(next, day);
+    if (currentStreak > 0 && currentStreak % FREEZE_EARN_INTERVAL === 0) {
+      next = { ...next, freezeTokens: Math.min(next.freezeTokens + 1, maxFreezeTokens) };
+    }
+  }
+  return next;
+}
+
+const buildSnapshot = (state: StreakState, loaded: boolean): StreakSnapshot => {
+  const today = toDayKey(Date.now());
+  return {
+    loaded,
+    state,
+    summary: {
+      ...computeStreaks(state, today),
+      freezeTokens: state.freezeTokens,
+      activeToday: (state.activity[today] ?? 0) > 0,
+    },
+  };
+};
+
+let snapshot: StreakSnapshot = buildSnapshot(createEmptyState(), false);
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (state: StreakState, loaded = snapshot.loaded) => {
+  snapshot = buildSnapshot(state, loaded);
+  listeners.forEach(listener => listener());
+};
+
+const persist = async (state: StreakState): Promise<boolean> => {
+  try {
+    await AsyncStorage.setItem(STREAK_STORAGE_KEY, JSON.stringify(state));
+    return true;
+  } catch (error) {
+    console.error('Error saving streak:', error);
+    return false;
+  }
+};
+
+/** Devuelve la vista actual de la racha */
+export function getStreakSnapshot(): StreakSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de la racha
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToStreak(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Carga la racha guardada y aplica los congeladores a los días perdidos desde la última sesión
+ */
+export function loadStreak(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let stored = createEmptyState();
+      try {
+        const raw = await AsyncStorage.getItem(STREAK_STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (parsed?.version === STREAK_SCHEMA_VERSION) {
+          stored = { ...stored, ...parsed };
+        } else if (parsed) {
+          console.warn('Discarding unreadable streak data');
+        }
+      } catch (error) {
+        console.error('Error loading streak:', error);
+      }
+
+      // Las actividades registradas antes de terminar la carga se suman a las guardadas
+      const pending = snapshot.state.activity;
+      let state: StreakState = {
+        ...stored,
+        activity: { ...stored.activity },
+      };
+      Object.keys(pending).forEach(day => {
+        state.activity[day] = (state.activity[day] ?? 0) + pending[day];
+      });
+      state = applyFreezes(state, toDayKey(Date.now()));
+
+      setState(state, true);
+      if (JSON.stringify(state) !== JSON.stringify(stored)) await persist(state);
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Registra actividad de aprendizaje para el día en que ocurre
+ * @param timestamp - Momento de la actividad; por defecto, ahora
+ */
+export async function recordActivity(timestamp: number = Date.now()): Promise<void> {
+  const maxFreezeTokens = hasPremiumFeature('extraStreakFreezes') ? PREMIUM_MAX_FREEZE_TOKENS : MAX_FREEZE_TOKENS;
+  const state = addActivity(snapshot.state, timestamp, maxFreezeTokens);
+  setState(state);
+  if (snapshot.loaded) await persist(state);
+}
+
+/**
+ * Vacía la racha y borra la guardada, por ejemplo al borrar la cuenta
+ */
+export async function resetStreak(): Promise<void> {
+  await loadStreak();
+  setState(createEmptyState());
+  try {
+    await AsyncStorage.removeItem(STREAK_STORAGE_KEY);
+  } catch (error) {
+    console.error('Error resetting streak:', error);
+  }
+}
+
+/**
+ * Sustituye la racha guardada, por ejemplo al importar una copia de los datos.
+ * Primero se guarda, para que la vista no cambie si no se puede guardar.
+ * @param state - Estado que pasa a ser el de la racha, con los congeladores ya aplicados (applyFreezes)
+ * @returns true si se ha guardado
+ */
+export async function replaceStreakState(state: StreakState): Promise<boolean> {
+  await loadStreak();
+  if (!(await persist(state))) return false;
+  setState(state);
+  return true;
+}
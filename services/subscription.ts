@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Suscripción del usuario y funciones de pago.
+ *
+ * Consulta al proveedor de pagos el plan contratado, expone las operaciones de
+ * cambio de plan, cancelación y reanudación, y decide a qué funciones de pago
+ * da acceso la suscripción ("entitlement"). El resto de la aplicación pregunta
+ * por funciones concretas con hasPremiumFeature, no por el plan.
+ */
+import { FREE_SUBSCRIPTION, type BillingProvider, type PaidPlanId, type Subscription } from './billing';
+import { fakeBillingProvider } from './fakeBillingProvider';
+
+/** Acceso que da la suscripción: gratuito o a todas las funciones de pago */
+export type Entitlement = 'free' | 'premium';
+
+/** Funciones que requieren una suscripción de pago */
+export type PremiumFeature = 'premiumAchievements' | 'extraStreakFreezes';
+
+/**
+ * @interface SubscriptionSnapshot
+ * @description Vista inmutable de la suscripción
+ */
+export interface SubscriptionSnapshot {
+  loaded: boolean;
+  subscription: Subscription;
+  entitlement: Entitlement;
+  /** Indica si hay una operación en curso con el proveedor de pagos */
+  busy: boolean;
+}
+
+/**
+ * Acceso necesario para cada función de pago. Hoy el plan de pago las incluye
+ * todas, pero quien pregunta indica la función para poder separarlas más adelante.
+ */
+const FEATURE_ENTITLEMENTS: Record<PremiumFeature, Entitlement> = {
+  premiumAchievements: 'premium',
+  extraStreakFreezes: 'premium',
+};
+
+/** Proveedor de pagos en uso; por ahora siempre el simulado */
+let provider: BillingProvider = fakeBillingProvider;
+
+const entitlementFor = (subscription: Subscription): Entitlement =>
+  subscription.plan === 'free' ? 'free' : 'premium';
+
+let snapshot: SubscriptionSnapshot = {
+  loaded: false,
+  subscription: FREE_SUBSCRIPTION,
+  entitlement: 'free',
+  busy: false,
+};
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: Partial<Omit<SubscriptionSnapshot, 'entitlement'>>) => {
+  const subscription = next.subscription ?? snapshot.subscription;
+  snapshot = { ...snapshot, ...next, entitlement: entitlementFor(subscription) };
+  listeners.forEach(listener => listener());
+};
+
+/** Devuelve la vista actual de la suscripción */
+export function getSubscriptionSnapshot(): SubscriptionSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de la suscripción
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToSubscription(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Sustituye el proveedor de pagos y vuelve a consultar la suscripción
+ * @param next - Proveedor que cumple la interfaz BillingProvider
+ */
+export function setBillingProvider(next: BillingProvider): Promise<void> {
+  provider = next;
+  loadPromise = null;
+  return loadSubscription();
+}
+
+/**
+ * Olvida la suscripción consultada y la vuelve a pedir al proveedor, por
+ * ejemplo al cerrar la sesión o borrar la cuenta. Mientras responde se trata
+ * como gratuita, para no dar a otro usuario el acceso del anterior.
+ */
+export function resetSubscription(): Promise<void> {
+  setSnapshot({ loaded: false, subscription: FREE_SUBSCRIPTION, busy: false });
+  loadPromise = null;
+  return loadSubscription();
+}
+
+/**
+ * Consulta la suscripción al proveedor. Solo se hace la primera vez.
+ */
+export function loadSubscription(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let subscription = snapshot.subscription;
+      try {
+        subscription = await provider.getSubscription();
+      } catch (error) {
+        console.error('Error loading subscription:', error);
+      }
+      setSnapshot({ loaded: true, subscription });
+    })();
+  }
+  return loadPromise;
+}
+
+/**
+ * Ejecuta una operación del proveedor y guarda el estado que devuelve
+ * @returns true si el proveedor completó la operación
+ */
+const run = async (operation: () => Promise<Subscription>, label: string): Promise<boolean> => {
+  setSnapshot({ busy: true });
+  try {
+    setSnapshot({ subscription: await operation(), busy: false });
+    return true;
+  } catch (error) {
+    console.error(`Error ${label}:`, error);
+    setSnapshot({ busy: false });
+    return false;
+  }
+};
+
+/**
+ * Contrata un plan de pago o cambia a otro
+ * @param plan - Plan elegido
+ * @returns true si el cambio se ha hecho o programado
+ */
+export function changePlan(plan: PaidPlanId): Promise<boolean> {
+  return run(() => provider.changePlan(plan), 'changing plan');
+}
+
+/**
+ * Cancela la renovación de la suscripción
+ * @returns true si la cancelación se ha registrado
+ */
+export function cancelSubscription(): Promise<boolean> {
+  return run(() => provider.cancel(), 'canceling subscription');
+}
+
+/**
+ * Deshace la cancelación o el cambio de plan programado
+ * @returns true si la suscripción vuelve a renovarse con el plan actual
+ */
+export function resumeSubscription(): Promise<boolean> {
+  return run(() => provider.resume(), 'resuming subscription');
+}
+
+/**
+ * Indica si la suscripción actual da acceso a una función de pago
+ * @param feature - Función que se quiere usar
+ */
+export function hasPremiumFeature(feature: PremiumFeature, entitlement = snapshot.entitlement): boolean {
+  return entitlement === FEATURE_ENTITLEMENTS[feature];
+}
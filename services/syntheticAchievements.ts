@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Catálogo sintético de logros para medir el rendimiento del panel.
+ *
+ * Genera de forma determinista un catálogo del tamaño indicado que mezcla todas
+ * las reglas, rarezas, categorías, logros escalonados y secretos, y lo evalúa
+ * contra un flujo de eventos sintético para que haya logros completados,
+ * a medias y sin empezar.
+ */
+import { ACHIEVEMENTS, ACHIEVEMENT_CATEGORIES, BASIC_CULTURE_LESSONS } from '../constants/Achievements';
+import {
+  evaluateAchievements,
+  type AchievementDefinition,
+  type AchievementRarity,
+  type AchievementRule,
+  type LearningEvent,
+} from './achievementEngine';
+import type { UnlockedAchievement } from './achievementStore';
+import { translateText } from './i18n';
+
+const RARITY_CYCLE: AchievementRarity[] = ['common', 'common', 'rare', 'epic', 'legendary'];
+
+/** Reglas de ejemplo; los objetivos crecen con el índice para repartir el progreso */
+const createRule = (index: number): AchievementRule => {
+  switch (index % 4) {
+    case 0:
+      return { type: 'counter', event: 'word_learned', target: 10 + (index % 50) * 10 };
+    case 1:
+      return { type: 'counter', event: 'conversation_finished', target: 1 + (index % 30) };
+    case 2:
+      return { type: 'perfectScore', count: 1 + (index % 15) };
+    default:
+      return { type: 'lessonSet', lessonIds: BASIC_CULTURE_LESSONS.slice(0, 1 + (index % 5)) };
+  }
+};
+
+/**
+ * Crea las definiciones del catálogo sintético
+ * @param count - Número de logros
+ */
+export function createSyntheticDefinitions(count: number): AchievementDefinition[] {
+  return Array.from({ length: count }, (_, index) => {
+    const template = ACHIEVEMENTS[index % ACHIEVEMENTS.length];
+    const rule = createRule(index);
+    return {
+      id: `synthetic-${index}`,
+      title: `${translateText(template.title)} ${index + 1}`,
+      description: translateText(template.description),
+      icon: template.icon,
+      category: ACHIEVEMENT_CATEGORIES[index % ACHIEVEMENT_CATEGORIES.length],
+      points: 10 * (1 + (index % 25)),
+      rule,
+      rarity: RARITY_CYCLE[index % RARITY_CYCLE.length],
+      visibility: index % 20 === 19 ? 'hidden' : 'visible',
+      tiers:
+        index % 10 === 0 && rule.type === 'counter'
+          ? [
+              { id: 'bronze', target: 50, points: 50 },
+              { id: 'silver', target: 250, points: 100 },
+              { id: 'gold', target: 500, points: 150 },
+            ]
+          : undefined,
+    };
+  });
+}
+
+/**
+ * Flujo de eventos sintético con palabras, conversaciones y lecciones perfectas
+ * @param now - Momento del último evento
+ */
+const createSyntheticEvents = (now: number): LearningEvent[] => {
+  const events: LearningEvent[] = [];
+  for (let i = 0; i < 300; i++) {
+    events.push({ type: 'word_learned', timestamp: now - i * 60000, wordId: `word-${i}` });
+  }
+  for (let i = 0; i < 15; i++) {
+    events.push({ type: 'conversation_finished', timestamp: now - i * 3600000, conversationId: `conversation-${i}` });
+  }
+  BASIC_CULTURE_LESSONS.slice(0, 3).forEach((lessonId, i) => {
+    events.push({ type: 'lesson_completed', timestamp: now - i * 86400000, lessonId, score: 1 });
+  });
+  return events;
+};
+
+/**
+ * Genera y evalúa un catálogo sintético listo para mostrarse en el panel de logros
+ * @param count - Número de logros
+ * @param now - Momento de referencia para las fechas de desbloqueo
+ */
+export function createSyntheticCatalog(count: number, now = Date.now()): UnlockedAchievement[] {
+  return evaluateAchievements(createSyntheticDefinitions(count), createSyntheticEvents(now)).map(
+    (achievement, index) => {
+      const unlockedAt = now - index * 60000;
+      const tierCompletedAt = Object.fromEntries(
+        (achievement.tierProgress ?? []).filter(tier => tier.isCompleted).map(tier => [tier.id, unlockedAt])
+      );
+      const pointsAwarded = achievement.tierProgress
+        ? achievement.tierProgress.filter(tier => tier.isCompleted).reduce((total, tier) => total + tier.points, 0)
+        : achievement.isCompleted
+          ? achievement.points
+          : 0;
+      return {
+        ...achievement,
+        completedAt: achievement.isCompleted ? unlockedAt : null,
+        pointsAwarded,
+        tierCompletedAt,
+      };
+    }
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Cola de notificaciones de logros desbloqueados.
+ *
+ * El almacén de logros encola aquí cada desbloqueo (o nivel conseguido) y el
+ * aviso global montado en el layout raíz los muestra de uno en uno. Al pulsar
+ * el aviso se abre la ruta /achievements/[id]. El estado vive solo en memoria.
+ */
+import type { AchievementTierId } from './achievementEngine';
+
+/**
+ * @interface UnlockNotification
+ * @description Aviso de un logro o nivel recién conseguido
+ */
+export interface UnlockNotification {
+  /** Clave única del aviso */
+  key: string;
+  achievementId: string;
+  /** Nivel conseguido en los logros escalonados, o null si se completó el logro */
+  tier: AchievementTierId | null;
+  title: string;
+  icon: any;
+  /** Puntos otorgados por el desbloqueo */
+  points: number;
+}
+
+/**
+ * @interface UnlockNotificationsSnapshot
+ * @description Vista inmutable de la cola
+ */
+export interface UnlockNotificationsSnapshot {
+  /** Avisos pendientes; el primero es el que se está mostrando */
+  queue: UnlockNotification[];
+}
+
+let snapshot: UnlockNotificationsSnapshot = { queue: [] };
+let nextKey = 0;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (next: UnlockNotificationsSnapshot) => {
+  snapshot = next;
+  listeners.forEach(listener => listener());
+};
+
+/** Devuelve la vista actual de la cola */
+export function getUnlockNotificationsSnapshot(): UnlockNotificationsSnapshot {
+  return snapshot;
+}
+
+/**
+ * Suscribe una función a los cambios de la cola
+ * @returns Función para cancelar la suscripción
+ */
+export function subscribeToUnlockNotifications(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Añade avisos al final de la cola
+ * @param notifications - Desbloqueos a notificar, en el orden en que se mostrarán
+ */
+export function enqueueUnlockNotifications(notifications: Omit<UnlockNotification, 'key'>[]): void {
+  if (notifications.length === 0) return;
+  setSnapshot({
+    ...snapshot,
+    queue: [...snapshot.queue, ...notifications.map(notification => ({ ...notification, key: `${nextKey++}` }))],
+  });
+}
+
+/** Quita el aviso que se está mostrando para dar paso al siguiente */
+export function dismissUnlockNotification(): void {
+  if (snapshot.queue.length === 0) return;
+  setSnapshot({ ...snapshot, queue: snapshot.queue.slice(1) });
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Armario del avatar compuesto.
+ *
+ * El avatar compuesto se dibuja por capas, de atrás hacia delante: fondo,
+ * capibara base, ropa, gafas y sombrero. Cada capa es una prenda del catálogo
+ * (constants/Wardrobe) identificada por una clave estable. Algunas prendas se
+ * desbloquean al completar un logro concreto.
+ */
+import type { ImageSourcePropType } from 'react-native';
+
+import { WARDROBE_ITEMS, WARDROBE_SLOTS } from '../constants/Wardrobe';
+import type { Achievement } from './achievementEngine';
+
+/** Capas del avatar compuesto */
+export type WardrobeSlot = 'background' | 'base' | 'outfit' | 'eyewear' | 'headwear';
+
+/** Capas que se pueden dejar vacías; el fondo y la capibara base siempre se dibujan */
+export type OptionalWardrobeSlot = Exclude<WardrobeSlot, 'background' | 'base'>;
+
+/** Claves de las prendas y fondos del catálogo */
+export type WardrobeItemId =
+  | 'sunny' | 'sky' | 'meadow' | 'sunset' | 'night'
+  | 'classic'
+  | 'scarf' | 'bow' | 'medal' | 'tie'
+  | 'glasses' | 'sunglasses' | 'goggles'
+  | 'cap' | 'topHat' | 'graduationCap' | 'sunHat' | 'crown';
+
+/**
+ * Prenda o fondo del catálogo: una imagen, un emoji que se superpone a la
+ * capibara o un color de fondo. El nombre visible es el mensaje
+ * `wardrobe.<id>` de los catálogos de traducción.
+ */
+export type WardrobeItem = {
+  id: WardrobeItemId;
+  slot: WardrobeSlot;
+  /** Logro que hay que completar para usarla; sin él está disponible desde el principio */
+  unlockedBy?: string;
+} & (
+  | { kind: 'image'; source: ImageSourcePropType }
+  | { kind: 'emoji'; glyph: string }
+  | { kind: 'color'; color: string }
+);
+
+/** Prenda elegida en cada capa del avatar, o null si la capa está vacía */
+export type AvatarLayers = Record<'background' | 'base', WardrobeItemId> & Record<OptionalWardrobeSlot, WardrobeItemId | null>;
+
+/** Capas de un avatar compuesto recién creado */
+export const DEFAULT_LAYERS: AvatarLayers = {
+  background: 'sunny',
+  base: 'classic',
+  outfit: null,
+  eyewear: null,
+  headwear: null,
+};
+
+/**
+ * Busca una prenda del catálogo
+ * @param id - Clave de la prenda
+ */
+export function getWardrobeItem(id: string): WardrobeItem | undefined {
+  return WARDROBE_ITEMS.find(item => item.id === id);
+}
+
+/**
+ * Prendas del catálogo para una capa, en el orden en que se muestran
+ * @param slot - Capa del avatar
+ */
+export function getWardrobeItems(slot: WardrobeSlot): WardrobeItem[] {
+  return WARDROBE_ITEMS.filter(item => item.slot === slot);
+}
+
+/**
+ * Comprueba que un valor guardado describa capas válidas: cada capa tiene una
+ * prenda de esa capa o, si se puede dejar vacía, null
+ * @param value - JSON ya interpretado
+ */
+export function isAvatarLayers(value: unknown): value is AvatarLayers {
+  if (typeof value !== 'object' || value === null) return false;
+  const layers = value as Record<string, unknown>;
+  return (Object.keys(WARDROBE_SLOTS) as WardrobeSlot[]).every(slot => {
+    const id = layers[slot];
+    if (id === null) return WARDROBE_SLOTS[slot].optional;
+    return typeof id === 'string' && getWardrobeItem(id)?.slot === slot;
+  });
+}
+
+/**
+ * Logro que bloquea una prenda, o null si está disponible
+ * @param item - Prenda del catálogo
+ * @param achievements - Logros evaluados del almacén
+ */
+export function getLockingAchievement(item: WardrobeItem, achievements: Achievement[]): Achievement | null {
+  if (!item.unlockedBy) return null;
+  const achievement = achievements.find(candidate => candidate.id === item.unlockedBy);
+  // Si el logro ya no existe en el catálogo la prenda no puede quedarse bloqueada para siempre
+  if (!achievement || achievement.isCompleted) return null;
+  return achievement;
+}